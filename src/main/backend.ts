@@ -0,0 +1,124 @@
+import { app, BrowserWindow, ipcMain } from 'electron';
+import path from 'path';
+import fs from 'fs/promises';
+import os from 'os';
+import type { BackendConfig } from '../shared/types';
+import { BackendSupervisor } from './backendSupervisor';
+
+const CONFIG_FILE = path.join(
+  os.homedir(),
+  '.neovate',
+  'desktop',
+  'backend.json',
+);
+
+// Off until the user opts in, developers usually run the server themselves
+const DEFAULT_CONFIG: BackendConfig = {
+  enabled: false,
+  command:
+    process.env.NEOVATE_BACKEND_COMMAND ||
+    'neovate server --quiet --port {port}',
+};
+
+let supervisor: BackendSupervisor | null = null;
+let supervisorReady: Promise<BackendSupervisor> | null = null;
+let isQuitting = false;
+
+async function loadConfig(): Promise<BackendConfig> {
+  try {
+    const data = await fs.readFile(CONFIG_FILE, 'utf-8');
+    return { ...DEFAULT_CONFIG, ...JSON.parse(data) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to load backend config:', error);
+    }
+    return DEFAULT_CONFIG;
+  }
+}
+
+async function saveConfig(config: BackendConfig) {
+  await fs.mkdir(path.dirname(CONFIG_FILE), { recursive: true });
+  await fs.writeFile(CONFIG_FILE, JSON.stringify(config, null, 2), 'utf-8');
+}
+
+/**
+ * Send a backend event to every open window
+ */
+function broadcast(channel: string, payload: unknown) {
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (!window.webContents.isDestroyed()) {
+      window.webContents.send(channel, payload);
+    }
+  }
+}
+
+/**
+ * Wait for the config to load, IPC may arrive before that
+ */
+function getSupervisor(): Promise<BackendSupervisor> {
+  if (!supervisorReady) {
+    throw new Error('Backend handlers are not registered');
+  }
+  return supervisorReady;
+}
+
+/**
+ * Register IPC handlers for the embedded backend and start it when enabled
+ * The backend is stopped before the app quits so it never outlives the
+ * window that owns it.
+ */
+export function registerBackendHandlers() {
+  supervisorReady = loadConfig().then((config) => {
+    supervisor = new BackendSupervisor(config);
+    supervisor.on('status', (status) => broadcast('backend:status', status));
+    supervisor.on('log', (line) => broadcast('backend:log', line));
+    supervisor.start();
+    return supervisor;
+  });
+
+  ipcMain.handle('backend:get-status', async () =>
+    (await getSupervisor()).getStatus(),
+  );
+
+  ipcMain.handle('backend:get-config', async () =>
+    (await getSupervisor()).getConfig(),
+  );
+
+  ipcMain.handle('backend:get-logs', async () =>
+    (await getSupervisor()).getLogs(),
+  );
+
+  ipcMain.handle(
+    'backend:set-config',
+    async (_event, config: BackendConfig) => {
+      const next: BackendConfig = {
+        enabled: !!config.enabled,
+        command: config.command?.trim() || DEFAULT_CONFIG.command,
+      };
+      await saveConfig(next);
+      const backend = await getSupervisor();
+      await backend.setConfig(next);
+      return backend.getStatus();
+    },
+  );
+
+  ipcMain.handle('backend:restart', async () => {
+    const backend = await getSupervisor();
+    await backend.restart();
+    return backend.getStatus();
+  });
+
+  app.on('before-quit', (event) => {
+    if (isQuitting || !supervisor) return;
+    const { state } = supervisor.getStatus();
+    if (state === 'stopped' || state === 'failed') return;
+
+    // Hold the quit until the backend has shut down
+    event.preventDefault();
+    isQuitting = true;
+    supervisor
+      .stop()
+      .catch((error) => console.error('Failed to stop backend:', error))
+      .finally(() => app.quit());
+  });
+}
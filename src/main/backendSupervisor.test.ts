@@ -0,0 +1,108 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import net from 'net';
+import type { BackendStatus } from '../shared/types';
+import {
+  BackendSupervisor,
+  buildBackendCommand,
+  findFreePort,
+} from './backendSupervisor';
+
+const NODE = JSON.stringify(process.execPath);
+
+// Stub backends, the supervisor passes the chosen port in PORT
+const LISTENING_STUB = `${NODE} -e "require('net').createServer().listen(Number(process.env.PORT), '127.0.0.1')"`;
+const CRASHING_STUB = `${NODE} -e "process.exit(3)"`;
+
+function waitForStatus(
+  supervisor: BackendSupervisor,
+  predicate: (status: BackendStatus) => boolean,
+  timeout = 10000,
+): Promise<BackendStatus> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      supervisor.off('status', onStatus);
+      reject(new Error(`Timed out in state ${supervisor.getStatus().state}`));
+    }, timeout);
+    const onStatus = (status: BackendStatus) => {
+      if (!predicate(status)) return;
+      clearTimeout(timer);
+      supervisor.off('status', onStatus);
+      resolve(status);
+    };
+    supervisor.on('status', onStatus);
+  });
+}
+
+describe('findFreePort', () => {
+  it('should return a port that can be listened on', async () => {
+    const port = await findFreePort();
+    const server = net.createServer();
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', resolve);
+    });
+    await new Promise((resolve) => server.close(resolve));
+
+    expect(port).toBeGreaterThan(0);
+  });
+});
+
+describe('buildBackendCommand', () => {
+  it('should replace every port placeholder', () => {
+    expect(
+      buildBackendCommand(
+        'neovate serve --port {port} --url ws://x:{port}',
+        4100,
+      ),
+    ).toBe('neovate serve --port 4100 --url ws://x:4100');
+  });
+});
+
+describe('BackendSupervisor', () => {
+  let supervisor: BackendSupervisor | null = null;
+
+  afterEach(async () => {
+    await supervisor?.stop();
+    supervisor = null;
+  });
+
+  it('should report running once the stub server accepts connections', async () => {
+    supervisor = new BackendSupervisor({
+      enabled: true,
+      command: LISTENING_STUB,
+    });
+    const running = waitForStatus(
+      supervisor,
+      (status) => status.state === 'running',
+    );
+    await supervisor.start();
+    const status = await running;
+
+    expect(status.url).toBe(`ws://127.0.0.1:${status.port}/ws`);
+    expect(status.pid).not.toBeNull();
+
+    await supervisor.stop();
+    expect(supervisor.getStatus().state).toBe('stopped');
+  });
+
+  it('should restart a crashing backend with a doubling delay', async () => {
+    supervisor = new BackendSupervisor({
+      enabled: true,
+      command: CRASHING_STUB,
+    });
+    const restarted = waitForStatus(
+      supervisor,
+      (status) => status.state === 'crashed' && status.restarts === 1,
+    );
+    await supervisor.start();
+    const status = await restarted;
+
+    expect(status.lastExitCode).toBe(3);
+    expect(
+      supervisor
+        .getLogs()
+        .filter((line) => line.text.startsWith('Restarting backend'))
+        .map((line) => line.text),
+    ).toEqual(['Restarting backend in 1s', 'Restarting backend in 2s']);
+  });
+});
@@ -0,0 +1,355 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import net from 'net';
+import type {
+  BackendConfig,
+  BackendLogLine,
+  BackendStatus,
+} from '../shared/types';
+
+// Log lines kept for the settings viewer
+const MAX_LOG_LINES = 1000;
+
+// Restart delay doubles on every crash up to the max
+const RESTART_BASE_DELAY_MS = 1000;
+const RESTART_MAX_DELAY_MS = 30000;
+
+// A backend that stayed up this long resets the backoff
+const STABLE_UPTIME_MS = 60000;
+
+// Consecutive crashes before giving up until a manual restart
+const MAX_CONSECUTIVE_CRASHES = 10;
+
+// How long the port may take to accept connections after spawning
+const READY_TIMEOUT_MS = 30000;
+const READY_POLL_INTERVAL_MS = 200;
+
+// Grace period between SIGTERM and SIGKILL when stopping
+const STOP_TIMEOUT_MS = 5000;
+
+/**
+ * Ask the OS for a free port on the loopback interface
+ */
+export function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      server.close(() => {
+        if (address && typeof address === 'object') {
+          resolve(address.port);
+        } else {
+          reject(new Error('Could not determine a free port'));
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Check whether something accepts TCP connections on the port
+ */
+function isPortOpen(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ port, host: '127.0.0.1' });
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('error', () => {
+      socket.destroy();
+      resolve(false);
+    });
+  });
+}
+
+/**
+ * Fill the {port} placeholder of the configured command
+ */
+export function buildBackendCommand(command: string, port: number) {
+  return command.replace(/\{port\}/g, String(port));
+}
+
+/**
+ * Spawns the Neovate backend, restarts it with backoff when it crashes
+ * and keeps its output for the log viewer.
+ *
+ * Emits 'status' with a BackendStatus and 'log' with a BackendLogLine.
+ */
+export class BackendSupervisor extends EventEmitter {
+  private config: BackendConfig;
+  private child: ChildProcess | null = null;
+  private port: number | null = null;
+  private state: BackendStatus['state'] = 'stopped';
+  private restarts = 0;
+  private consecutiveCrashes = 0;
+  private lastExitCode: number | null = null;
+  private lastError: string | null = null;
+  private startedAt = 0;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private logs: BackendLogLine[] = [];
+  // Bumped on every start and stop so stale callbacks can bail out
+  private generation = 0;
+
+  constructor(config: BackendConfig) {
+    super();
+    this.config = config;
+  }
+
+  getStatus(): BackendStatus {
+    return {
+      enabled: this.config.enabled,
+      command: this.config.command,
+      state: this.state,
+      port: this.port,
+      url: this.port ? `ws://127.0.0.1:${this.port}/ws` : null,
+      pid: this.child?.pid ?? null,
+      restarts: this.restarts,
+      lastExitCode: this.lastExitCode,
+      lastError: this.lastError,
+    };
+  }
+
+  getLogs(): BackendLogLine[] {
+    return this.logs;
+  }
+
+  getConfig(): BackendConfig {
+    return this.config;
+  }
+
+  /**
+   * Apply a new config, restarting or stopping the backend to match it
+   */
+  async setConfig(config: BackendConfig): Promise<void> {
+    this.config = config;
+    await this.stop();
+    if (config.enabled) {
+      await this.start();
+    } else {
+      this.emitStatus();
+    }
+  }
+
+  async start(): Promise<void> {
+    if (!this.config.enabled || this.child) return;
+    this.clearRestartTimer();
+
+    const generation = ++this.generation;
+    this.setState('starting');
+
+    try {
+      // Reuse the port across restarts so open connections can come back
+      if (!this.port || (await isPortOpen(this.port))) {
+        this.port = await findFreePort();
+      }
+    } catch (error) {
+      this.lastError = `Could not find a free port: ${(error as Error).message}`;
+      this.setState('failed');
+      return;
+    }
+    if (generation !== this.generation) return;
+
+    const command = buildBackendCommand(this.config.command, this.port);
+    this.log('system', `Starting backend: ${command}`);
+
+    const child = spawn(command, {
+      shell: true,
+      // Own process group so the whole tree can be signalled on stop
+      detached: process.platform !== 'win32',
+      env: {
+        ...process.env,
+        PORT: String(this.port),
+        NEOVATE_PORT: String(this.port),
+      },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    this.child = child;
+    this.startedAt = Date.now();
+
+    this.pipeOutput(child, 'stdout');
+    this.pipeOutput(child, 'stderr');
+
+    child.once('error', (error) => {
+      this.lastError = error.message;
+      this.log('system', `Failed to start backend: ${error.message}`);
+    });
+
+    child.once('exit', (code, signal) => {
+      this.handleExit(child, generation, code, signal);
+    });
+
+    this.waitUntilReady(child, generation);
+  }
+
+  /**
+   * Stop the backend, escalating to SIGKILL if it does not exit in time
+   */
+  async stop(): Promise<void> {
+    this.generation++;
+    this.clearRestartTimer();
+
+    const child = this.child;
+    if (!child) {
+      if (this.state !== 'stopped') this.setState('stopped');
+      return;
+    }
+
+    this.log('system', 'Stopping backend');
+    this.setState('stopping');
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        this.log('system', 'Backend did not exit in time, killing it');
+        this.signal(child, 'SIGKILL');
+      }, STOP_TIMEOUT_MS);
+
+      child.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      this.signal(child, 'SIGTERM');
+    });
+
+    this.child = null;
+    this.setState('stopped');
+  }
+
+  async restart(): Promise<void> {
+    await this.stop();
+    this.consecutiveCrashes = 0;
+    this.lastError = null;
+    await this.start();
+  }
+
+  private signal(child: ChildProcess, signal: NodeJS.Signals) {
+    if (child.exitCode !== null || child.signalCode !== null) return;
+    try {
+      if (process.platform === 'win32' || !child.pid) {
+        child.kill(signal);
+      } else {
+        // Negative pid signals the process group started by the shell
+        process.kill(-child.pid, signal);
+      }
+    } catch (error) {
+      console.error(`Failed to send ${signal} to backend:`, error);
+    }
+  }
+
+  private async waitUntilReady(child: ChildProcess, generation: number) {
+    const deadline = Date.now() + READY_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      if (generation !== this.generation || this.child !== child) return;
+      if (this.port && (await isPortOpen(this.port))) {
+        if (generation !== this.generation || this.child !== child) return;
+        this.log('system', `Backend listening on port ${this.port}`);
+        this.setState('running');
+        return;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, READY_POLL_INTERVAL_MS),
+      );
+    }
+
+    if (generation === this.generation && this.child === child) {
+      this.log(
+        'system',
+        `Backend did not open port ${this.port} within ${READY_TIMEOUT_MS / 1000}s`,
+      );
+      this.lastError = 'Backend did not start listening in time';
+      this.signal(child, 'SIGTERM');
+    }
+  }
+
+  private handleExit(
+    child: ChildProcess,
+    generation: number,
+    code: number | null,
+    signal: NodeJS.Signals | null,
+  ) {
+    this.log(
+      'system',
+      `Backend exited with ${signal ? `signal ${signal}` : `code ${code}`}`,
+    );
+    this.lastExitCode = code;
+
+    // Stopped on purpose, stop() finishes the bookkeeping
+    if (generation !== this.generation || this.child !== child) return;
+    this.child = null;
+
+    if (Date.now() - this.startedAt >= STABLE_UPTIME_MS) {
+      this.consecutiveCrashes = 0;
+    }
+    this.consecutiveCrashes++;
+    if (!this.lastError) {
+      this.lastError = `Backend exited with ${signal ? `signal ${signal}` : `code ${code}`}`;
+    }
+
+    if (this.consecutiveCrashes > MAX_CONSECUTIVE_CRASHES) {
+      this.log(
+        'system',
+        `Backend crashed ${MAX_CONSECUTIVE_CRASHES} times in a row, giving up`,
+      );
+      this.setState('failed');
+      return;
+    }
+
+    const delay = Math.min(
+      RESTART_BASE_DELAY_MS * 2 ** (this.consecutiveCrashes - 1),
+      RESTART_MAX_DELAY_MS,
+    );
+    this.log('system', `Restarting backend in ${delay / 1000}s`);
+    this.setState('crashed');
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.restarts++;
+      this.start();
+    }, delay);
+  }
+
+  private pipeOutput(child: ChildProcess, stream: 'stdout' | 'stderr') {
+    let buffered = '';
+    child[stream]?.setEncoding('utf-8');
+    child[stream]?.on('data', (chunk: string) => {
+      const lines = (buffered + chunk).split(/\r?\n/);
+      buffered = lines.pop() || '';
+      for (const line of lines) {
+        this.log(stream, line);
+      }
+    });
+    child[stream]?.on('end', () => {
+      if (buffered) this.log(stream, buffered);
+      buffered = '';
+    });
+  }
+
+  private log(stream: BackendLogLine['stream'], text: string) {
+    const line: BackendLogLine = { timestamp: Date.now(), stream, text };
+    this.logs.push(line);
+    if (this.logs.length > MAX_LOG_LINES) {
+      this.logs.splice(0, this.logs.length - MAX_LOG_LINES);
+    }
+    this.emit('log', line);
+  }
+
+  private setState(state: BackendStatus['state']) {
+    this.state = state;
+    if (state === 'running') {
+      this.lastError = null;
+    }
+    this.emitStatus();
+  }
+
+  private emitStatus() {
+    this.emit('status', this.getStatus());
+  }
+
+  private clearRestartTimer() {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+  }
+}
@@ -0,0 +1,294 @@
+import { ipcMain } from 'electron';
+import { spawn } from 'child_process';
+import path from 'path';
+import fs from 'fs/promises';
+import type {
+  GitChangeKind,
+  GitFileChange,
+  GitFileVersions,
+  GitState,
+} from '../shared/types';
+
+/**
+ * Run git in a worktree and resolve with stdout
+ * Git reports some failures such as "nothing to commit" on stdout, so that
+ * is used when stderr is empty. Progress of network commands is written to
+ * stderr and passed to `onProgress` as it arrives.
+ */
+export function runGit(
+  cwd: string,
+  args: string[],
+  input?: string,
+  onProgress?: (text: string) => void,
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, {
+      cwd,
+      // There is no terminal to answer credential prompts
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+    });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (data: Buffer) => {
+      stdout += data.toString();
+    });
+    child.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+      onProgress?.(data.toString());
+    });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(
+          new Error(
+            (stderr || stdout).trim() ||
+              `git ${args[0]} exited with code ${code}`,
+          ),
+        );
+      }
+    });
+
+    if (input !== undefined) {
+      child.stdin.end(input);
+    }
+  });
+}
+
+/**
+ * Map a porcelain status letter to the kind of change it describes
+ */
+function toChangeKind(code: string): GitChangeKind | null {
+  switch (code) {
+    case 'A':
+    case 'C':
+      return 'added';
+    case 'M':
+    case 'T':
+      return 'modified';
+    case 'D':
+      return 'deleted';
+    case 'R':
+      return 'renamed';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse `git status --porcelain=v1 -z` output
+ * Renames and copies are followed by their source path as a separate entry.
+ */
+function parseStatus(output: string): GitFileChange[] {
+  const entries = output.split('\0');
+  const changes: GitFileChange[] = [];
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.length < 4) continue;
+
+    const x = entry[0];
+    const y = entry[1];
+    const filePath = entry.slice(3);
+    const oldPath = x === 'R' || x === 'C' ? entries[++i] || null : null;
+
+    if (x === '?') {
+      changes.push({
+        path: filePath,
+        oldPath: null,
+        staged: null,
+        unstaged: 'untracked',
+      });
+      continue;
+    }
+
+    // Unmerged paths, see "git status" short format
+    if (
+      x === 'U' ||
+      y === 'U' ||
+      (x === 'A' && y === 'A') ||
+      (x === 'D' && y === 'D')
+    ) {
+      changes.push({
+        path: filePath,
+        oldPath,
+        staged: null,
+        unstaged: 'conflicted',
+      });
+      continue;
+    }
+
+    changes.push({
+      path: filePath,
+      oldPath,
+      staged: toChangeKind(x),
+      unstaged: toChangeKind(y),
+    });
+  }
+
+  return changes;
+}
+
+async function readStatus(cwd: string): Promise<GitFileChange[]> {
+  return parseStatus(
+    await runGit(cwd, [
+      'status',
+      '--porcelain=v1',
+      '-z',
+      '--untracked-files=all',
+    ]),
+  );
+}
+
+/**
+ * Summary of a worktree's git state, in the shape workspaces store it
+ */
+export async function readGitState(cwd: string): Promise<GitState> {
+  const [changes, currentCommit] = await Promise.all([
+    readStatus(cwd),
+    // A repository without commits has no HEAD yet
+    runGit(cwd, ['rev-parse', 'HEAD']).then(
+      (output) => output.trim(),
+      () => '',
+    ),
+  ]);
+  return {
+    currentCommit,
+    isDirty: changes.length > 0,
+    pendingChanges: changes.map((change) => change.path),
+  };
+}
+
+/**
+ * Contents of a file in a git object, empty when the path is not in it
+ */
+function showFile(cwd: string, spec: string): Promise<string> {
+  return runGit(cwd, ['show', spec]).catch(() => '');
+}
+
+async function readWorktreeFile(cwd: string, filePath: string) {
+  try {
+    return await fs.readFile(path.join(cwd, filePath), 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Both sides of a file's staged (HEAD to index) or unstaged (index to
+ * worktree) change
+ */
+async function readFileVersions(
+  cwd: string,
+  change: Pick<GitFileChange, 'path' | 'oldPath'>,
+  staged: boolean,
+): Promise<GitFileVersions> {
+  const [original, modified] = staged
+    ? await Promise.all([
+        showFile(cwd, `HEAD:${change.oldPath || change.path}`),
+        showFile(cwd, `:${change.path}`),
+      ])
+    : await Promise.all([
+        showFile(cwd, `:${change.path}`),
+        readWorktreeFile(cwd, change.path),
+      ]);
+
+  // Diffing binary content is meaningless and can be huge
+  if (original.includes('\0') || modified.includes('\0')) {
+    return { original: '', modified: '', binary: true };
+  }
+  return { original, modified, binary: false };
+}
+
+/**
+ * Register IPC handlers for reading and changing a worktree's git state
+ * Paths are relative to the worktree passed as cwd.
+ */
+export function registerGitHandlers() {
+  ipcMain.handle('git:status', (_event, { cwd }: { cwd: string }) =>
+    readStatus(cwd),
+  );
+
+  ipcMain.handle(
+    'git:file-versions',
+    (
+      _event,
+      {
+        cwd,
+        change,
+        staged,
+      }: {
+        cwd: string;
+        change: Pick<GitFileChange, 'path' | 'oldPath'>;
+        staged: boolean;
+      },
+    ) => readFileVersions(cwd, change, staged),
+  );
+
+  ipcMain.handle(
+    'git:stage',
+    async (_event, { cwd, paths }: { cwd: string; paths: string[] }) => {
+      await runGit(cwd, ['add', '--all', '--', ...paths]);
+      return { success: true };
+    },
+  );
+
+  ipcMain.handle(
+    'git:unstage',
+    async (_event, { cwd, paths }: { cwd: string; paths: string[] }) => {
+      await runGit(cwd, ['restore', '--staged', '--', ...paths]);
+      return { success: true };
+    },
+  );
+
+  ipcMain.handle(
+    'git:discard',
+    async (_event, { cwd, paths }: { cwd: string; paths: string[] }) => {
+      // Untracked files have nothing to restore, they are deleted instead
+      const tracked = new Set(
+        (await runGit(cwd, ['ls-files', '-z', '--', ...paths]))
+          .split('\0')
+          .filter(Boolean),
+      );
+      const untracked = paths.filter((file) => !tracked.has(file));
+
+      if (tracked.size > 0) {
+        await runGit(cwd, ['restore', '--worktree', '--', ...tracked]);
+      }
+      if (untracked.length > 0) {
+        await runGit(cwd, ['clean', '--force', '--', ...untracked]);
+      }
+      return { success: true };
+    },
+  );
+
+  ipcMain.handle(
+    'git:apply-patch',
+    async (
+      _event,
+      {
+        cwd,
+        patch,
+        cached,
+        reverse,
+      }: { cwd: string; patch: string; cached: boolean; reverse: boolean },
+    ) => {
+      const args = ['apply', '--whitespace=nowarn'];
+      if (cached) args.push('--cached');
+      if (reverse) args.push('--reverse');
+      await runGit(cwd, [...args, '-'], patch);
+      return { success: true };
+    },
+  );
+
+  ipcMain.handle(
+    'git:commit',
+    async (_event, { cwd, message }: { cwd: string; message: string }) => {
+      await runGit(cwd, ['commit', '--message', message]);
+      const commit = (await runGit(cwd, ['rev-parse', 'HEAD'])).trim();
+      return { success: true, commit };
+    },
+  );
+}
@@ -0,0 +1,428 @@
+import { stripVTControlCharacters } from 'util';
+import { ipcMain, type WebContents } from 'electron';
+import type {
+  GitBranchSync,
+  GitRepoSync,
+  GitSyncOperation,
+  GitSyncResult,
+  GitSyncState,
+} from '../shared/types';
+import { runGit } from './git';
+
+const FETCH_INTERVAL_MS = 5 * 60 * 1000;
+
+interface WorktreeEntry {
+  path: string;
+  head: string;
+  branch: string | null;
+}
+
+// Repos each window shows, keyed by webContents id
+const trackers = new Map<
+  number,
+  { contents: WebContents; repoPaths: Set<string> }
+>();
+const syncByRepo = new Map<string, GitRepoSync>();
+const fetching = new Map<string, Promise<GitRepoSync>>();
+let fetchTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Run git for information that may legitimately be missing, such as an
+ * upstream branch, resolving with null instead of failing
+ */
+function tryGit(cwd: string, args: string[]): Promise<string | null> {
+  return runGit(cwd, args).then(
+    (output) => output.trim(),
+    () => null,
+  );
+}
+
+/**
+ * Last non-empty line of git output, without terminal escape codes
+ */
+function lastLine(text: string) {
+  const lines = stripVTControlCharacters(text)
+    .split(/[\r\n]+/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return lines[lines.length - 1] || '';
+}
+
+function trackedRepoPaths() {
+  const paths = new Set<string>();
+  for (const { repoPaths } of trackers.values()) {
+    for (const repoPath of repoPaths) paths.add(repoPath);
+  }
+  return paths;
+}
+
+function trackersOf(repoPath: string) {
+  return [...trackers.values()]
+    .filter(({ repoPaths }) => repoPaths.has(repoPath))
+    .map(({ contents }) => contents);
+}
+
+function broadcast(sync: GitRepoSync) {
+  for (const contents of trackersOf(sync.repoPath)) {
+    if (!contents.isDestroyed()) contents.send('git:sync', sync);
+  }
+}
+
+/**
+ * Forward the latest line of git's progress output to the given windows
+ */
+function reportProgress(
+  targets: WebContents[],
+  cwd: string,
+  operation: GitSyncOperation,
+) {
+  return (text: string) => {
+    const message = lastLine(text);
+    if (!message) return;
+    for (const contents of targets) {
+      if (!contents.isDestroyed()) {
+        contents.send('git:sync-progress', { cwd, operation, message });
+      }
+    }
+  };
+}
+
+/**
+ * Parse `git worktree list --porcelain`, skipping bare entries
+ */
+function parseWorktrees(output: string): WorktreeEntry[] {
+  const worktrees: WorktreeEntry[] = [];
+  for (const block of output.split('\n\n')) {
+    const lines = block.split('\n');
+    const field = (name: string) =>
+      lines.find((line) => line.startsWith(`${name} `))?.slice(name.length + 1);
+
+    const path = field('worktree');
+    if (!path || lines.includes('bare')) continue;
+    worktrees.push({
+      path,
+      head: field('HEAD') || '',
+      branch: field('branch')?.replace(/^refs\/heads\//, '') ?? null,
+    });
+  }
+  return worktrees;
+}
+
+function toSyncState(
+  upstream: string | null,
+  ahead: number,
+  behind: number,
+): GitSyncState {
+  if (!upstream) return 'unknown';
+  if (ahead > 0 && behind > 0) return 'diverged';
+  if (ahead > 0) return 'ahead';
+  if (behind > 0) return 'behind';
+  return 'synced';
+}
+
+async function readBranchSync(
+  repoPath: string,
+  worktree: WorktreeEntry,
+  defaultRef: string | null,
+): Promise<GitBranchSync> {
+  const { branch } = worktree;
+  const ref = branch ? `refs/heads/${branch}` : worktree.head;
+
+  // Branches pushed without --set-upstream are still compared to origin
+  let upstream: string | null = null;
+  if (branch) {
+    upstream =
+      (await tryGit(repoPath, [
+        'rev-parse',
+        '--abbrev-ref',
+        `${branch}@{upstream}`,
+      ])) ||
+      ((await tryGit(repoPath, [
+        'rev-parse',
+        '--verify',
+        '--quiet',
+        `refs/remotes/origin/${branch}`,
+      ]))
+        ? `origin/${branch}`
+        : null);
+  }
+
+  let ahead = 0;
+  let behind = 0;
+  if (upstream) {
+    const counts = await tryGit(repoPath, [
+      'rev-list',
+      '--left-right',
+      '--count',
+      `${ref}...${upstream}`,
+    ]);
+    [ahead, behind] = (counts || '0\t0').split(/\s+/).map(Number);
+  }
+
+  let behindDefault: number | null = null;
+  if (defaultRef && upstream !== defaultRef) {
+    const count = await tryGit(repoPath, [
+      'rev-list',
+      '--count',
+      `${ref}..${defaultRef}`,
+    ]);
+    behindDefault = count === null ? null : Number(count);
+  }
+
+  return {
+    branch,
+    upstream,
+    ahead,
+    behind,
+    behindDefault,
+    state: toSyncState(upstream, ahead, behind),
+  };
+}
+
+/**
+ * Compare every worktree of a repo against the remote-tracking branches
+ * from the last fetch
+ */
+async function readRepoSync(
+  repoPath: string,
+  fetchedAt: number,
+  error: string | null,
+): Promise<GitRepoSync> {
+  // e.g. origin/main
+  const defaultRef = await tryGit(repoPath, [
+    'symbolic-ref',
+    '--short',
+    'refs/remotes/origin/HEAD',
+  ]);
+
+  const worktrees: Record<string, GitBranchSync> = {};
+  const entries = parseWorktrees(
+    (await tryGit(repoPath, ['worktree', 'list', '--porcelain'])) || '',
+  );
+  for (const entry of entries) {
+    worktrees[entry.path] = await readBranchSync(repoPath, entry, defaultRef);
+  }
+
+  return {
+    repoPath,
+    defaultBranch: defaultRef ? defaultRef.replace(/^[^/]+\//, '') : null,
+    fetchedAt,
+    error,
+    worktrees,
+  };
+}
+
+/**
+ * Fetch all remotes of a repo and publish its sync status
+ * Concurrent requests for the same repo share one fetch.
+ */
+function fetchRepo(repoPath: string, onProgress?: (text: string) => void) {
+  const inFlight = fetching.get(repoPath);
+  if (inFlight) return inFlight;
+
+  const promise = (async () => {
+    let fetchedAt = syncByRepo.get(repoPath)?.fetchedAt ?? 0;
+    let error: string | null = null;
+
+    // Local-only repos have nothing to fetch
+    if (await tryGit(repoPath, ['remote'])) {
+      try {
+        await runGit(
+          repoPath,
+          ['fetch', '--all', '--prune', '--progress'],
+          undefined,
+          onProgress,
+        );
+        fetchedAt = Date.now();
+      } catch (fetchError) {
+        error = (fetchError as Error).message;
+      }
+    }
+
+    const sync = await readRepoSync(repoPath, fetchedAt, error);
+    syncByRepo.set(repoPath, sync);
+    broadcast(sync);
+    return sync;
+  })().finally(() => fetching.delete(repoPath));
+
+  fetching.set(repoPath, promise);
+  return promise;
+}
+
+/**
+ * Fetch repos one after another, fetching many at once saturates slow links
+ */
+async function fetchRepos(repoPaths: Iterable<string>) {
+  for (const repoPath of repoPaths) {
+    await fetchRepo(repoPath).catch((error) =>
+      console.error(`Failed to fetch ${repoPath}:`, error),
+    );
+  }
+}
+
+/**
+ * Recompute the status of the repo a worktree belongs to, without fetching
+ */
+async function refreshWorktreeRepo(cwd: string) {
+  for (const [repoPath, sync] of syncByRepo) {
+    if (repoPath !== cwd && !sync.worktrees[cwd]) continue;
+
+    const next = await readRepoSync(repoPath, sync.fetchedAt, sync.error);
+    syncByRepo.set(repoPath, next);
+    broadcast(next);
+  }
+}
+
+/**
+ * Run a pull, push or rebase in a worktree
+ * A pull or rebase that stops on conflicts is aborted, leaving the worktree
+ * as it was, and the conflicting files are reported instead of an error.
+ */
+async function runSyncOperation(
+  contents: WebContents,
+  cwd: string,
+  operation: GitSyncOperation,
+  run: (onProgress: (text: string) => void) => Promise<string>,
+): Promise<GitSyncResult> {
+  try {
+    const output = await run(reportProgress([contents], cwd, operation));
+    return { success: true, conflicts: [], message: lastLine(output) };
+  } catch (error) {
+    // A failed push never starts a rebase, so there is nothing to abort
+    if (operation !== 'pull' && operation !== 'rebase') throw error;
+
+    const conflicts = (
+      (await tryGit(cwd, ['diff', '--name-only', '--diff-filter=U'])) || ''
+    )
+      .split('\n')
+      .filter(Boolean);
+    if (conflicts.length === 0) throw error;
+
+    await runGit(cwd, ['rebase', '--abort']).catch((abortError) =>
+      console.error(`Failed to abort rebase in ${cwd}:`, abortError),
+    );
+    return {
+      success: false,
+      conflicts,
+      message: 'Rebase stopped on conflicts and was aborted',
+    };
+  } finally {
+    await refreshWorktreeRepo(cwd);
+  }
+}
+
+function updateFetchTimer() {
+  if (trackers.size > 0 && !fetchTimer) {
+    fetchTimer = setInterval(
+      () => fetchRepos(trackedRepoPaths()),
+      FETCH_INTERVAL_MS,
+    );
+  } else if (trackers.size === 0 && fetchTimer) {
+    clearInterval(fetchTimer);
+    fetchTimer = null;
+  }
+}
+
+/**
+ * Drop status of repos no window shows anymore and stop fetching when there
+ * are none left
+ */
+function pruneTracking() {
+  const tracked = trackedRepoPaths();
+  for (const repoPath of syncByRepo.keys()) {
+    if (!tracked.has(repoPath)) syncByRepo.delete(repoPath);
+  }
+  updateFetchTimer();
+}
+
+/**
+ * Register IPC handlers for remote sync status, fetched in the background for
+ * the repos windows show, and for pulling, pushing and rebasing worktrees
+ */
+export function registerGitSyncHandlers() {
+  ipcMain.on(
+    'git:track-remotes',
+    (event, { repoPaths }: { repoPaths: string[] }) => {
+      const contents = event.sender;
+      if (!trackers.has(contents.id)) {
+        const contentsId = contents.id;
+        contents.once('destroyed', () => {
+          trackers.delete(contentsId);
+          pruneTracking();
+        });
+      }
+
+      const previous = trackedRepoPaths();
+      trackers.set(contents.id, { contents, repoPaths: new Set(repoPaths) });
+      pruneTracking();
+
+      // Repos another window tracks are already known, the rest is fetched
+      for (const repoPath of repoPaths) {
+        const sync = syncByRepo.get(repoPath);
+        if (sync) contents.send('git:sync', sync);
+      }
+      fetchRepos(
+        repoPaths.filter(
+          (repoPath) => !previous.has(repoPath) && !fetching.has(repoPath),
+        ),
+      );
+    },
+  );
+
+  ipcMain.handle('git:fetch', (event, { repoPath }: { repoPath: string }) =>
+    fetchRepo(repoPath, reportProgress([event.sender], repoPath, 'fetch')),
+  );
+
+  ipcMain.handle('git:pull', (event, { cwd }: { cwd: string }) =>
+    runSyncOperation(event.sender, cwd, 'pull', (onProgress) =>
+      runGit(
+        cwd,
+        ['pull', '--rebase', '--autostash', '--progress'],
+        undefined,
+        onProgress,
+      ),
+    ),
+  );
+
+  ipcMain.handle('git:push', (event, { cwd }: { cwd: string }) =>
+    runSyncOperation(event.sender, cwd, 'push', (onProgress) =>
+      runGit(
+        cwd,
+        ['push', '--progress', '--set-upstream', 'origin', 'HEAD'],
+        undefined,
+        onProgress,
+      ),
+    ),
+  );
+
+  ipcMain.handle(
+    'git:rebase',
+    (event, { cwd, onto }: { cwd: string; onto: string }) =>
+      runSyncOperation(event.sender, cwd, 'rebase', async (onProgress) => {
+        // Rebase onto the freshest remote default branch when there is one
+        let base = onto;
+        if (
+          await tryGit(cwd, [
+            'rev-parse',
+            '--verify',
+            '--quiet',
+            `refs/remotes/origin/${onto}`,
+          ])
+        ) {
+          await runGit(
+            cwd,
+            ['fetch', '--progress', 'origin', onto],
+            undefined,
+            onProgress,
+          );
+          base = `origin/${onto}`;
+        }
+        return runGit(
+          cwd,
+          ['rebase', '--autostash', base],
+          undefined,
+          onProgress,
+        );
+      }),
+  );
+}
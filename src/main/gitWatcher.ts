@@ -0,0 +1,325 @@
+import { ipcMain, type WebContents } from 'electron';
+import { watch, type FSWatcher } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import type { GitState } from '../shared/types';
+import { readGitState, runGit } from './git';
+
+// Agents write files in bursts, wait for them to settle
+const REFRESH_DELAY_MS = 300;
+
+// Directories watched per worktree, on Linux each one is an inotify watch
+// and those are limited system wide
+const MAX_WATCHED_DIRS = 1000;
+
+// Never watched even when git does not ignore them
+const SKIPPED_DIR_NAMES = new Set(['.git', 'node_modules']);
+
+interface WorktreeWatcher {
+  cwd: string;
+  // Watches of the git dir, for HEAD, the index and the HEAD log
+  watchers: FSWatcher[];
+  // Watches of worktree directories, keyed by path relative to cwd
+  dirWatchers: Map<string, FSWatcher>;
+  // Directories git ignores, relative to cwd
+  ignoredDirs: Set<string>;
+  // Subscription count per renderer, a window may watch a worktree twice
+  subscribers: Map<number, { contents: WebContents; count: number }>;
+  timer: NodeJS.Timeout | null;
+  lastState: GitState | null;
+  isRefreshing: boolean;
+  // A change arrived while refreshing, refresh again afterwards
+  isStale: boolean;
+}
+
+const worktrees = new Map<string, WorktreeWatcher>();
+const trackedContents = new Set<number>();
+
+function isSameState(a: GitState | null, b: GitState) {
+  return (
+    !!a &&
+    a.currentCommit === b.currentCommit &&
+    a.isDirty === b.isDirty &&
+    a.pendingChanges.join('\n') === b.pendingChanges.join('\n')
+  );
+}
+
+function send(worktree: WorktreeWatcher, contents: WebContents) {
+  if (worktree.lastState && !contents.isDestroyed()) {
+    contents.send('git:state', {
+      cwd: worktree.cwd,
+      state: worktree.lastState,
+    });
+  }
+}
+
+async function refresh(worktree: WorktreeWatcher) {
+  if (worktree.isRefreshing) {
+    worktree.isStale = true;
+    return;
+  }
+
+  worktree.isRefreshing = true;
+  try {
+    const state = await readGitState(worktree.cwd);
+    if (!isSameState(worktree.lastState, state)) {
+      worktree.lastState = state;
+      for (const { contents } of worktree.subscribers.values()) {
+        send(worktree, contents);
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to read git state of ${worktree.cwd}:`, error);
+  } finally {
+    worktree.isRefreshing = false;
+    if (worktree.isStale && isActive(worktree)) {
+      worktree.isStale = false;
+      scheduleRefresh(worktree);
+    }
+  }
+}
+
+function scheduleRefresh(worktree: WorktreeWatcher) {
+  if (worktree.timer) clearTimeout(worktree.timer);
+  worktree.timer = setTimeout(() => {
+    worktree.timer = null;
+    refresh(worktree);
+  }, REFRESH_DELAY_MS);
+}
+
+function isActive(worktree: WorktreeWatcher) {
+  return worktrees.get(worktree.cwd) === worktree;
+}
+
+/**
+ * Watch a single directory, changes in it trigger a refresh
+ */
+function createWatcher(
+  target: string,
+  onChange: (event: string, filename: string | null) => void,
+  onClose: () => void,
+): FSWatcher | null {
+  try {
+    const watcher = watch(target, (event, filename) =>
+      onChange(event, filename ? filename.toString() : null),
+    );
+    // A deleted worktree must not take the main process down
+    watcher.on('error', (error) => {
+      console.error(`Stopped watching ${target}:`, error);
+      watcher.close();
+      onClose();
+    });
+    return watcher;
+  } catch (error) {
+    console.error(`Failed to watch ${target}:`, error);
+    return null;
+  }
+}
+
+function addGitDirWatcher(worktree: WorktreeWatcher, target: string) {
+  const watcher = createWatcher(
+    target,
+    () => scheduleRefresh(worktree),
+    () => {},
+  );
+  if (watcher) worktree.watchers.push(watcher);
+}
+
+function isSkippedDir(worktree: WorktreeWatcher, relative: string) {
+  return (
+    SKIPPED_DIR_NAMES.has(path.basename(relative)) ||
+    worktree.ignoredDirs.has(relative)
+  );
+}
+
+/**
+ * Directories git ignores, such as build output, relative to the worktree
+ */
+async function readIgnoredDirs(cwd: string): Promise<Set<string>> {
+  const output = await runGit(cwd, [
+    'ls-files',
+    '-z',
+    '--others',
+    '--ignored',
+    '--exclude-standard',
+    '--directory',
+  ]);
+  return new Set(
+    output
+      .split('\0')
+      .filter((entry) => entry.endsWith('/'))
+      .map((entry) => path.normalize(entry.slice(0, -1))),
+  );
+}
+
+/**
+ * Watch a directory and the ones below it, one watch per directory
+ * A recursive watch would descend into ignored directories too, so they
+ * are skipped here and the total is capped.
+ */
+async function watchDirTree(worktree: WorktreeWatcher, root: string) {
+  const queue = [root];
+  for (let i = 0; i < queue.length; i++) {
+    if (!isActive(worktree)) return;
+    if (worktree.dirWatchers.size >= MAX_WATCHED_DIRS) {
+      console.warn(
+        `Watching only ${MAX_WATCHED_DIRS} directories of ${worktree.cwd}`,
+      );
+      return;
+    }
+
+    const relative = queue[i];
+    if (worktree.dirWatchers.has(relative)) continue;
+    const watcher = createWatcher(
+      path.join(worktree.cwd, relative),
+      (event, filename) => {
+        scheduleRefresh(worktree);
+        // New directories show up as renames in their parent
+        if (event === 'rename' && filename) {
+          onDirEntryRenamed(worktree, path.join(relative, filename));
+        }
+      },
+      () => worktree.dirWatchers.delete(relative),
+    );
+    if (!watcher) continue;
+    worktree.dirWatchers.set(relative, watcher);
+
+    try {
+      const entries = await fs.readdir(path.join(worktree.cwd, relative), {
+        withFileTypes: true,
+      });
+      for (const entry of entries) {
+        const child = path.join(relative, entry.name);
+        if (entry.isDirectory() && !isSkippedDir(worktree, child)) {
+          queue.push(child);
+        }
+      }
+    } catch (error) {
+      // The directory was removed while walking, its watch goes too
+      console.error(`Failed to list ${relative || worktree.cwd}:`, error);
+    }
+  }
+}
+
+/**
+ * Start watching a created directory, stop watching a removed one
+ */
+function onDirEntryRenamed(worktree: WorktreeWatcher, relative: string) {
+  if (isSkippedDir(worktree, relative)) return;
+  fs.stat(path.join(worktree.cwd, relative))
+    .then((stats) => {
+      if (stats.isDirectory()) watchDirTree(worktree, relative);
+    })
+    .catch(() => {
+      worktree.dirWatchers.get(relative)?.close();
+      worktree.dirWatchers.delete(relative);
+    });
+}
+
+function startWatching(cwd: string): WorktreeWatcher {
+  const worktree: WorktreeWatcher = {
+    cwd,
+    watchers: [],
+    dirWatchers: new Map(),
+    ignoredDirs: new Set(),
+    subscribers: new Map(),
+    timer: null,
+    lastState: null,
+    isRefreshing: false,
+    isStale: false,
+  };
+  worktrees.set(cwd, worktree);
+
+  readIgnoredDirs(cwd)
+    .catch((error) => {
+      console.error(`Failed to list ignored directories of ${cwd}:`, error);
+      return new Set<string>();
+    })
+    .then((ignoredDirs) => {
+      worktree.ignoredDirs = ignoredDirs;
+      return watchDirTree(worktree, '');
+    })
+    .catch((error) => console.error(`Failed to watch ${cwd}:`, error));
+
+  // HEAD and the index live in the git dir, which linked worktrees keep
+  // outside the worktree. Commits only move a branch ref, but they always
+  // append to the HEAD log.
+  runGit(cwd, ['rev-parse', '--absolute-git-dir'])
+    .then((output) => {
+      const gitDir = output.trim();
+      if (gitDir && isActive(worktree)) {
+        addGitDirWatcher(worktree, gitDir);
+        addGitDirWatcher(worktree, path.join(gitDir, 'logs'));
+      }
+    })
+    .catch((error) =>
+      console.error(`Failed to find git dir of ${cwd}:`, error),
+    );
+
+  refresh(worktree);
+  return worktree;
+}
+
+function stopWatching(worktree: WorktreeWatcher) {
+  if (worktree.timer) clearTimeout(worktree.timer);
+  for (const watcher of [
+    ...worktree.watchers,
+    ...worktree.dirWatchers.values(),
+  ]) {
+    watcher.close();
+  }
+  worktrees.delete(worktree.cwd);
+}
+
+function unsubscribe(contentsId: number, cwd: string, all = false) {
+  const worktree = worktrees.get(cwd);
+  const subscriber = worktree?.subscribers.get(contentsId);
+  if (!worktree || !subscriber) return;
+
+  subscriber.count = all ? 0 : subscriber.count - 1;
+  if (subscriber.count <= 0) {
+    worktree.subscribers.delete(contentsId);
+  }
+  if (worktree.subscribers.size === 0) {
+    stopWatching(worktree);
+  }
+}
+
+function subscribe(contents: WebContents, cwd: string) {
+  const worktree = worktrees.get(cwd) || startWatching(cwd);
+  const subscriber = worktree.subscribers.get(contents.id);
+  if (subscriber) {
+    subscriber.count += 1;
+  } else {
+    worktree.subscribers.set(contents.id, { contents, count: 1 });
+  }
+
+  // Windows that join late get the current state right away
+  send(worktree, contents);
+
+  if (!trackedContents.has(contents.id)) {
+    trackedContents.add(contents.id);
+    const contentsId = contents.id;
+    contents.once('destroyed', () => {
+      trackedContents.delete(contentsId);
+      for (const watchedCwd of [...worktrees.keys()]) {
+        unsubscribe(contentsId, watchedCwd, true);
+      }
+    });
+  }
+}
+
+/**
+ * Register IPC handlers that let windows watch workspace worktrees
+ * Each worktree is watched once no matter how many windows show it, and
+ * git state is only sent when it actually changed.
+ */
+export function registerGitWatcherHandlers() {
+  ipcMain.on('git:watch', (event, { cwd }: { cwd: string }) => {
+    subscribe(event.sender, cwd);
+  });
+
+  ipcMain.on('git:unwatch', (event, { cwd }: { cwd: string }) => {
+    unsubscribe(event.sender.id, cwd);
+  });
+}
@@ -1,146 +1,118 @@
-import { app, BrowserWindow, ipcMain, dialog } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog, shell } from 'electron';
 import { autoUpdater } from 'electron-updater';
-import path from 'path';
 import fs from 'fs/promises';
-import os from 'os';
-
-let mainWindow: BrowserWindow | null = null;
-
-function createWindow() {
-  mainWindow = new BrowserWindow({
-    width: 1200,
-    height: 800,
-    webPreferences: {
-      preload: path.join(__dirname, 'preload.js'),
-      contextIsolation: true,
-      nodeIntegration: false,
-      sandbox: false,
-    },
-  });
-
-  // Load renderer
-  const isDev = process.argv.includes('--dev');
+import { registerTerminalHandlers } from './terminal';
+import { registerStoreHandlers } from './store';
+import { registerBackendHandlers } from './backend';
+import { registerGitHandlers } from './git';
+import { registerGitSyncHandlers } from './gitSync';
+import { registerGitWatcherHandlers } from './gitWatcher';
+import { registerWindowHandlers, restoreWindows } from './windows';
+import type { SaveFileOptions } from '../shared/types';
+
+// Handle directory listing requests with confirmation
+ipcMain.on('request-list-directory', (event) => {
+  const PROJECT_DIR =
+    '/Users/chencheng/Documents/Code/github.com/neovateai/neovate-code-desktop';
+  // Send confirmation request back to renderer
+  event.sender.send('confirm-list-directory', { path: PROJECT_DIR });
+});
 
-  if (isDev) {
-    mainWindow.loadURL('http://localhost:5173');
-    mainWindow.webContents.openDevTools();
+ipcMain.on('confirm-response', async (event, { confirmed }) => {
+  const PROJECT_DIR =
+    '/Users/chencheng/Documents/Code/github.com/neovateai/neovate-code-desktop';
+  let result: { success: boolean; files?: string[]; message?: string };
+
+  if (confirmed) {
+    try {
+      const files = await fs.readdir(PROJECT_DIR);
+      result = { success: true, files };
+    } catch (error) {
+      console.error('Error reading directory:', error);
+      result = { success: false, message: (error as Error).message };
+    }
   } else {
-    mainWindow.loadFile(path.join(__dirname, '../../renderer/index.html'));
+    result = { success: false, message: 'Directory listing cancelled' };
   }
 
-  // Check for updates in production
-  if (!isDev) {
-    autoUpdater.checkForUpdatesAndNotify();
-  }
+  // Send result back to renderer
+  event.sender.send('directory-result', result);
+});
 
-  mainWindow.on('closed', () => {
-    mainWindow = null;
-  });
+// Handle directory selection dialog, parented to the asking window
+ipcMain.handle('select-directory', async (event) => {
+  const window = BrowserWindow.fromWebContents(event.sender);
+  if (!window) return null;
 
-  // Handle directory listing requests with confirmation
-  ipcMain.on('request-list-directory', (event) => {
-    const PROJECT_DIR =
-      '/Users/chencheng/Documents/Code/github.com/neovateai/neovate-code-desktop';
-    // Send confirmation request back to renderer
-    event.sender.send('confirm-list-directory', { path: PROJECT_DIR });
+  const result = await dialog.showOpenDialog(window, {
+    properties: ['openDirectory'],
+    title: 'Select Repository Directory',
   });
 
-  ipcMain.on('confirm-response', async (event, { confirmed }) => {
-    const PROJECT_DIR =
-      '/Users/chencheng/Documents/Code/github.com/neovateai/neovate-code-desktop';
-    let result: { success: boolean; files?: string[]; message?: string };
-
-    if (confirmed) {
-      try {
-        const files = await fs.readdir(PROJECT_DIR);
-        result = { success: true, files };
-      } catch (error) {
-        console.error('Error reading directory:', error);
-        result = { success: false, message: (error as Error).message };
-      }
-    } else {
-      result = { success: false, message: 'Directory listing cancelled' };
-    }
+  if (result.canceled) {
+    return null;
+  }
 
-    // Send result back to renderer
-    event.sender.send('directory-result', result);
-  });
+  return result.filePaths[0] || null;
+});
 
-  // Handle directory selection dialog
-  ipcMain.handle('select-directory', async () => {
-    if (!mainWindow) return null;
+// Handle save dialogs, e.g. for exported transcripts
+ipcMain.handle('save-file', async (event, options: SaveFileOptions) => {
+  const window = BrowserWindow.fromWebContents(event.sender);
+  if (!window) return null;
 
-    const result = await dialog.showOpenDialog(mainWindow, {
-      properties: ['openDirectory'],
-      title: 'Select Repository Directory',
-    });
+  const result = await dialog.showSaveDialog(window, {
+    defaultPath: options.defaultPath,
+    filters: options.filters,
+  });
 
-    if (result.canceled) {
-      return null;
-    }
+  if (result.canceled || !result.filePath) {
+    return null;
+  }
 
-    return result.filePaths[0] || null;
-  });
-}
+  await fs.writeFile(result.filePath, options.content, 'utf-8');
+  return result.filePath;
+});
 
 // Store persistence IPC handlers
-const STORE_DIR = path.join(os.homedir(), '.neovate', 'desktop');
-const STORE_FILE = path.join(STORE_DIR, 'store.json');
-
-ipcMain.handle('store:save', async (_event, state) => {
-  try {
-    // Ensure directory exists
-    await fs.mkdir(STORE_DIR, { recursive: true });
-
-    // Write atomically: write to temp file then rename
-    const tempFile = `${STORE_FILE}.tmp`;
-    await fs.writeFile(tempFile, JSON.stringify(state, null, 2), 'utf-8');
-    await fs.rename(tempFile, STORE_FILE);
-
-    return { success: true };
-  } catch (error) {
-    const err = error as NodeJS.ErrnoException;
-    let message = 'Failed to save store';
-
-    if (err.code === 'EACCES') {
-      message = 'Permission denied saving state';
-    } else if (err.code === 'ENOSPC') {
-      message = 'Insufficient disk space';
-    } else if (err.code === 'ENOENT') {
-      message = 'Cannot create config directory';
-    }
+registerStoreHandlers();
 
-    console.error('Store save error:', err);
-    throw new Error(message);
+// Open links such as pull request URLs in the default browser
+ipcMain.handle('shell:open-external', async (_event, url: string) => {
+  if (!/^https?:\/\//.test(url)) {
+    throw new Error(`Refusing to open non-http URL: ${url}`);
   }
+  await shell.openExternal(url);
+  return { success: true };
 });
 
-ipcMain.handle('store:load', async () => {
-  try {
-    const data = await fs.readFile(STORE_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch (error) {
-    const err = error as NodeJS.ErrnoException;
+// Pseudo-terminal IPC handlers
+registerTerminalHandlers();
 
-    // File doesn't exist is not an error - just return null for fresh start
-    if (err.code === 'ENOENT') {
-      return null;
-    }
+// Embedded backend supervisor
+registerBackendHandlers();
 
-    // JSON parse error - log and return null for fresh start
-    if (error instanceof SyntaxError) {
-      console.error('Failed to parse store.json, starting fresh:', error);
-      return null;
-    }
+// Worktree status, staging and commits
+registerGitHandlers();
 
-    // Other errors - log but return null
-    console.error('Failed to load store:', error);
-    return null;
+// Filesystem watchers that push git state of open worktrees
+registerGitWatcherHandlers();
+
+// Background fetches, ahead/behind status, pull, push and rebase
+registerGitSyncHandlers();
+
+// Window management and cross-window store sync
+registerWindowHandlers();
+
+app.whenReady().then(async () => {
+  await restoreWindows();
+
+  // Check for updates in production
+  if (!process.argv.includes('--dev')) {
+    autoUpdater.checkForUpdatesAndNotify();
   }
 });
 
-app.whenReady().then(createWindow);
-
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit();
@@ -149,6 +121,6 @@ app.on('window-all-closed', () => {
 
 app.on('activate', () => {
   if (BrowserWindow.getAllWindows().length === 0) {
-    createWindow();
+    restoreWindows();
   }
 });
@@ -1,4 +1,31 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, type IpcRendererEvent } from 'electron';
+import type {
+  BackendConfig,
+  BackendLogLine,
+  BackendStatus,
+  GitFileChange,
+  GitRepoSync,
+  GitStateEvent,
+  GitSyncProgressEvent,
+  PersistedStoreFile,
+  SaveFileOptions,
+  SharedStoreState,
+  StoreLoadResult,
+  TerminalCreateOptions,
+  TerminalDataEvent,
+  TerminalExitEvent,
+} from '../shared/types';
+
+/**
+ * Read a --name=value argument passed by the window manager
+ */
+function getArgument(name: string): string | null {
+  const prefix = `--${name}=`;
+  const arg = process.argv.find((value) => value.startsWith(prefix));
+  return arg ? arg.slice(prefix.length) : null;
+}
+
+const windowId = getArgument('window-id') || 'main';
 
 // Expose safe APIs to renderer process
 contextBridge.exposeInMainWorld('electron', {
@@ -25,9 +52,136 @@ contextBridge.exposeInMainWorld('electron', {
   removeDirectoryResultListener: () =>
     ipcRenderer.removeAllListeners('directory-result'),
   // Store persistence
-  saveStore: (state: any) => ipcRenderer.invoke('store:save', state),
-  loadStore: () => ipcRenderer.invoke('store:load'),
+  saveStore: (state: PersistedStoreFile) =>
+    ipcRenderer.invoke('store:save', state),
+  loadStore: (): Promise<StoreLoadResult> => ipcRenderer.invoke('store:load'),
   // Directory selection
   selectDirectory: (): Promise<string | null> =>
     ipcRenderer.invoke('select-directory'),
+  // Save dialog
+  saveFile: (options: SaveFileOptions): Promise<string | null> =>
+    ipcRenderer.invoke('save-file', options),
+  // External links
+  openExternal: (url: string) => ipcRenderer.invoke('shell:open-external', url),
+  // Pseudo-terminals
+  terminalCreate: (options: TerminalCreateOptions) =>
+    ipcRenderer.invoke('terminal:create', options),
+  terminalWrite: (id: string, data: string) =>
+    ipcRenderer.send('terminal:write', { id, data }),
+  terminalResize: (id: string, cols: number, rows: number) =>
+    ipcRenderer.send('terminal:resize', { id, cols, rows }),
+  terminalKill: (id: string) => ipcRenderer.invoke('terminal:kill', { id }),
+  onTerminalData: (callback: (event: TerminalDataEvent) => void) => {
+    const listener = (_event: IpcRendererEvent, data: TerminalDataEvent) =>
+      callback(data);
+    ipcRenderer.on('terminal:data', listener);
+    return () => {
+      ipcRenderer.removeListener('terminal:data', listener);
+    };
+  },
+  onTerminalExit: (callback: (event: TerminalExitEvent) => void) => {
+    const listener = (_event: IpcRendererEvent, data: TerminalExitEvent) =>
+      callback(data);
+    ipcRenderer.on('terminal:exit', listener);
+    return () => {
+      ipcRenderer.removeListener('terminal:exit', listener);
+    };
+  },
+  // Embedded backend
+  backendGetStatus: (): Promise<BackendStatus> =>
+    ipcRenderer.invoke('backend:get-status'),
+  backendGetConfig: (): Promise<BackendConfig> =>
+    ipcRenderer.invoke('backend:get-config'),
+  backendSetConfig: (config: BackendConfig): Promise<BackendStatus> =>
+    ipcRenderer.invoke('backend:set-config', config),
+  backendRestart: (): Promise<BackendStatus> =>
+    ipcRenderer.invoke('backend:restart'),
+  backendGetLogs: (): Promise<BackendLogLine[]> =>
+    ipcRenderer.invoke('backend:get-logs'),
+  onBackendStatus: (callback: (status: BackendStatus) => void) => {
+    const listener = (_event: IpcRendererEvent, status: BackendStatus) =>
+      callback(status);
+    ipcRenderer.on('backend:status', listener);
+    return () => {
+      ipcRenderer.removeListener('backend:status', listener);
+    };
+  },
+  onBackendLog: (callback: (line: BackendLogLine) => void) => {
+    const listener = (_event: IpcRendererEvent, line: BackendLogLine) =>
+      callback(line);
+    ipcRenderer.on('backend:log', listener);
+    return () => {
+      ipcRenderer.removeListener('backend:log', listener);
+    };
+  },
+  // Git
+  gitStatus: (cwd: string) => ipcRenderer.invoke('git:status', { cwd }),
+  gitFileVersions: (
+    cwd: string,
+    change: Pick<GitFileChange, 'path' | 'oldPath'>,
+    staged: boolean,
+  ) => ipcRenderer.invoke('git:file-versions', { cwd, change, staged }),
+  gitStage: (cwd: string, paths: string[]) =>
+    ipcRenderer.invoke('git:stage', { cwd, paths }),
+  gitUnstage: (cwd: string, paths: string[]) =>
+    ipcRenderer.invoke('git:unstage', { cwd, paths }),
+  gitDiscard: (cwd: string, paths: string[]) =>
+    ipcRenderer.invoke('git:discard', { cwd, paths }),
+  gitApplyPatch: (
+    cwd: string,
+    patch: string,
+    options: { cached: boolean; reverse: boolean },
+  ) => ipcRenderer.invoke('git:apply-patch', { cwd, patch, ...options }),
+  gitCommit: (cwd: string, message: string) =>
+    ipcRenderer.invoke('git:commit', { cwd, message }),
+  gitWatch: (cwd: string) => ipcRenderer.send('git:watch', { cwd }),
+  gitUnwatch: (cwd: string) => ipcRenderer.send('git:unwatch', { cwd }),
+  onGitState: (callback: (event: GitStateEvent) => void) => {
+    const listener = (_event: IpcRendererEvent, data: GitStateEvent) =>
+      callback(data);
+    ipcRenderer.on('git:state', listener);
+    return () => {
+      ipcRenderer.removeListener('git:state', listener);
+    };
+  },
+  gitTrackRemotes: (repoPaths: string[]) =>
+    ipcRenderer.send('git:track-remotes', { repoPaths }),
+  gitFetch: (repoPath: string) => ipcRenderer.invoke('git:fetch', { repoPath }),
+  gitPull: (cwd: string) => ipcRenderer.invoke('git:pull', { cwd }),
+  gitPush: (cwd: string) => ipcRenderer.invoke('git:push', { cwd }),
+  gitRebase: (cwd: string, onto: string) =>
+    ipcRenderer.invoke('git:rebase', { cwd, onto }),
+  onGitSync: (callback: (sync: GitRepoSync) => void) => {
+    const listener = (_event: IpcRendererEvent, sync: GitRepoSync) =>
+      callback(sync);
+    ipcRenderer.on('git:sync', listener);
+    return () => {
+      ipcRenderer.removeListener('git:sync', listener);
+    };
+  },
+  onGitSyncProgress: (callback: (event: GitSyncProgressEvent) => void) => {
+    const listener = (_event: IpcRendererEvent, data: GitSyncProgressEvent) =>
+      callback(data);
+    ipcRenderer.on('git:sync-progress', listener);
+    return () => {
+      ipcRenderer.removeListener('git:sync-progress', listener);
+    };
+  },
+  // Windows
+  windowId,
+  initialWorkspaceId: getArgument('workspace-id'),
+  openWorkspaceWindow: (workspaceId: string) =>
+    ipcRenderer.invoke('window:open-workspace', { workspaceId }),
+  setWindowWorkspace: (workspaceId: string | null) =>
+    ipcRenderer.send('window:set-workspace', { windowId, workspaceId }),
+  broadcastSharedState: (state: SharedStoreState) =>
+    ipcRenderer.send('window:broadcast-state', state),
+  onSharedState: (callback: (state: SharedStoreState) => void) => {
+    const listener = (_event: IpcRendererEvent, state: SharedStoreState) =>
+      callback(state);
+    ipcRenderer.on('window:shared-state', listener);
+    return () => {
+      ipcRenderer.removeListener('window:shared-state', listener);
+    };
+  },
 });
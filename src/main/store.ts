@@ -0,0 +1,234 @@
+import { ipcMain } from 'electron';
+import path from 'path';
+import fs from 'fs/promises';
+import os from 'os';
+import type { PersistedStoreFile, StoreLoadResult } from '../shared/types';
+
+// Store persistence lives in ~/.neovate/desktop
+const STORE_DIR = path.join(os.homedir(), '.neovate', 'desktop');
+const STORE_FILE = path.join(STORE_DIR, 'store.json');
+const BACKUP_DIR = path.join(STORE_DIR, 'backups');
+
+// Number of good snapshots kept for recovery
+const MAX_BACKUPS = 5;
+
+// Saves are debounced to a few hundred ms, only snapshot every so often
+const BACKUP_INTERVAL_MS = 10 * 60 * 1000;
+
+const BACKUP_PREFIX = 'store-';
+
+let lastBackupAt = 0;
+
+// Only snapshot once a state was read back, a fresh or unreadable start
+// would otherwise push good backups out of the rotation
+let hasLoadedState = false;
+
+// Last state written or read, every window saves only its own UI state
+let cachedState: PersistedStoreFile | null = null;
+
+// Windows save independently, writes go one at a time so their renames of
+// the temp file cannot race
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+  const result = writeQueue.then(task);
+  writeQueue = result.catch(() => {});
+  return result;
+}
+
+/**
+ * Parse a persisted store file, returning null for anything that is not
+ * a JSON object
+ */
+function parseStoreFile(data: string): PersistedStoreFile | null {
+  const parsed = JSON.parse(data);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return null;
+  }
+  return parsed;
+}
+
+/**
+ * List backup file names, newest first
+ * Names embed a sortable timestamp so lexical order is chronological.
+ */
+async function listBackups(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(BACKUP_DIR);
+    return files
+      .filter(
+        (file) => file.startsWith(BACKUP_PREFIX) && file.endsWith('.json'),
+      )
+      .sort()
+      .reverse();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a snapshot of a known good state and drop the oldest ones
+ */
+async function rotateBackups(serialized: string) {
+  await fs.mkdir(BACKUP_DIR, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  await fs.writeFile(
+    path.join(BACKUP_DIR, `${BACKUP_PREFIX}${stamp}.json`),
+    serialized,
+    'utf-8',
+  );
+
+  const backups = await listBackups();
+  for (const file of backups.slice(MAX_BACKUPS)) {
+    await fs.rm(path.join(BACKUP_DIR, file), { force: true });
+  }
+}
+
+/**
+ * Load the newest backup that still parses
+ */
+async function loadNewestBackup(): Promise<StoreLoadResult | null> {
+  for (const file of await listBackups()) {
+    try {
+      const data = await fs.readFile(path.join(BACKUP_DIR, file), 'utf-8');
+      const state = parseStoreFile(data);
+      if (state) {
+        return { state, recoveredFrom: file, corrupted: true };
+      }
+    } catch (error) {
+      console.error(`Skipping unreadable store backup ${file}:`, error);
+    }
+  }
+  return null;
+}
+
+/**
+ * Combine a window's save with the UI state other windows saved before
+ */
+function mergeWindowState(
+  previous: PersistedStoreFile | null,
+  incoming: PersistedStoreFile,
+): PersistedStoreFile {
+  return {
+    ...incoming,
+    windows: { ...previous?.windows, ...incoming.windows },
+  };
+}
+
+/**
+ * Write the store file atomically: write to temp file then rename
+ */
+async function writeStoreFile(state: PersistedStoreFile) {
+  await fs.mkdir(STORE_DIR, { recursive: true });
+  const serialized = JSON.stringify(state, null, 2);
+  const tempFile = `${STORE_FILE}.tmp`;
+  await fs.writeFile(tempFile, serialized, 'utf-8');
+  await fs.rename(tempFile, STORE_FILE);
+  return serialized;
+}
+
+/**
+ * Drop the saved UI state of a window that was closed for good
+ */
+export function forgetWindowState(windowId: string) {
+  if (!cachedState?.windows?.[windowId]) return;
+  const { [windowId]: _closed, ...windows } = cachedState.windows;
+  const state = { ...cachedState, windows };
+  cachedState = state;
+  enqueueWrite(() => writeStoreFile(state)).catch((error) =>
+    console.error('Failed to forget window state:', error),
+  );
+}
+
+/**
+ * Register IPC handlers for saving and loading the renderer store
+ * The primary file is written atomically and periodically snapshotted,
+ * a corrupt primary file is set aside and the newest good backup is
+ * loaded instead.
+ */
+export function registerStoreHandlers() {
+  ipcMain.handle('store:save', async (_event, state) => {
+    try {
+      const merged = mergeWindowState(cachedState, state);
+      cachedState = merged;
+
+      await enqueueWrite(async () => {
+        const serialized = await writeStoreFile(merged);
+
+        if (hasLoadedState && Date.now() - lastBackupAt >= BACKUP_INTERVAL_MS) {
+          lastBackupAt = Date.now();
+          try {
+            await rotateBackups(serialized);
+          } catch (error) {
+            // The primary save succeeded, a missed snapshot is not fatal
+            console.error('Failed to rotate store backups:', error);
+          }
+        }
+      });
+
+      return { success: true };
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException;
+      let message = 'Failed to save store';
+
+      if (err.code === 'EACCES') {
+        message = 'Permission denied saving state';
+      } else if (err.code === 'ENOSPC') {
+        message = 'Insufficient disk space';
+      } else if (err.code === 'ENOENT') {
+        message = 'Cannot create config directory';
+      }
+
+      console.error('Store save error:', err);
+      throw new Error(message);
+    }
+  });
+
+  ipcMain.handle('store:load', async (): Promise<StoreLoadResult> => {
+    let data: string;
+    try {
+      data = await fs.readFile(STORE_FILE, 'utf-8');
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException;
+
+      // File doesn't exist is not an error - just return null for fresh start
+      if (err.code !== 'ENOENT') {
+        console.error('Failed to load store:', error);
+      }
+      return { state: null, recoveredFrom: null, corrupted: false };
+    }
+
+    try {
+      const state = parseStoreFile(data);
+      if (state) {
+        cachedState = state;
+        hasLoadedState = true;
+        return { state, recoveredFrom: null, corrupted: false };
+      }
+    } catch (error) {
+      console.error('Failed to parse store.json:', error);
+    }
+
+    // Keep the corrupt file around for inspection before it is overwritten
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    try {
+      await fs.copyFile(STORE_FILE, `${STORE_FILE}.corrupt-${stamp}`);
+    } catch (error) {
+      console.error('Failed to keep corrupt store.json:', error);
+    }
+
+    const recovered = await loadNewestBackup();
+    if (recovered) {
+      console.warn(`Recovered store from backup ${recovered.recoveredFrom}`);
+      cachedState = recovered.state;
+      hasLoadedState = true;
+      return recovered;
+    }
+
+    console.error('No usable store backup found, starting fresh');
+    return { state: null, recoveredFrom: null, corrupted: true };
+  });
+}
@@ -0,0 +1,137 @@
+import { app, ipcMain, type WebContents } from 'electron';
+import os from 'os';
+import * as pty from 'node-pty';
+import type {
+  TerminalCreateOptions,
+  TerminalDataEvent,
+  TerminalExitEvent,
+} from '../shared/types';
+
+interface TerminalProcess {
+  pty: pty.IPty;
+  sender: WebContents;
+}
+
+const terminals = new Map<string, TerminalProcess>();
+const trackedSenders = new WeakSet<WebContents>();
+let nextTerminalId = 1;
+
+function getDefaultShell() {
+  if (process.platform === 'win32') {
+    return process.env.COMSPEC || 'powershell.exe';
+  }
+  return process.env.SHELL || '/bin/bash';
+}
+
+function killTerminal(id: string) {
+  const terminal = terminals.get(id);
+  if (!terminal) return;
+  terminals.delete(id);
+  try {
+    terminal.pty.kill();
+  } catch (error) {
+    console.error(`Failed to kill terminal ${id}:`, error);
+  }
+}
+
+/**
+ * Kill the terminals a renderer created, its page no longer shows them
+ */
+function killSenderTerminals(sender: WebContents) {
+  for (const [id, terminal] of terminals) {
+    if (terminal.sender === sender) {
+      killTerminal(id);
+    }
+  }
+}
+
+/**
+ * Kill every running terminal, used on quit
+ */
+export function disposeAllTerminals() {
+  for (const id of [...terminals.keys()]) {
+    killTerminal(id);
+  }
+}
+
+/**
+ * Register IPC handlers for pseudo-terminals
+ * Each terminal is owned by the renderer that created it and is killed
+ * when that renderer goes away.
+ */
+export function registerTerminalHandlers() {
+  ipcMain.handle(
+    'terminal:create',
+    (event, { cwd, cols, rows }: TerminalCreateOptions) => {
+      const id = `terminal-${nextTerminalId++}`;
+      const sender = event.sender;
+
+      const ptyProcess = pty.spawn(getDefaultShell(), [], {
+        name: 'xterm-256color',
+        cwd: cwd || os.homedir(),
+        cols: cols || 80,
+        rows: rows || 24,
+        env: { ...process.env, TERM: 'xterm-256color' } as Record<
+          string,
+          string
+        >,
+      });
+
+      terminals.set(id, { pty: ptyProcess, sender });
+
+      ptyProcess.onData((data) => {
+        if (!sender.isDestroyed()) {
+          sender.send('terminal:data', { id, data } as TerminalDataEvent);
+        }
+      });
+
+      ptyProcess.onExit(({ exitCode }) => {
+        terminals.delete(id);
+        if (!sender.isDestroyed()) {
+          sender.send('terminal:exit', { id, exitCode } as TerminalExitEvent);
+        }
+      });
+
+      // Clean up terminals of a closed, reloaded or crashed renderer
+      if (!trackedSenders.has(sender)) {
+        trackedSenders.add(sender);
+        sender.once('destroyed', () => killSenderTerminals(sender));
+        sender.on('did-navigate', () => killSenderTerminals(sender));
+        sender.on('render-process-gone', () => killSenderTerminals(sender));
+      }
+
+      return { id, pid: ptyProcess.pid };
+    },
+  );
+
+  ipcMain.on(
+    'terminal:write',
+    (_event, { id, data }: { id: string; data: string }) => {
+      terminals.get(id)?.pty.write(data);
+    },
+  );
+
+  ipcMain.on(
+    'terminal:resize',
+    (
+      _event,
+      { id, cols, rows }: { id: string; cols: number; rows: number },
+    ) => {
+      const terminal = terminals.get(id);
+      if (!terminal || cols <= 0 || rows <= 0) return;
+      try {
+        terminal.pty.resize(cols, rows);
+      } catch (error) {
+        // Resizing a pty that already exited throws, nothing to do
+        console.error(`Failed to resize terminal ${id}:`, error);
+      }
+    },
+  );
+
+  ipcMain.handle('terminal:kill', (_event, { id }: { id: string }) => {
+    killTerminal(id);
+    return { success: true };
+  });
+
+  app.on('before-quit', disposeAllTerminals);
+}
@@ -0,0 +1,270 @@
+import { app, BrowserWindow, ipcMain, screen, type Rectangle } from 'electron';
+import path from 'path';
+import fs from 'fs/promises';
+import os from 'os';
+import { forgetWindowState } from './store';
+
+const LAYOUT_FILE = path.join(
+  os.homedir(),
+  '.neovate',
+  'desktop',
+  'windows.json',
+);
+
+// The first window keeps this id so single-window state carries over
+const MAIN_WINDOW_ID = 'main';
+
+const DEFAULT_WIDTH = 1200;
+const DEFAULT_HEIGHT = 800;
+
+// New windows are offset from the window that opened them
+const CASCADE_OFFSET = 32;
+
+const SAVE_LAYOUT_DELAY_MS = 500;
+
+interface WindowLayout {
+  id: string;
+  bounds: Partial<Rectangle>;
+  isMaximized: boolean;
+  workspaceId: string | null;
+}
+
+const windows = new Map<string, BrowserWindow>();
+let layouts: Record<string, WindowLayout> = {};
+let layoutsLoaded = false;
+let saveTimer: NodeJS.Timeout | null = null;
+let isQuitting = false;
+
+const isDev = process.argv.includes('--dev');
+
+async function loadLayouts(): Promise<Record<string, WindowLayout>> {
+  try {
+    const data = JSON.parse(await fs.readFile(LAYOUT_FILE, 'utf-8'));
+    return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to load window layout:', error);
+    }
+    return {};
+  }
+}
+
+function scheduleSaveLayouts() {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    saveLayouts();
+  }, SAVE_LAYOUT_DELAY_MS);
+}
+
+async function saveLayouts() {
+  try {
+    await fs.mkdir(path.dirname(LAYOUT_FILE), { recursive: true });
+    await fs.writeFile(LAYOUT_FILE, JSON.stringify(layouts, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('Failed to save window layout:', error);
+  }
+}
+
+/**
+ * Drop the position of bounds that no longer land on a connected display
+ */
+function fitToDisplays(bounds: Partial<Rectangle>): Partial<Rectangle> {
+  const { x, y, width = DEFAULT_WIDTH, height = DEFAULT_HEIGHT } = bounds;
+  if (x === undefined || y === undefined) {
+    return { width, height };
+  }
+
+  const isVisible = screen.getAllDisplays().some(({ workArea }) => {
+    return (
+      x < workArea.x + workArea.width &&
+      x + width > workArea.x &&
+      y < workArea.y + workArea.height &&
+      y + height > workArea.y
+    );
+  });
+  return isVisible ? { x, y, width, height } : { width, height };
+}
+
+function recordLayout(id: string, window: BrowserWindow) {
+  const layout = layouts[id];
+  if (!layout || window.isDestroyed()) return;
+
+  layout.isMaximized = window.isMaximized();
+  // Keep the restored size of maximized windows
+  if (!layout.isMaximized && !window.isMinimized()) {
+    layout.bounds = window.getBounds();
+  }
+  scheduleSaveLayouts();
+}
+
+/**
+ * Create a window, the renderer learns its id and initial workspace
+ * through preload
+ */
+function createWindow(
+  options: {
+    id?: string;
+    workspaceId?: string | null;
+    bounds?: Partial<Rectangle>;
+    isMaximized?: boolean;
+  } = {},
+): BrowserWindow {
+  const id =
+    options.id ||
+    (windows.has(MAIN_WINDOW_ID) ? `window-${Date.now()}` : MAIN_WINDOW_ID);
+  const workspaceId = options.workspaceId ?? null;
+
+  const window = new BrowserWindow({
+    width: DEFAULT_WIDTH,
+    height: DEFAULT_HEIGHT,
+    ...fitToDisplays(options.bounds || {}),
+    webPreferences: {
+      preload: path.join(__dirname, 'preload.js'),
+      contextIsolation: true,
+      nodeIntegration: false,
+      sandbox: false,
+      additionalArguments: [
+        `--window-id=${id}`,
+        ...(workspaceId ? [`--workspace-id=${workspaceId}`] : []),
+      ],
+    },
+  });
+
+  windows.set(id, window);
+  layouts[id] = {
+    id,
+    bounds: window.getBounds(),
+    isMaximized: !!options.isMaximized,
+    workspaceId: layouts[id]?.workspaceId ?? workspaceId,
+  };
+  scheduleSaveLayouts();
+
+  if (options.isMaximized) {
+    window.maximize();
+  }
+
+  // Load renderer
+  if (isDev) {
+    window.loadURL('http://localhost:5173');
+    window.webContents.openDevTools();
+  } else {
+    window.loadFile(path.join(__dirname, '../../renderer/index.html'));
+  }
+
+  for (const event of ['resize', 'move', 'maximize', 'unmaximize'] as const) {
+    window.on(event as 'resize', () => recordLayout(id, window));
+  }
+
+  window.on('close', () => {
+    recordLayout(id, window);
+    // Closing one of several windows forgets it, quitting or closing the
+    // last window keeps it for the next launch
+    if (!isQuitting && windows.size > 1) {
+      delete layouts[id];
+      forgetWindowState(id);
+      scheduleSaveLayouts();
+    }
+  });
+
+  window.on('closed', () => {
+    windows.delete(id);
+  });
+
+  return window;
+}
+
+/**
+ * Reopen the windows that were open when the app last quit, or the last
+ * closed window when the app is activated again on macOS
+ */
+export async function restoreWindows() {
+  if (!layoutsLoaded) {
+    layouts = await loadLayouts();
+    layoutsLoaded = true;
+  }
+
+  const saved = Object.values(layouts).filter(
+    (layout) => !windows.has(layout.id),
+  );
+  if (saved.length === 0 && windows.size === 0) {
+    createWindow();
+    return;
+  }
+
+  for (const layout of saved) {
+    createWindow({
+      id: layout.id,
+      workspaceId: layout.workspaceId,
+      bounds: layout.bounds,
+      isMaximized: layout.isMaximized,
+    });
+  }
+}
+
+/**
+ * Register IPC handlers for opening workspaces in their own window and
+ * for keeping shared store data in sync between windows
+ */
+export function registerWindowHandlers() {
+  ipcMain.handle(
+    'window:open-workspace',
+    (event, { workspaceId }: { workspaceId: string }) => {
+      // Focus the window already showing the workspace instead of a copy
+      for (const [id, window] of windows) {
+        if (layouts[id]?.workspaceId === workspaceId && !window.isDestroyed()) {
+          if (window.isMinimized()) window.restore();
+          window.focus();
+          return { success: true };
+        }
+      }
+
+      const opener = BrowserWindow.fromWebContents(event.sender);
+      const openerBounds = opener?.getBounds();
+      createWindow({
+        workspaceId,
+        bounds: openerBounds && {
+          x: openerBounds.x + CASCADE_OFFSET,
+          y: openerBounds.y + CASCADE_OFFSET,
+          width: openerBounds.width,
+          height: openerBounds.height,
+        },
+      });
+      return { success: true };
+    },
+  );
+
+  ipcMain.on(
+    'window:set-workspace',
+    (
+      _event,
+      {
+        windowId,
+        workspaceId,
+      }: { windowId: string; workspaceId: string | null },
+    ) => {
+      const layout = layouts[windowId];
+      if (!layout || layout.workspaceId === workspaceId) return;
+      layout.workspaceId = workspaceId;
+      scheduleSaveLayouts();
+    },
+  );
+
+  // Forward shared entity changes to every other window
+  ipcMain.on('window:broadcast-state', (event, state) => {
+    for (const window of windows.values()) {
+      if (!window.isDestroyed() && window.webContents !== event.sender) {
+        window.webContents.send('window:shared-state', state);
+      }
+    }
+  });
+
+  app.on('before-quit', () => {
+    isQuitting = true;
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+    saveLayouts();
+  });
+}
@@ -1,14 +1,21 @@
 import { useEffect } from 'react';
 import { useStore } from './store';
-import { MainLayout } from './components';
-import { useStoreConnection } from './hooks';
-import { Spinner } from './components/ui';
+import { MainLayout, SearchPalette } from './components';
+import { useGitWatcher, useRemoteSync, useStoreConnection } from './hooks';
+import { Button, Spinner } from './components/ui';
 import { SettingsPage } from './components/settings';
+import { describeEndpoint } from './components/ConnectionStatus';
 
 function App() {
   // Establish WebSocket connection on mount
   const connectionState = useStoreConnection();
 
+  // Keep git state of visible workspaces in sync with their worktrees
+  useGitWatcher();
+
+  // Fetch added repos in the background for ahead/behind status
+  useRemoteSync();
+
   // Get state and actions from the store
   const {
     repos,
@@ -20,6 +27,12 @@ function App() {
     showSettings,
     getGlobalConfigValue,
     globalConfig,
+    initialized,
+    activeEndpoint,
+    backendStatus,
+    connectionHealth,
+    reconnect,
+    setShowSettings,
   } = useStore();
 
   // Get theme from config (default to 'system')
@@ -51,23 +64,37 @@ function App() {
     ? workspaces[selectedWorkspaceId]
     : null;
 
-  // Mock function to execute a command
-  const handleExecuteCommand = async (command: string) => {
-    // In a real implementation, this would send the command via WebSocket
-    console.log(`Executing command: ${command}`);
-    // For now, we'll just simulate the execution
-    return Promise.resolve();
-  };
-
-  // Show loading UI while connecting
-  if (connectionState !== 'connected') {
+  // Show loading UI until the first connection, later drops are shown
+  // in the sidebar so the workspace stays on screen
+  if (!initialized && !showSettings) {
     return (
       <div className="h-screen flex flex-col items-center justify-center bg-background">
         <div className="flex flex-col items-center gap-4">
           <Spinner className="h-8 w-8" />
           <p className="text-muted-foreground text-sm">
-            Connecting to server...
+            {connectionState === 'connected'
+              ? 'Loading...'
+              : `Connecting to ${describeEndpoint(activeEndpoint, backendStatus)}...`}
           </p>
+          {connectionHealth.lastError && (
+            <p className="text-destructive text-xs">
+              {connectionHealth.lastError}
+            </p>
+          )}
+          {connectionState !== 'connected' && (
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => reconnect()}>
+                Retry now
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowSettings(true)}
+              >
+                Settings
+              </Button>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -91,8 +118,8 @@ function App() {
         selectedWorkspace={selectedWorkspace}
         onSelectRepo={selectRepo}
         onSelectWorkspace={selectWorkspace}
-        onExecuteCommand={handleExecuteCommand}
       />
+      <SearchPalette />
     </div>
   );
 }
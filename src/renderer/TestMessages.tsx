@@ -1,5 +1,6 @@
 // @ts-nocheck
 import { Message } from './components/messages/Message';
+import { buildToolResultIndex } from './components/messages/messageHelpers';
 import type { NormalizedMessage } from './client/types/message';
 
 // Helper to generate UUIDs
@@ -1199,6 +1200,8 @@ Your project is now ready for development! Run \`npm run dev\` to start the deve
 export function TestMessages() {
   const pingPongMessages = createPingPongMessages();
   const comprehensiveMessages = createComprehensiveMessages();
+  const pingPongResults = buildToolResultIndex(pingPongMessages);
+  const comprehensiveResults = buildToolResultIndex(comprehensiveMessages);
 
   return (
     <div
@@ -1237,7 +1240,7 @@ export function TestMessages() {
           <Message
             key={`ping-${idx}`}
             message={msg}
-            allMessages={pingPongMessages}
+            toolResults={pingPongResults}
           />
         ))}
 
@@ -1246,7 +1249,7 @@ export function TestMessages() {
           <Message
             key={`comp-${idx}`}
             message={msg}
-            allMessages={comprehensiveMessages}
+            toolResults={comprehensiveResults}
           />
         ))}
       </div>
@@ -1,4 +1,8 @@
+export { BridgeError } from './messaging/BridgeError';
+export type { BridgeErrorCode } from './messaging/BridgeError';
 export { MessageBus } from './messaging/MessageBus';
+export { RequestLog } from './messaging/RequestLog';
+export type { RequestLogEntry } from './messaging/RequestLog';
 export type * from './messaging/types';
 export type {
   BusMessage,
@@ -7,12 +11,14 @@ export type {
   MessageHandler,
   PendingRequest,
   RequestMessage,
+  RequestOptions,
   ResponseMessage,
 } from './messaging/types';
 export type * from './transport/types';
 export type {
   CloseHandler,
   ErrorHandler,
+  OpenHandler,
   TransportConfig,
   TransportHandler,
   TransportMessage,
@@ -0,0 +1,40 @@
+/**
+ * Codes set by the client, the backend may send any other string
+ */
+export type BridgeErrorCode =
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'CANCELLED'
+  | 'NOT_CONNECTED'
+  | 'SEND_FAILED'
+  | 'REMOTE_ERROR'
+  | (string & {});
+
+/**
+ * Error from a message bus request
+ * Keeps the method that failed and the original error payload so callers
+ * can tell a timeout from a backend failure without parsing messages.
+ */
+export class BridgeError extends Error {
+  readonly code: BridgeErrorCode;
+  readonly method: string;
+  readonly payload: unknown;
+
+  constructor(
+    message: string,
+    options: { code: BridgeErrorCode; method: string; payload?: unknown },
+  ) {
+    super(message);
+    this.name = 'BridgeError';
+    this.code = options.code;
+    this.method = options.method;
+    this.payload = options.payload;
+  }
+
+  static is(error: unknown, code?: BridgeErrorCode): error is BridgeError {
+    return (
+      error instanceof BridgeError &&
+      (code === undefined || error.code === code)
+    );
+  }
+}
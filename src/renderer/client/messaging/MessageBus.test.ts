@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MessageBus } from './MessageBus';
+import { BridgeError } from './BridgeError';
+import { RequestLog } from './RequestLog';
+import type { TransportMessage } from '../transport/types';
+import type { WebSocketTransport } from '../transport/WebSocketTransport';
+
+function createTransport() {
+  let onMessage: ((message: TransportMessage) => void) | null = null;
+  const sent: TransportMessage[] = [];
+  const transport = {
+    isConnected: () => true,
+    onMessage: (handler: (message: TransportMessage) => void) => {
+      onMessage = handler;
+    },
+    send: async (message: TransportMessage) => {
+      sent.push(message);
+    },
+  };
+  return {
+    transport: transport as unknown as WebSocketTransport,
+    sent,
+    receive: (message: TransportMessage) => onMessage?.(message),
+  };
+}
+
+describe('MessageBus', () => {
+  let bus: MessageBus;
+  let fake: ReturnType<typeof createTransport>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    bus = new MessageBus();
+    fake = createTransport();
+    bus.setTransport(fake.transport);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reject with a TIMEOUT error when no response arrives', async () => {
+    const promise = bus.request('config.get', {}, { timeout: 1000 });
+    vi.advanceTimersByTime(1000);
+
+    await expect(promise).rejects.toMatchObject({
+      code: 'TIMEOUT',
+      method: 'config.get',
+    });
+    expect(bus.getPendingRequestsCount()).toBe(0);
+  });
+
+  it('should reject with an ABORTED error when the signal aborts', async () => {
+    const controller = new AbortController();
+    const promise = bus.request(
+      'config.get',
+      {},
+      { signal: controller.signal },
+    );
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(bus.getPendingRequestsCount()).toBe(0);
+  });
+
+  it('should keep the code and payload of backend errors', async () => {
+    const promise = bus.request('config.get', {});
+    const { id } = fake.sent[0] as { id: string };
+    const error = { message: 'Not found', code: 'ENOENT', path: '/x' };
+    fake.receive({ type: 'response', id, error, timestamp: Date.now() });
+
+    const rejection = await promise.catch((e: BridgeError) => e);
+    expect(BridgeError.is(rejection, 'ENOENT')).toBe(true);
+    expect((rejection as BridgeError).message).toBe('Not found');
+    expect((rejection as BridgeError).payload).toEqual(error);
+  });
+
+  it('should record settled requests in the request log', async () => {
+    const requestLog = new RequestLog();
+    bus.setRequestLog(requestLog);
+
+    const promise = bus.request('config.get', { key: 'a' });
+    expect(requestLog.getEntries()[0].status).toBe('pending');
+
+    const { id } = fake.sent[0] as { id: string };
+    fake.receive({ type: 'response', id, result: 1, timestamp: Date.now() });
+    await expect(promise).resolves.toBe(1);
+
+    const [entry] = requestLog.getEntries();
+    expect(entry.status).toBe('success');
+    expect(entry.finishedAt).not.toBeNull();
+  });
+});
@@ -1,19 +1,26 @@
 import type { TransportMessage } from '../transport/types';
 import type { WebSocketTransport } from '../transport/WebSocketTransport';
+import { BridgeError } from './BridgeError';
+import type { RequestLog } from './RequestLog';
 import type {
   EventHandler,
   EventMessage,
   MessageHandler,
   PendingRequest,
   RequestMessage,
+  RequestOptions,
   ResponseMessage,
 } from './types';
 
+// Used when a request does not set its own timeout
+const DEFAULT_TIMEOUT = 30000;
+
 export class MessageBus {
   private transport: WebSocketTransport | null = null;
   private pendingRequests = new Map<string, PendingRequest>();
   private messageHandlers = new Map<string, MessageHandler>();
   private eventHandlers = new Map<string, EventHandler[]>();
+  private requestLog: RequestLog | null = null;
 
   setTransport(transport: WebSocketTransport): void {
     this.transport = transport;
@@ -22,6 +29,13 @@ export class MessageBus {
     });
   }
 
+  /**
+   * Record requests in a log, used by the dev inspector
+   */
+  setRequestLog(requestLog: RequestLog | null): void {
+    this.requestLog = requestLog;
+  }
+
   generateId(): string {
     return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -29,9 +43,23 @@ export class MessageBus {
   async request<T = unknown, R = unknown>(
     method: string,
     params: T,
+    options: RequestOptions = {},
   ): Promise<R> {
+    const { timeout = DEFAULT_TIMEOUT, signal } = options;
+
     if (!this.transport || !this.transport.isConnected()) {
-      throw new Error('Transport is not connected');
+      throw new BridgeError('Transport is not connected', {
+        code: 'NOT_CONNECTED',
+        method,
+      });
+    }
+
+    if (signal?.aborted) {
+      throw new BridgeError(`Request ${method} was aborted`, {
+        code: 'ABORTED',
+        method,
+        payload: signal.reason,
+      });
     }
 
     const id = this.generateId();
@@ -43,19 +71,73 @@ export class MessageBus {
       timestamp: Date.now(),
     };
 
+    this.requestLog?.start(id, method, params);
+
     return new Promise<R>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      // The backend has no cancel message, a late response is dropped
+      // because the request is no longer pending
+      const onAbort = () => {
+        this.rejectPending(
+          id,
+          new BridgeError(`Request ${method} was aborted`, {
+            code: 'ABORTED',
+            method,
+            payload: signal?.reason,
+          }),
+        );
+      };
+
+      if (timeout > 0) {
+        timer = setTimeout(() => {
+          this.rejectPending(
+            id,
+            new BridgeError(`Request ${method} timed out after ${timeout}ms`, {
+              code: 'TIMEOUT',
+              method,
+            }),
+          );
+        }, timeout);
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       this.pendingRequests.set(id, {
+        method,
         resolve: resolve as (value: unknown) => void,
         reject,
+        cleanup: () => {
+          if (timer) clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        },
       });
 
       this.transport?.send(message as TransportMessage).catch((error) => {
-        this.pendingRequests.delete(id);
-        reject(error);
+        this.rejectPending(
+          id,
+          new BridgeError(error?.message || `Failed to send ${method}`, {
+            code: 'SEND_FAILED',
+            method,
+            payload: error,
+          }),
+        );
       });
     });
   }
 
+  /**
+   * Settle a pending request with an error, ignoring ones already settled
+   */
+  private rejectPending(id: string, error: BridgeError): void {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) return;
+
+    this.pendingRequests.delete(id);
+    pending.cleanup();
+    this.requestLog?.settle(id, error);
+    pending.reject(error);
+  }
+
   private handleIncomingMessage(message: TransportMessage): void {
     switch (message.type) {
       case 'response':
@@ -72,17 +154,24 @@ export class MessageBus {
 
   private handleResponse(message: ResponseMessage): void {
     const pending = this.pendingRequests.get(message.id);
-    if (pending) {
-      this.pendingRequests.delete(message.id);
+    if (!pending) return;
 
-      if (message.error) {
-        pending.reject(
-          new Error(message.error.message || String(message.error)),
-        );
-      } else {
-        pending.resolve(message.result);
-      }
+    if (message.error) {
+      this.rejectPending(
+        message.id,
+        new BridgeError(message.error.message || String(message.error), {
+          code: message.error.code || 'REMOTE_ERROR',
+          method: pending.method,
+          payload: message.error,
+        }),
+      );
+      return;
     }
+
+    this.pendingRequests.delete(message.id);
+    pending.cleanup();
+    this.requestLog?.settle(message.id);
+    pending.resolve(message.result);
   }
 
   private handleEvent(message: EventMessage): void {
@@ -153,10 +242,15 @@ export class MessageBus {
   }
 
   cancelPendingRequests(): void {
-    this.pendingRequests.forEach((pending) => {
-      pending.reject(new Error('Request cancelled'));
-    });
-    this.pendingRequests.clear();
+    for (const [id, pending] of [...this.pendingRequests]) {
+      this.rejectPending(
+        id,
+        new BridgeError('Request cancelled', {
+          code: 'CANCELLED',
+          method: pending.method,
+        }),
+      );
+    }
   }
 
   isTransportConnected(): boolean {
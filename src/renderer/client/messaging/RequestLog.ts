@@ -0,0 +1,91 @@
+import type { BridgeError } from './BridgeError';
+
+export interface RequestLogEntry {
+  id: string;
+  method: string;
+  params: unknown;
+  startedAt: number;
+  finishedAt: number | null;
+  status: 'pending' | 'success' | 'error';
+  error: BridgeError | null;
+}
+
+type RequestLogListener = () => void;
+
+// Settled requests kept for inspection
+const MAX_SETTLED_ENTRIES = 200;
+
+/**
+ * Record of in-flight and recent message bus requests
+ * Entries are replaced rather than mutated so the list can back
+ * useSyncExternalStore directly.
+ */
+export class RequestLog {
+  private entries: RequestLogEntry[] = [];
+  private listeners = new Set<RequestLogListener>();
+
+  start(id: string, method: string, params: unknown): void {
+    this.entries = [
+      ...this.entries,
+      {
+        id,
+        method,
+        params,
+        startedAt: Date.now(),
+        finishedAt: null,
+        status: 'pending',
+        error: null,
+      },
+    ];
+    this.trim();
+    this.notify();
+  }
+
+  settle(id: string, error?: BridgeError): void {
+    this.entries = this.entries.map((entry) =>
+      entry.id === id
+        ? {
+            ...entry,
+            finishedAt: Date.now(),
+            status: error ? 'error' : 'success',
+            error: error || null,
+          }
+        : entry,
+    );
+    this.trim();
+    this.notify();
+  }
+
+  clear(): void {
+    // In-flight requests stay visible until they settle
+    this.entries = this.entries.filter((entry) => entry.status === 'pending');
+    this.notify();
+  }
+
+  getEntries = (): RequestLogEntry[] => {
+    return this.entries;
+  };
+
+  subscribe = (listener: RequestLogListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private trim(): void {
+    const settled = this.entries.filter((entry) => entry.status !== 'pending');
+    if (settled.length <= MAX_SETTLED_ENTRIES) return;
+
+    const dropped = new Set(
+      settled.slice(0, settled.length - MAX_SETTLED_ENTRIES),
+    );
+    this.entries = this.entries.filter((entry) => !dropped.has(entry));
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
@@ -1,6 +1,15 @@
 export interface PendingRequest {
+  method: string;
   resolve: (value: unknown) => void;
   reject: (error: Error) => void;
+  // Clears the timeout and abort listener once the request settles
+  cleanup: () => void;
+}
+
+export interface RequestOptions {
+  // Milliseconds before the request fails with TIMEOUT, 0 waits forever
+  timeout?: number;
+  signal?: AbortSignal;
 }
 
 export type EventHandler<T = unknown> = (data: T) => void;
@@ -21,7 +30,7 @@ export interface ResponseMessage {
   type: 'response';
   id: string;
   result?: unknown;
-  error?: { message: string };
+  error?: { message: string; code?: string; [key: string]: unknown };
   timestamp: number;
 }
 
@@ -1,6 +1,7 @@
 import type {
   CloseHandler,
   ErrorHandler,
+  OpenHandler,
   TransportConfig,
   TransportHandler,
   TransportMessage,
@@ -14,10 +15,13 @@ export class WebSocketTransport {
   private messageHandlers: TransportHandler[] = [];
   private errorHandlers: ErrorHandler[] = [];
   private closeHandlers: CloseHandler[] = [];
+  private openHandlers: OpenHandler[] = [];
   private messageBuffer: TransportMessage[] = [];
   private reconnectInterval: number;
   private maxReconnectInterval: number;
   private shouldReconnect: boolean;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(config: TransportConfig) {
     this.url = config.url;
@@ -35,7 +39,9 @@ export class WebSocketTransport {
         this.ws.onopen = () => {
           this.state = 'connected';
           this.reconnectInterval = 1000;
+          this.reconnectAttempts = 0;
           this.flushBuffer();
+          this.openHandlers.map((handler) => handler());
           resolve();
         };
 
@@ -55,16 +61,20 @@ export class WebSocketTransport {
 
         this.ws.onerror = (_event) => {
           this.state = 'error';
-          const error = new Error('WebSocket error');
+          const error = new Error(`WebSocket error connecting to ${this.url}`);
           this.errorHandlers.map((handler) => handler(error));
         };
 
         this.ws.onclose = () => {
           this.state = 'disconnected';
+          if (this.shouldReconnect) {
+            this.reconnectAttempts++;
+          }
           this.closeHandlers.map((handler) => handler());
 
           if (this.shouldReconnect) {
-            setTimeout(() => {
+            this.reconnectTimer = setTimeout(() => {
+              this.reconnectTimer = null;
               this.connect().catch(console.error);
               this.reconnectInterval = Math.min(
                 this.reconnectInterval * 2,
@@ -109,6 +119,13 @@ export class WebSocketTransport {
     this.closeHandlers.push(handler);
   }
 
+  /**
+   * Called on every successful open, including automatic reconnects
+   */
+  onOpen(handler: OpenHandler): void {
+    this.openHandlers.push(handler);
+  }
+
   async send(message: TransportMessage): Promise<void> {
     if (this.isConnected()) {
       this.ws?.send(JSON.stringify(message));
@@ -120,6 +137,10 @@ export class WebSocketTransport {
 
   async close(): Promise<void> {
     this.shouldReconnect = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     if (this.ws) {
       this.ws.close();
       this.ws = null;
@@ -135,9 +156,16 @@ export class WebSocketTransport {
     return this.url;
   }
 
+  /**
+   * Reconnects attempted since the connection was last open
+   */
+  getReconnectAttempts(): number {
+    return this.reconnectAttempts;
+  }
+
   removeHandler(
-    type: 'message' | 'error' | 'close',
-    handler: TransportHandler | ErrorHandler | CloseHandler,
+    type: 'message' | 'error' | 'close' | 'open',
+    handler: TransportHandler | ErrorHandler | CloseHandler | OpenHandler,
   ): void {
     switch (type) {
       case 'message':
@@ -151,6 +179,9 @@ export class WebSocketTransport {
       case 'close':
         this.closeHandlers = this.closeHandlers.filter((h) => h !== handler);
         break;
+      case 'open':
+        this.openHandlers = this.openHandlers.filter((h) => h !== handler);
+        break;
     }
   }
 }
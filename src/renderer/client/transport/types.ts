@@ -23,6 +23,8 @@ export type ErrorHandler = (error: Error) => void;
 
 export type CloseHandler = () => void;
 
+export type OpenHandler = () => void;
+
 export interface TransportConfig {
   url: string;
   reconnectInterval?: number;
@@ -27,6 +27,11 @@ export interface WorkspaceData {
     createdAt: number;
     description: string;
     status: 'active' | 'archived' | 'stale';
+    // Pull request opened from this workspace, if any
+    pullRequest?: {
+      number: number;
+      url: string;
+    };
   };
   context: {
     activeFiles: string[];
@@ -0,0 +1,201 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { HugeiconsIcon } from '@hugeicons/react';
+import {
+  Bug01Icon,
+  Cancel01Icon,
+  Delete02Icon,
+} from '@hugeicons/core-free-icons';
+import type {
+  RequestLog,
+  RequestLogEntry,
+} from '../client/messaging/RequestLog';
+
+// Refresh rate of the elapsed time shown for in-flight requests
+const TICK_INTERVAL = 250;
+
+const STATUS_COLORS: Record<RequestLogEntry['status'], string> = {
+  pending: '#f59e0b',
+  success: '#10b981',
+  error: '#ef4444',
+};
+
+function formatDuration(ms: number) {
+  if (ms >= 1000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  return `${ms}ms`;
+}
+
+function stringify(value: unknown) {
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Whether the key event is the inspector shortcut, Cmd/Ctrl+Alt+R
+ */
+function isToggleShortcut(e: KeyboardEvent) {
+  return (e.metaKey || e.ctrlKey) && e.altKey && e.code === 'KeyR';
+}
+
+/**
+ * BridgeInspector component
+ * Development panel listing in-flight and recent backend requests with
+ * their timings, toggled with Cmd/Ctrl+Alt+R
+ */
+export function BridgeInspector({ requestLog }: { requestLog: RequestLog }) {
+  const entries = useSyncExternalStore(
+    requestLog.subscribe,
+    requestLog.getEntries,
+  );
+  const [open, setOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isToggleShortcut(e)) {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const pendingCount = entries.filter(
+    (entry) => entry.status === 'pending',
+  ).length;
+
+  // Only tick while something is in flight
+  useEffect(() => {
+    if (!open || pendingCount === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), TICK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [open, pendingCount]);
+
+  if (!open) {
+    return null;
+  }
+
+  const ordered = [...entries].reverse();
+
+  return (
+    <div
+      className="fixed bottom-4 right-4 z-50 flex flex-col w-[520px] h-[420px] rounded-lg shadow-lg text-xs"
+      style={{
+        backgroundColor: 'var(--bg-primary)',
+        border: '1px solid var(--border-subtle)',
+      }}
+    >
+      <div
+        className="flex items-center gap-2 px-3 py-2"
+        style={{ borderBottom: '1px solid var(--border-subtle)' }}
+      >
+        <HugeiconsIcon
+          icon={Bug01Icon}
+          size={14}
+          style={{ color: 'var(--text-secondary)' }}
+        />
+        <span className="font-medium" style={{ color: 'var(--text-primary)' }}>
+          Bridge requests
+        </span>
+        <span style={{ color: 'var(--text-tertiary)' }}>
+          {pendingCount} in flight, {entries.length - pendingCount} recent
+        </span>
+        <button
+          type="button"
+          className="ml-auto p-1 rounded hover:bg-black/5 dark:hover:bg-white/5"
+          style={{ color: 'var(--text-secondary)' }}
+          onClick={() => requestLog.clear()}
+          title="Clear settled requests"
+        >
+          <HugeiconsIcon icon={Delete02Icon} size={14} />
+        </button>
+        <button
+          type="button"
+          className="p-1 rounded hover:bg-black/5 dark:hover:bg-white/5"
+          style={{ color: 'var(--text-secondary)' }}
+          onClick={() => setOpen(false)}
+          title="Close"
+        >
+          <HugeiconsIcon icon={Cancel01Icon} size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto font-mono">
+        {ordered.length === 0 ? (
+          <div className="p-3" style={{ color: 'var(--text-tertiary)' }}>
+            No requests yet
+          </div>
+        ) : (
+          ordered.map((entry) => {
+            const isExpanded = expandedId === entry.id;
+            const duration = (entry.finishedAt ?? now) - entry.startedAt;
+            return (
+              <div
+                key={entry.id}
+                style={{ borderBottom: '1px solid var(--border-subtle)' }}
+              >
+                <button
+                  type="button"
+                  className="w-full flex items-center gap-2 px-3 py-1.5 text-left hover:bg-black/5 dark:hover:bg-white/5"
+                  onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                >
+                  <span
+                    className="h-2 w-2 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: STATUS_COLORS[entry.status] }}
+                  />
+                  <span
+                    className="truncate"
+                    style={{ color: 'var(--text-primary)' }}
+                  >
+                    {entry.method}
+                  </span>
+                  {entry.error && (
+                    <span style={{ color: STATUS_COLORS.error }}>
+                      {entry.error.code}
+                    </span>
+                  )}
+                  <span
+                    className="ml-auto flex-shrink-0"
+                    style={{ color: 'var(--text-tertiary)' }}
+                  >
+                    {new Date(entry.startedAt).toLocaleTimeString()}
+                  </span>
+                  <span
+                    className="w-14 text-right flex-shrink-0"
+                    style={{ color: 'var(--text-secondary)' }}
+                  >
+                    {formatDuration(duration)}
+                  </span>
+                </button>
+                {isExpanded && (
+                  <div className="px-3 pb-2 flex flex-col gap-1">
+                    {entry.error && (
+                      <div style={{ color: STATUS_COLORS.error }}>
+                        {entry.error.message}
+                      </div>
+                    )}
+                    <pre
+                      className="max-h-40 overflow-auto whitespace-pre-wrap break-all p-2 rounded"
+                      style={{
+                        backgroundColor: 'var(--bg-surface)',
+                        color: 'var(--text-secondary)',
+                      }}
+                    >
+                      {stringify(entry.params)}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
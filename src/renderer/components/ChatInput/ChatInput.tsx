@@ -16,10 +16,14 @@ import {
   BrainIcon,
   ComputerTerminal01Icon,
   NoteIcon,
+  SecurityCheckIcon,
 } from '@hugeicons/core-free-icons';
+import { useStore } from '../../store';
+import type { ApprovalMode } from '../../client/types/chat';
 import { useInputHandlers } from '../../hooks/useInputHandlers';
 import { SuggestionDropdown } from './SuggestionDropdown';
 import { ImagePreview } from './ImagePreview';
+import { ContextUsageMeter } from './ContextUsageMeter';
 import { Textarea, Tooltip, TooltipTrigger, TooltipPopup, Button } from '../ui';
 import type { SlashCommand } from '../../hooks/useSlashCommands';
 import type {
@@ -65,6 +69,14 @@ interface ChatInputProps {
   ) => Promise<HandlerOutput<K>>;
 }
 
+// Approval modes in order of increasing autonomy
+const APPROVAL_MODES: { value: ApprovalMode; label: string; color: string }[] =
+  [
+    { value: 'default', label: 'Default', color: 'var(--text-secondary)' },
+    { value: 'autoEdit', label: 'Auto edit', color: '#d97706' },
+    { value: 'yolo', label: 'Yolo', color: '#dc2626' },
+  ];
+
 // Default implementations
 const defaultFetchPaths = async () => [];
 const defaultFetchCommands = async () => [];
@@ -128,7 +140,22 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(
       isProcessing,
     });
 
-    const { planMode, thinking, togglePlanMode, toggleThinking } = inputState;
+    const {
+      planMode,
+      thinking,
+      togglePlanMode,
+      toggleThinking,
+      memoryScope,
+      toggleMemoryScope,
+    } = inputState;
+
+    // Live approval mode for the session
+    const approvalMode = useStore((state) =>
+      sessionId ? state.approvalModeBySession[sessionId] : undefined,
+    );
+    const setApprovalMode = useStore((state) => state.setApprovalMode);
+    const approvalModeInfo =
+      APPROVAL_MODES.find((m) => m.value === approvalMode) || APPROVAL_MODES[0];
 
     // State for session config model (fetched from session)
     const [sessionConfigModel, setSessionConfigModel] = useState<string | null>(
@@ -451,6 +478,40 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(
               >
                 {modeInfo.label} Mode
               </span>
+              {mode === 'memory' && (
+                <div
+                  className="flex gap-0.5 p-0.5 rounded"
+                  style={{ backgroundColor: 'var(--bg-surface)' }}
+                >
+                  {(['project', 'global'] as const).map((scope) => (
+                    <button
+                      key={scope}
+                      type="button"
+                      onClick={() => {
+                        if (scope !== memoryScope) toggleMemoryScope();
+                      }}
+                      className="px-1.5 py-0.5 rounded text-xs capitalize transition-colors"
+                      style={{
+                        backgroundColor:
+                          scope === memoryScope
+                            ? `${modeInfo.color}20`
+                            : 'transparent',
+                        color:
+                          scope === memoryScope
+                            ? modeInfo.color
+                            : 'var(--text-secondary)',
+                      }}
+                      title={
+                        scope === 'project'
+                          ? 'Save to AGENTS.md in this workspace'
+                          : 'Save to your global AGENTS.md'
+                      }
+                    >
+                      {scope}
+                    </button>
+                  ))}
+                </div>
+              )}
               <span
                 className="text-xs"
                 style={{ color: 'var(--text-tertiary)' }}
@@ -636,27 +697,58 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(
                   </TooltipPopup>
                 </Tooltip>
               )}
-            </div>
 
-            {/* Right side - Send button */}
-            <Tooltip>
-              <TooltipTrigger
-                render={
-                  <Button
-                    type="button"
-                    size="icon-sm"
-                    variant={canSend ? 'default' : 'ghost'}
-                    onClick={handleSendClick}
-                    disabled={!canSend || (disabled && !isProcessing)}
+              {/* Approval Mode Selector - only show once the live mode is known */}
+              {sessionId && approvalMode && (
+                <div
+                  className="flex items-center gap-1 px-1"
+                  style={{ color: approvalModeInfo.color }}
+                >
+                  <HugeiconsIcon icon={SecurityCheckIcon} size={14} />
+                  <select
+                    value={approvalMode}
+                    onChange={(e) => {
+                      setApprovalMode(
+                        sessionId,
+                        e.target.value as ApprovalMode,
+                      );
+                    }}
+                    className="text-xs font-medium bg-transparent border-0 outline-none cursor-pointer hover:bg-black/5 dark:hover:bg-white/5 rounded px-1 py-0.5"
+                    style={{ color: approvalModeInfo.color }}
+                    title="Tool approval mode"
                   >
-                    <HugeiconsIcon icon={SentIcon} size={18} />
-                  </Button>
-                }
-              />
-              <TooltipPopup>
-                {canSend ? 'Send message (Enter)' : 'Type a message to send'}
-              </TooltipPopup>
-            </Tooltip>
+                    {APPROVAL_MODES.map((m) => (
+                      <option key={m.value} value={m.value}>
+                        {m.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            {/* Right side - Context usage and send button */}
+            <div className="flex items-center gap-1">
+              {sessionId && <ContextUsageMeter sessionId={sessionId} />}
+              <Tooltip>
+                <TooltipTrigger
+                  render={
+                    <Button
+                      type="button"
+                      size="icon-sm"
+                      variant={canSend ? 'default' : 'ghost'}
+                      onClick={handleSendClick}
+                      disabled={!canSend || (disabled && !isProcessing)}
+                    >
+                      <HugeiconsIcon icon={SentIcon} size={18} />
+                    </Button>
+                  }
+                />
+                <TooltipPopup>
+                  {canSend ? 'Send message (Enter)' : 'Type a message to send'}
+                </TooltipPopup>
+              </Tooltip>
+            </div>
           </div>
         </div>
 
@@ -0,0 +1,141 @@
+import { useEffect } from 'react';
+import { useStore, type ContextUsage } from '../../store';
+import { Popover, PopoverTrigger, PopoverPopup } from '../ui';
+
+// Categories in the order they fill the context window
+const CATEGORIES: {
+  key: Exclude<keyof ContextUsage, 'totalContextWindow' | 'freeSpace'>;
+  label: string;
+  color: string;
+}[] = [
+  { key: 'systemPrompt', label: 'System prompt', color: '#6366f1' },
+  { key: 'systemTools', label: 'System tools', color: '#0ea5e9' },
+  { key: 'mcpTools', label: 'MCP tools', color: '#14b8a6' },
+  { key: 'messages', label: 'Messages', color: '#8b5cf6' },
+];
+
+// Free space thresholds (percent) for the warning colors
+const WARNING_FREE_PERCENT = 20;
+const CRITICAL_FREE_PERCENT = 10;
+
+function getLevelColor(freePercentage: number) {
+  if (freePercentage <= CRITICAL_FREE_PERCENT) return '#dc2626';
+  if (freePercentage <= WARNING_FREE_PERCENT) return '#d97706';
+  return 'var(--text-secondary)';
+}
+
+function formatTokens(tokens: number) {
+  if (tokens >= 1000) {
+    return `${(tokens / 1000).toFixed(1)}k`;
+  }
+  return `${tokens}`;
+}
+
+interface ContextUsageMeterProps {
+  sessionId: string;
+}
+
+/**
+ * ContextUsageMeter component
+ * Stacked bar of the session's context window usage with a breakdown popover
+ */
+export function ContextUsageMeter({ sessionId }: ContextUsageMeterProps) {
+  const usage = useStore((state) => state.contextUsageBySession[sessionId]);
+  const fetchContextUsage = useStore((state) => state.fetchContextUsage);
+
+  // Load the initial usage, later updates come with each streamResult
+  useEffect(() => {
+    if (!usage) {
+      fetchContextUsage(sessionId);
+    }
+  }, [sessionId, usage, fetchContextUsage]);
+
+  if (!usage || usage.totalContextWindow <= 0) {
+    return null;
+  }
+
+  const freePercentage = usage.freeSpace.percentage;
+  const usedPercentage = Math.max(0, 100 - freePercentage);
+  const levelColor = getLevelColor(freePercentage);
+
+  return (
+    <Popover>
+      <PopoverTrigger
+        render={
+          <button
+            type="button"
+            className="flex items-center gap-1.5 px-2 py-1 rounded text-xs transition-colors hover:bg-black/5 dark:hover:bg-white/5"
+            style={{ color: levelColor }}
+            title="Context window usage"
+          >
+            <div
+              className="flex h-1.5 w-16 overflow-hidden rounded-full"
+              style={{ backgroundColor: 'var(--border-subtle)' }}
+            >
+              {CATEGORIES.map(({ key, color }) => (
+                <div
+                  key={key}
+                  style={{
+                    width: `${usage[key].percentage}%`,
+                    backgroundColor:
+                      freePercentage <= WARNING_FREE_PERCENT
+                        ? levelColor
+                        : color,
+                  }}
+                />
+              ))}
+            </div>
+            <span className="font-medium">{Math.round(usedPercentage)}%</span>
+          </button>
+        }
+      />
+      <PopoverPopup side="top" align="start" className="w-64">
+        <div className="flex flex-col gap-2 text-xs">
+          <div
+            className="flex items-center justify-between font-medium"
+            style={{ color: 'var(--text-primary)' }}
+          >
+            <span>Context window</span>
+            <span>
+              {formatTokens(usage.totalContextWindow - usage.freeSpace.tokens)}{' '}
+              / {formatTokens(usage.totalContextWindow)}
+            </span>
+          </div>
+          {CATEGORIES.map(({ key, label, color }) => (
+            <div key={key} className="flex items-center gap-2">
+              <span
+                className="h-2 w-2 rounded-sm"
+                style={{ backgroundColor: color }}
+              />
+              <span style={{ color: 'var(--text-secondary)' }}>{label}</span>
+              <span
+                className="ml-auto"
+                style={{ color: 'var(--text-tertiary)' }}
+              >
+                {formatTokens(usage[key].tokens)} (
+                {usage[key].percentage.toFixed(1)}%)
+              </span>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <span
+              className="h-2 w-2 rounded-sm"
+              style={{ backgroundColor: 'var(--border-subtle)' }}
+            />
+            <span style={{ color: 'var(--text-secondary)' }}>Free space</span>
+            <span className="ml-auto" style={{ color: levelColor }}>
+              {formatTokens(usage.freeSpace.tokens)} (
+              {freePercentage.toFixed(1)}%)
+            </span>
+          </div>
+          {freePercentage <= WARNING_FREE_PERCENT && (
+            <div style={{ color: levelColor }}>
+              Context is running low. Consider compacting the conversation or
+              starting a new session.
+            </div>
+          )}
+        </div>
+      </PopoverPopup>
+    </Popover>
+  );
+}
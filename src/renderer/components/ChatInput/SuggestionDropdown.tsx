@@ -1,10 +1,10 @@
 import React from 'react';
 import { HugeiconsIcon } from '@hugeicons/react';
-import { FileIcon, CodeIcon } from '@hugeicons/core-free-icons';
+import { FileIcon, CodeIcon, Clock01Icon } from '@hugeicons/core-free-icons';
 import { ScrollArea } from '../ui';
 
 interface SuggestionDropdownProps {
-  type: 'file' | 'slash';
+  type: 'file' | 'slash' | 'history';
   items: (string | { name: string; description: string })[];
   selectedIndex: number;
   maxVisible?: number;
@@ -16,7 +16,8 @@ export function SuggestionDropdown({
   selectedIndex,
   maxVisible = 10,
 }: SuggestionDropdownProps) {
-  if (items.length === 0) return null;
+  // History search stays open with no matches so the query can be edited
+  if (items.length === 0 && type !== 'history') return null;
 
   const startIndex = Math.max(
     0,
@@ -35,6 +36,19 @@ export function SuggestionDropdown({
         border: '1px solid var(--border-subtle)',
       }}
     >
+      {type === 'history' && (
+        <div
+          className="px-3 py-1.5 text-xs border-b"
+          style={{
+            borderColor: 'var(--border-subtle)',
+            color: 'var(--text-tertiary)',
+          }}
+        >
+          {items.length === 0
+            ? 'No matching history'
+            : 'History search, type to filter'}
+        </div>
+      )}
       <ScrollArea className="max-h-64">
         <ul className="py-1">
           {visibleItems.map((item, index) => {
@@ -53,12 +67,18 @@ export function SuggestionDropdown({
                 }}
               >
                 <HugeiconsIcon
-                  icon={type === 'slash' ? CodeIcon : FileIcon}
+                  icon={
+                    type === 'slash'
+                      ? CodeIcon
+                      : type === 'history'
+                        ? Clock01Icon
+                        : FileIcon
+                  }
                   size={16}
                   color="var(--text-secondary)"
                 />
                 <span
-                  className="font-mono text-sm flex-1"
+                  className={`font-mono text-sm flex-1 ${type === 'history' ? 'truncate' : ''}`}
                   style={{ color: 'var(--text-primary)' }}
                 >
                   {type === 'slash' ? `/${name}` : name}
@@ -99,6 +119,14 @@ export function SuggestionDropdown({
           </kbd>{' '}
           select
         </span>
+        {type === 'history' && (
+          <span>
+            <kbd className="px-1 py-0.5 rounded bg-black/5 dark:bg-white/5">
+              Esc
+            </kbd>{' '}
+            cancel
+          </span>
+        )}
       </div>
     </div>
   );
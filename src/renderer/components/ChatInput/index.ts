@@ -1,3 +1,4 @@
 export { ChatInput, type ChatInputHandle } from './ChatInput';
 export { SuggestionDropdown } from './SuggestionDropdown';
 export { ImagePreview } from './ImagePreview';
+export { ContextUsageMeter } from './ContextUsageMeter';
@@ -0,0 +1,151 @@
+import { useEffect } from 'react';
+import { HugeiconsIcon } from '@hugeicons/react';
+import { RefreshIcon } from '@hugeicons/core-free-icons';
+import { useStore, EMBEDDED_BACKEND_ENDPOINT, type StoreState } from '../store';
+import { Button, Popover, PopoverTrigger, PopoverPopup } from './ui';
+
+// How often latency is measured while connected
+const LATENCY_POLL_INTERVAL = 15000;
+
+// Round trips slower than this are shown as degraded
+const SLOW_LATENCY_MS = 500;
+
+export const CONNECTION_STATE_COLORS: Record<StoreState['state'], string> = {
+  connected: '#10b981',
+  connecting: '#f59e0b',
+  disconnected: '#9ca3af',
+  error: '#ef4444',
+};
+
+const CONNECTION_STATE_LABELS: Record<StoreState['state'], string> = {
+  connected: 'Connected',
+  connecting: 'Connecting',
+  disconnected: 'Reconnecting',
+  error: 'Connection error',
+};
+
+/**
+ * Human readable endpoint, the embedded backend is shown with its port
+ */
+export function describeEndpoint(
+  endpoint: string,
+  backendStatus: StoreState['backendStatus'],
+) {
+  if (endpoint !== EMBEDDED_BACKEND_ENDPOINT) {
+    return endpoint;
+  }
+  return backendStatus?.url
+    ? `Embedded backend (${backendStatus.url})`
+    : 'Embedded backend';
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString();
+}
+
+/**
+ * ConnectionStatus component
+ * Backend connection dot for the sidebar footer with a health popover
+ */
+export function ConnectionStatus({ collapsed }: { collapsed: boolean }) {
+  const connectionState = useStore((state) => state.state);
+  const activeEndpoint = useStore((state) => state.activeEndpoint);
+  const health = useStore((state) => state.connectionHealth);
+  const backendStatus = useStore((state) => state.backendStatus);
+  const measureLatency = useStore((state) => state.measureLatency);
+  const reconnect = useStore((state) => state.reconnect);
+
+  useEffect(() => {
+    if (connectionState !== 'connected') return;
+    const timer = setInterval(measureLatency, LATENCY_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [connectionState, measureLatency]);
+
+  const isSlow =
+    connectionState === 'connected' &&
+    health.latency !== null &&
+    health.latency > SLOW_LATENCY_MS;
+  const color = isSlow ? '#f59e0b' : CONNECTION_STATE_COLORS[connectionState];
+  const label = CONNECTION_STATE_LABELS[connectionState];
+
+  const rows: { label: string; value: string }[] = [
+    {
+      label: 'Endpoint',
+      value: describeEndpoint(activeEndpoint, backendStatus),
+    },
+    {
+      label: 'Latency',
+      value: health.latency !== null ? `${health.latency} ms` : '—',
+    },
+    { label: 'Reconnect attempts', value: `${health.reconnectAttempts}` },
+    {
+      label: 'Last connected',
+      value: health.lastConnectedAt ? formatTime(health.lastConnectedAt) : '—',
+    },
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger
+        render={
+          <button
+            type="button"
+            className={`flex items-center gap-2 p-2 rounded text-xs transition-colors hover:bg-black/5 dark:hover:bg-white/5 ${collapsed ? '' : 'ml-auto'}`}
+            style={{ color: 'var(--text-secondary)' }}
+            title={label}
+          >
+            <span
+              className="h-2 w-2 rounded-full flex-shrink-0"
+              style={{ backgroundColor: color }}
+            />
+            {!collapsed &&
+              (connectionState === 'connected' && health.latency !== null
+                ? `${health.latency} ms`
+                : label)}
+          </button>
+        }
+      />
+      <PopoverPopup side="top" align="start" className="w-72">
+        <div className="flex flex-col gap-2 text-xs">
+          <div
+            className="flex items-center gap-2 font-medium"
+            style={{ color: 'var(--text-primary)' }}
+          >
+            <span
+              className="h-2 w-2 rounded-full"
+              style={{ backgroundColor: color }}
+            />
+            {label}
+          </div>
+          {rows.map((row) => (
+            <div key={row.label} className="flex items-center gap-2">
+              <span style={{ color: 'var(--text-secondary)' }}>
+                {row.label}
+              </span>
+              <span
+                className="ml-auto truncate font-mono"
+                style={{ color: 'var(--text-tertiary)' }}
+              >
+                {row.value}
+              </span>
+            </div>
+          ))}
+          {health.lastError && (
+            <div className="break-words" style={{ color: '#ef4444' }}>
+              {health.lastError}
+            </div>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2 mt-1"
+            onClick={() => reconnect()}
+          >
+            <HugeiconsIcon icon={RefreshIcon} size={14} strokeWidth={1.5} />
+            Reconnect
+          </Button>
+        </div>
+      </PopoverPopup>
+    </Popover>
+  );
+}
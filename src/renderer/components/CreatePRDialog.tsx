@@ -0,0 +1,252 @@
+import { useEffect, useMemo, useState } from 'react';
+import { HugeiconsIcon } from '@hugeicons/react';
+import {
+  GitPullRequestIcon,
+  LinkSquare02Icon,
+} from '@hugeicons/core-free-icons';
+import type { WorkspaceData } from '../client/types/entities';
+import { useStore } from '../store';
+import {
+  Dialog,
+  DialogPopup,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Spinner } from './ui/spinner';
+import { toastManager } from './ui/toast';
+
+// Offered when the repo has no known default branch
+const FALLBACK_BASE_BRANCHES = ['main', 'master'];
+
+/**
+ * Open a URL in the system browser, falling back to a new window
+ * when running outside Electron
+ */
+async function openInBrowser(url: string) {
+  if (window.electron?.openExternal) {
+    await window.electron.openExternal(url);
+  } else {
+    window.open(url, '_blank', 'noopener');
+  }
+}
+
+/**
+ * CreatePRDialog component
+ * Drafts a pull request from the workspace's sessions and opens it on
+ * GitHub, then shows the resulting link.
+ */
+export function CreatePRDialog({
+  workspace,
+  open,
+  onOpenChange,
+}: {
+  workspace: WorkspaceData;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const repo = useStore((state) => state.repos[workspace.repoPath]);
+  const generatePullRequestDraft = useStore(
+    (state) => state.generatePullRequestDraft,
+  );
+  const createPullRequest = useStore((state) => state.createPullRequest);
+
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [baseBranch, setBaseBranch] = useState('');
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdPR, setCreatedPR] = useState<{
+    prUrl: string;
+    prNumber: number;
+  } | null>(null);
+
+  const baseBranches = useMemo(() => {
+    const defaultBranch = repo?.gitRemote.defaultBranch;
+    const candidates = defaultBranch
+      ? [defaultBranch, ...FALLBACK_BASE_BRANCHES]
+      : FALLBACK_BASE_BRANCHES;
+    return [...new Set(candidates)].filter(
+      (branch) => branch !== workspace.branch,
+    );
+  }, [repo?.gitRemote.defaultBranch, workspace.branch]);
+
+  // Reset the form and draft a new title and description on every open
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setCreatedPR(null);
+    setTitle('');
+    setDescription('');
+    setBaseBranch(baseBranches[0] || '');
+    setIsDrafting(true);
+
+    generatePullRequestDraft(workspace.id)
+      .then((draft) => {
+        if (cancelled) return;
+        setTitle(draft.title);
+        setDescription(draft.description);
+      })
+      .catch((error) => {
+        console.error('Failed to draft pull request:', error);
+        if (!cancelled) setTitle(workspace.branch);
+      })
+      .finally(() => {
+        if (!cancelled) setIsDrafting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    open,
+    workspace.id,
+    workspace.branch,
+    baseBranches,
+    generatePullRequestDraft,
+  ]);
+
+  const canCreate =
+    title.trim().length > 0 && !isDrafting && !isCreating && !createdPR;
+
+  const handleCreate = async () => {
+    if (!canCreate) return;
+
+    setIsCreating(true);
+    try {
+      const result = await createPullRequest(workspace.id, {
+        title: title.trim(),
+        description,
+        baseBranch: baseBranch || undefined,
+      });
+      setCreatedPR(result);
+    } catch (error) {
+      toastManager.add({
+        title: 'Pull Request Failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        type: 'error',
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const selectStyle = {
+    backgroundColor: 'var(--bg-surface)',
+    color: 'var(--text-primary)',
+    border: '1px solid var(--border-subtle)',
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogPopup className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HugeiconsIcon icon={GitPullRequestIcon} size={20} />
+            Create pull request
+          </DialogTitle>
+          <DialogDescription>
+            Open a GitHub pull request from {workspace.branch}. The title and
+            description are drafted from this workspace's sessions.
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdPR ? (
+          <div
+            className="flex items-center gap-3 rounded-md p-3 text-sm"
+            style={{
+              backgroundColor: 'var(--bg-surface)',
+              border: '1px solid var(--border-subtle)',
+            }}
+          >
+            <HugeiconsIcon
+              icon={GitPullRequestIcon}
+              size={18}
+              style={{ color: '#10b981' }}
+            />
+            <div className="flex-1 min-w-0">
+              <div style={{ color: 'var(--text-primary)' }}>
+                Pull request #{createdPR.prNumber} created
+              </div>
+              <div
+                className="text-xs truncate"
+                style={{ color: 'var(--text-tertiary)' }}
+              >
+                {createdPR.prUrl}
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => openInBrowser(createdPR.prUrl)}
+            >
+              <HugeiconsIcon icon={LinkSquare02Icon} size={14} />
+              Open in browser
+            </Button>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3">
+            <div className="flex items-center gap-2 text-sm">
+              <span style={{ color: 'var(--text-secondary)' }}>Base</span>
+              <select
+                value={baseBranch}
+                onChange={(e) => setBaseBranch(e.target.value)}
+                className="text-sm rounded-md px-2 py-1"
+                style={selectStyle}
+              >
+                {baseBranches.map((branch) => (
+                  <option key={branch} value={branch}>
+                    {branch}
+                  </option>
+                ))}
+              </select>
+              <span style={{ color: 'var(--text-tertiary)' }}>
+                ← {workspace.branch}
+              </span>
+              {isDrafting && (
+                <span
+                  className="ml-auto flex items-center gap-1.5 text-xs"
+                  style={{ color: 'var(--text-tertiary)' }}
+                >
+                  <Spinner className="size-3.5" />
+                  Drafting from sessions...
+                </span>
+              )}
+            </div>
+            <Input
+              placeholder="Title"
+              value={title}
+              disabled={isDrafting}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+            <Textarea
+              placeholder="Description"
+              className="font-mono"
+              rows={10}
+              value={description}
+              disabled={isDrafting}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {createdPR ? 'Close' : 'Cancel'}
+          </Button>
+          {!createdPR && (
+            <Button onClick={handleCreate} disabled={!canCreate}>
+              {isCreating && <Spinner className="size-3.5" />}
+              Create pull request
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogPopup>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+import { useMemo } from 'react';
+import { HugeiconsIcon } from '@hugeicons/react';
+import { GitForkIcon } from '@hugeicons/core-free-icons';
+import { useStore } from '../store';
+import type { NormalizedMessage } from '../client/types/message';
+import {
+  Dialog,
+  DialogPopup,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from './ui/dialog';
+import {
+  getMessageText,
+  isCompactMessage,
+  isToolResultMessage,
+} from './messages/messageHelpers';
+
+// Stable fallback so the selector does not return a new array every render
+const EMPTY_MESSAGES: NormalizedMessage[] = [];
+
+/**
+ * Check if a user message can be forked from
+ */
+function isForkableMessage(message: NormalizedMessage) {
+  return (
+    message.role === 'user' &&
+    !isToolResultMessage(message) &&
+    !isCompactMessage(message) &&
+    getMessageText(message).trim().length > 0
+  );
+}
+
+/**
+ * ForkModal component
+ * Lists the user messages of a session, picking one branches the
+ * conversation from that point with the message text pre-filled.
+ */
+export function ForkModal({
+  sessionId,
+  open,
+  onOpenChange,
+  onForked,
+}: {
+  sessionId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onForked?: () => void;
+}) {
+  const messages = useStore((state) =>
+    sessionId ? state.messages[sessionId] || EMPTY_MESSAGES : EMPTY_MESSAGES,
+  );
+  const forkFromMessage = useStore((state) => state.forkFromMessage);
+
+  // Newest first, the usual target is a recent message
+  const userMessages = useMemo(
+    () => messages.filter(isForkableMessage).reverse(),
+    [messages],
+  );
+
+  const handleSelect = (messageUuid: string) => {
+    if (!sessionId) return;
+    forkFromMessage(sessionId, messageUuid);
+    onOpenChange(false);
+    onForked?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogPopup className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HugeiconsIcon icon={GitForkIcon} size={20} />
+            Fork conversation
+          </DialogTitle>
+          <DialogDescription>
+            Pick a message to branch from. Its text is placed in the input so
+            you can edit it before sending. Forking the first message starts a
+            new session.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto" style={{ maxHeight: '400px' }}>
+          {userMessages.length === 0 ? (
+            <div
+              className="text-sm text-center py-6"
+              style={{ color: 'var(--text-tertiary)' }}
+            >
+              No messages to fork from yet.
+            </div>
+          ) : (
+            <div className="flex flex-col gap-1">
+              {userMessages.map((message) => (
+                <button
+                  key={message.uuid}
+                  type="button"
+                  className="flex flex-col gap-0.5 text-left rounded-md px-3 py-2 transition-colors"
+                  style={{ backgroundColor: 'transparent' }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor =
+                      'var(--bg-base-hover)';
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = 'transparent';
+                  }}
+                  onClick={() => handleSelect(message.uuid)}
+                >
+                  <span
+                    className="text-sm line-clamp-2"
+                    style={{ color: 'var(--text-primary)' }}
+                  >
+                    {getMessageText(message)}
+                  </span>
+                  <span
+                    className="text-xs"
+                    style={{ color: 'var(--text-tertiary)' }}
+                  >
+                    {new Date(message.timestamp).toLocaleString()}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogPopup>
+    </Dialog>
+  );
+}
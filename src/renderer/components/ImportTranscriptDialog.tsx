@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from 'react';
+import { HugeiconsIcon } from '@hugeicons/react';
+import { FileImportIcon } from '@hugeicons/core-free-icons';
+import { useStore } from '../store';
+import type { WorkspaceData } from '../client/types/entities';
+import { parseTranscript, type TranscriptParseResult } from '../lib/transcript';
+import {
+  Dialog,
+  DialogPopup,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { toastManager } from './ui/toast';
+
+/**
+ * ImportTranscriptDialog component
+ * Reads a JSON transcript exported from a session, lists the entries that
+ * failed validation and adds the rest to the workspace as a read-only session.
+ */
+export function ImportTranscriptDialog({
+  workspace,
+  open,
+  onOpenChange,
+}: {
+  workspace: WorkspaceData;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const importTranscript = useStore((state) => state.importTranscript);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<TranscriptParseResult | null>(null);
+
+  // Start from an empty picker each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFileName(null);
+      setResult(null);
+    }
+  }, [open]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setResult(parseTranscript(await file.text(), file.name));
+  };
+
+  const handleImport = () => {
+    if (!result?.success) return;
+    importTranscript(workspace.id, result.transcript);
+    onOpenChange(false);
+    toastManager.add({
+      title: 'Transcript imported',
+      description: result.transcript.session.summary,
+      type: 'success',
+    });
+  };
+
+  const importable = result?.success ? result.transcript.messages.length : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogPopup className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HugeiconsIcon icon={FileImportIcon} size={20} />
+            Import transcript
+          </DialogTitle>
+          <DialogDescription>
+            Open a JSON transcript exported from a session. It is added to{' '}
+            {workspace.branch} as a read-only session that can be replayed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-3 text-sm">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => inputRef.current?.click()}
+            >
+              Choose file
+            </Button>
+            <span
+              className="truncate"
+              style={{ color: 'var(--text-tertiary)' }}
+            >
+              {fileName ?? 'No file selected'}
+            </span>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                // Choosing the same file again should parse it again
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {result && !result.success && (
+            <div style={{ color: 'var(--text-error, #ef4444)' }}>
+              {result.error}
+            </div>
+          )}
+
+          {result?.success && (
+            <>
+              <div style={{ color: 'var(--text-primary)' }}>
+                {result.transcript.session.summary} · {importable} valid{' '}
+                {importable === 1 ? 'message' : 'messages'}
+                {result.rejected.length > 0 &&
+                  `, ${result.rejected.length} rejected`}
+              </div>
+              {result.rejected.length > 0 && (
+                <div
+                  className="overflow-y-auto rounded-md p-2 font-mono text-xs"
+                  style={{
+                    maxHeight: '240px',
+                    backgroundColor: 'var(--bg-surface)',
+                    border: '1px solid var(--border-subtle)',
+                  }}
+                >
+                  {result.rejected.map((entry) => (
+                    <div key={entry.index} className="py-0.5">
+                      <span style={{ color: 'var(--text-tertiary)' }}>
+                        #{entry.index}
+                        {entry.uuid && ` ${entry.uuid}`}
+                      </span>{' '}
+                      <span style={{ color: 'var(--text-secondary)' }}>
+                        {entry.reason}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importable === 0}>
+            {importable > 0
+              ? `Import ${importable} ${importable === 1 ? 'message' : 'messages'}`
+              : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogPopup>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 import { RepoSidebar } from './RepoSidebar';
 import { WorkspacePanel } from './WorkspacePanel';
-// import { WorkspaceChanges } from './WorkspaceChanges';
-// import { Terminal } from './Terminal';
+import { WorkspaceChanges } from './WorkspaceChanges';
+import { Terminal } from './Terminal';
 import TestComponent from '../TestComponent';
 import type { RepoData, WorkspaceData } from '../client/types/entities';
 
@@ -12,7 +12,6 @@ export const MainLayout = ({
   selectedWorkspace,
   onSelectRepo,
   onSelectWorkspace,
-  onExecuteCommand: _onExecuteCommand,
 }: {
   repos: RepoData[];
   selectedRepoPath: string | null;
@@ -20,7 +19,6 @@ export const MainLayout = ({
   selectedWorkspace: WorkspaceData | null;
   onSelectRepo: (path: string | null) => void;
   onSelectWorkspace: (id: string | null) => void;
-  onExecuteCommand: (command: string) => Promise<void>;
 }) => {
   // Determine empty state type
   const emptyStateType = !selectedWorkspace
@@ -50,14 +48,16 @@ export const MainLayout = ({
           />
         </div>
 
-        {/* Right column - hidden for now, will implement later */}
-        {/* <div
-          className="flex flex-col w-80"
-          style={{ borderLeft: '1px solid var(--border-subtle)' }}
-        >
-          <WorkspaceChanges workspace={selectedWorkspace} />
-          <Terminal onExecuteCommand={onExecuteCommand} />
-        </div> */}
+        {/* Right column - workspace changes and terminal */}
+        {selectedWorkspace && (
+          <div
+            className="flex flex-col w-96"
+            style={{ borderLeft: '1px solid var(--border-subtle)' }}
+          >
+            <WorkspaceChanges workspace={selectedWorkspace} />
+            <Terminal workspace={selectedWorkspace} />
+          </div>
+        )}
       </div>
 
       {/* Test controls at the bottom */}
@@ -0,0 +1,198 @@
+import { HugeiconsIcon } from '@hugeicons/react';
+import {
+  Download04Icon,
+  GitMergeIcon,
+  RefreshIcon,
+  Upload04Icon,
+} from '@hugeicons/core-free-icons';
+import type { GitSyncResult } from '../../shared/types';
+import { useStore } from '../store';
+import { MenuItem } from './ui/menu';
+import { Spinner } from './ui/spinner';
+import { toastManager } from './ui/toast';
+
+const OPERATION_LABELS = {
+  fetch: { progress: 'Fetching', done: 'Fetch' },
+  pull: { progress: 'Pulling', done: 'Pull' },
+  push: { progress: 'Pushing', done: 'Push' },
+  rebase: { progress: 'Rebasing', done: 'Rebase' },
+} as const;
+
+/**
+ * Run a sync operation behind a loading toast that follows git's progress
+ * output, then report the outcome including conflicting files
+ */
+async function runWithProgress(
+  cwd: string,
+  operation: keyof typeof OPERATION_LABELS,
+  run: () => Promise<GitSyncResult>,
+) {
+  const labels = OPERATION_LABELS[operation];
+  const loadingToastId = toastManager.add({
+    title: `${labels.progress}...`,
+    description: cwd,
+    type: 'loading',
+  });
+  const unsubscribe = window.electron?.onGitSyncProgress((event) => {
+    if (event.cwd === cwd && event.operation === operation) {
+      toastManager.update(loadingToastId, { description: event.message });
+    }
+  });
+
+  try {
+    const result = await run();
+    toastManager.close(loadingToastId);
+    if (result.success) {
+      toastManager.add({
+        title: `${labels.done} Complete`,
+        description: result.message || undefined,
+        type: 'success',
+      });
+    } else {
+      toastManager.add({
+        title: `${labels.done} Conflicts`,
+        description: `${result.message}. Conflicting files: ${result.conflicts.join(', ')}`,
+        type: 'warning',
+      });
+    }
+  } catch (error) {
+    toastManager.close(loadingToastId);
+    toastManager.add({
+      title: `${labels.done} Failed`,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      type: 'error',
+    });
+  } finally {
+    unsubscribe?.();
+  }
+}
+
+/**
+ * Ahead/behind counts of a worktree against its upstream branch
+ * Renders nothing while the worktree is in sync or was never pushed.
+ */
+export function RemoteSyncBadge({
+  repoPath,
+  cwd,
+}: {
+  repoPath: string;
+  cwd: string;
+}) {
+  const sync = useStore((state) => state.remoteSyncByRepo[repoPath]);
+  const operation = useStore((state) => state.syncOperationByPath[cwd]);
+  const branchSync = sync?.worktrees[cwd];
+
+  if (operation) {
+    return (
+      <span title={`${OPERATION_LABELS[operation].progress}...`}>
+        <Spinner className="size-3.5" />
+      </span>
+    );
+  }
+  if (!branchSync || (branchSync.ahead === 0 && branchSync.behind === 0)) {
+    return null;
+  }
+
+  const details = [
+    `${branchSync.ahead} to push, ${branchSync.behind} to pull from ${branchSync.upstream}`,
+  ];
+  if (branchSync.behindDefault && sync.defaultBranch) {
+    details.push(`${branchSync.behindDefault} behind ${sync.defaultBranch}`);
+  }
+  if (sync.error) {
+    details.push(`Last fetch failed: ${sync.error}`);
+  }
+
+  return (
+    <span
+      className="text-xs px-1.5 py-0.5 rounded whitespace-nowrap"
+      style={{
+        backgroundColor: 'var(--bg-base)',
+        color: 'var(--text-secondary)',
+      }}
+      title={details.join('\n')}
+    >
+      {branchSync.ahead > 0 && `↑${branchSync.ahead}`}
+      {branchSync.ahead > 0 && branchSync.behind > 0 && ' '}
+      {branchSync.behind > 0 && `↓${branchSync.behind}`}
+    </span>
+  );
+}
+
+/**
+ * Fetch, pull, push and rebase items for a worktree's context menu
+ * Only available in the desktop app, which runs git in the main process.
+ */
+export function RemoteSyncMenuItems({
+  repoPath,
+  cwd,
+}: {
+  repoPath: string;
+  cwd: string;
+}) {
+  const repo = useStore((state) => state.repos[repoPath]);
+  const sync = useStore((state) => state.remoteSyncByRepo[repoPath]);
+  const operation = useStore((state) => state.syncOperationByPath[cwd]);
+  const runSyncOperation = useStore((state) => state.runSyncOperation);
+
+  const api = window.electron;
+  if (!api?.gitFetch) return null;
+
+  const branchSync = sync?.worktrees[cwd];
+  const defaultBranch =
+    repo?.gitRemote.defaultBranch || sync?.defaultBranch || null;
+  const canRebase =
+    !!defaultBranch &&
+    !!branchSync?.branch &&
+    branchSync.branch !== defaultBranch;
+
+  const handleFetch = () =>
+    runWithProgress(repoPath, 'fetch', async () => {
+      const result = await api.gitFetch(repoPath);
+      if (result.error) throw new Error(result.error);
+      return { success: true, conflicts: [], message: '' };
+    });
+
+  return (
+    <>
+      <MenuItem disabled={!!operation} onClick={handleFetch}>
+        <HugeiconsIcon icon={RefreshIcon} size={14} strokeWidth={1.5} />
+        Fetch
+      </MenuItem>
+      <MenuItem
+        disabled={!!operation}
+        onClick={() =>
+          runWithProgress(cwd, 'pull', () => runSyncOperation(cwd, 'pull'))
+        }
+      >
+        <HugeiconsIcon icon={Download04Icon} size={14} strokeWidth={1.5} />
+        Pull
+        {!!branchSync?.behind && ` (${branchSync.behind})`}
+      </MenuItem>
+      <MenuItem
+        disabled={!!operation}
+        onClick={() =>
+          runWithProgress(cwd, 'push', () => runSyncOperation(cwd, 'push'))
+        }
+      >
+        <HugeiconsIcon icon={Upload04Icon} size={14} strokeWidth={1.5} />
+        Push
+        {!!branchSync?.ahead && ` (${branchSync.ahead})`}
+      </MenuItem>
+      {canRebase && (
+        <MenuItem
+          disabled={!!operation}
+          onClick={() =>
+            runWithProgress(cwd, 'rebase', () =>
+              runSyncOperation(cwd, 'rebase', defaultBranch),
+            )
+          }
+        >
+          <HugeiconsIcon icon={GitMergeIcon} size={14} strokeWidth={1.5} />
+          Rebase on {defaultBranch}
+          {!!branchSync?.behindDefault && ` (${branchSync.behindDefault})`}
+        </MenuItem>
+      )}
+    </>
+  );
+}
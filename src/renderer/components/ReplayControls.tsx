@@ -0,0 +1,113 @@
+import {
+  PauseIcon,
+  PlayIcon,
+  RotateCcwIcon,
+  SquareIcon,
+  StepForwardIcon,
+} from 'lucide-react';
+import { useStore } from '../store';
+import { Button } from './ui/button';
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+interface ReplayControlsProps {
+  sessionId: string;
+}
+
+/**
+ * ReplayControls component
+ * Takes the place of the chat input for imported sessions, which are
+ * read-only. Plays the messages back with their recorded timing or one at a
+ * time.
+ */
+export function ReplayControls({ sessionId }: ReplayControlsProps) {
+  const total = useStore(
+    (state) => state.importedSessions[sessionId]?.messages.length ?? 0,
+  );
+  const replay = useStore((state) => state.replayBySession[sessionId]);
+  const startReplay = useStore((state) => state.startReplay);
+  const pauseReplay = useStore((state) => state.pauseReplay);
+  const stepReplay = useStore((state) => state.stepReplay);
+  const stopReplay = useStore((state) => state.stopReplay);
+  const setReplaySpeed = useStore((state) => state.setReplaySpeed);
+
+  const isPlaying = replay?.status === 'playing';
+  const isFinished = replay?.status === 'finished';
+
+  // Stepping into a fully shown session starts from the first message
+  const handleStep = () => {
+    pauseReplay(sessionId);
+    stepReplay(sessionId);
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span style={{ color: 'var(--text-secondary)' }}>
+        Imported transcript · read-only
+      </span>
+      <div className="ml-auto flex items-center gap-1">
+        {replay && (
+          <span
+            className="mr-2 tabular-nums text-xs"
+            style={{ color: 'var(--text-tertiary)' }}
+          >
+            {replay.index} / {total}
+          </span>
+        )}
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          title={isPlaying ? 'Pause' : isFinished ? 'Replay' : 'Play'}
+          disabled={total === 0}
+          onClick={() =>
+            isPlaying ? pauseReplay(sessionId) : startReplay(sessionId)
+          }
+        >
+          {isPlaying ? (
+            <PauseIcon />
+          ) : isFinished ? (
+            <RotateCcwIcon />
+          ) : (
+            <PlayIcon />
+          )}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          title="Next message"
+          disabled={total === 0 || isFinished}
+          onClick={handleStep}
+        >
+          <StepForwardIcon />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          title="Stop and show every message"
+          disabled={!replay}
+          onClick={() => stopReplay(sessionId)}
+        >
+          <SquareIcon />
+        </Button>
+        <select
+          value={replay?.speed ?? 1}
+          disabled={!replay}
+          onChange={(e) => setReplaySpeed(sessionId, Number(e.target.value))}
+          className="text-xs rounded-md px-1.5 py-1"
+          style={{
+            backgroundColor: 'var(--bg-surface)',
+            color: 'var(--text-primary)',
+            border: '1px solid var(--border-subtle)',
+          }}
+          title="Replay speed"
+        >
+          {SPEEDS.map((speed) => (
+            <option key={speed} value={speed}>
+              {speed}×
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
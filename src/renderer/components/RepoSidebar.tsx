@@ -14,6 +14,8 @@ import {
   Comment01Icon,
   ArrowLeftIcon,
   ArrowRightIcon,
+  PlayIcon,
+  SquareArrowUpRightIcon,
 } from '@hugeicons/core-free-icons';
 import { formatDistanceToNowStrict } from 'date-fns';
 import type { RepoData } from '../client/types/entities';
@@ -59,6 +61,10 @@ import {
 } from './ui/empty';
 import { Button } from './ui/button';
 import { AddRepoMenu } from './AddRepoMenu';
+import { ContextMenu, ContextMenuTrigger } from './ui/context-menu';
+import { MenuItem, MenuPopup, MenuSeparator } from './ui/menu';
+import { RemoteSyncBadge, RemoteSyncMenuItems } from './RemoteSync';
+import { ConnectionStatus } from './ConnectionStatus';
 import { toastManager } from './ui/toast';
 
 export const RepoSidebar = ({
@@ -92,6 +98,10 @@ export const RepoSidebar = ({
   const sidebarCollapsed = useStore((state) => state.sidebarCollapsed);
   const toggleSidebar = useStore((state) => state.toggleSidebar);
   const getSessionProcessing = useStore((state) => state.getSessionProcessing);
+  const toolApprovalsBySession = useStore(
+    (state) => state.toolApprovalsBySession,
+  );
+  const resumeSession = useStore((state) => state.resumeSession);
 
   const [dialogOpen, setDialogOpen] = useState(false);
   const [alertDialogOpen, setAlertDialogOpen] = useState(false);
@@ -105,6 +115,38 @@ export const RepoSidebar = ({
     setDialogOpen(true);
   };
 
+  // Only the desktop app can open more windows or sync with remotes
+  const canOpenWindows = !!window.electron?.openWorkspaceWindow;
+  const canSyncRemotes = !!window.electron?.gitFetch;
+
+  const openWorkspaceWindow = async (workspaceId: string) => {
+    try {
+      await window.electron?.openWorkspaceWindow(workspaceId);
+    } catch (error) {
+      toastManager.add({
+        title: 'Open Window Failed',
+        description: (error as Error).message,
+        type: 'error',
+      });
+    }
+  };
+
+  const handleResumeSession = async (
+    workspaceId: string,
+    sessionId: string,
+    e: MouseEvent,
+  ) => {
+    e.stopPropagation();
+    const resumed = await resumeSession(workspaceId, sessionId);
+    if (!resumed) {
+      toastManager.add({
+        title: 'Resume Failed',
+        description: 'Could not restore the session state',
+        type: 'error',
+      });
+    }
+  };
+
   const handleDeleteRepo = () => {
     setAlertDialogOpen(true);
   };
@@ -214,34 +256,50 @@ export const RepoSidebar = ({
               {repos.map((repo) => (
                 <AccordionItem key={repo.path} value={repo.path}>
                   <AccordionTrigger className="px-3 py-2 hover:bg-opacity-50">
-                    <div className="flex items-center gap-2 flex-1">
-                      <HugeiconsIcon
-                        icon={FolderIcon}
-                        size={18}
-                        strokeWidth={1.5}
-                      />
-                      <span className="font-medium text-sm">{repo.name}</span>
-                      <span
-                        className="ml-auto text-xs px-2 py-0.5 rounded"
-                        style={{
-                          backgroundColor: 'var(--bg-base)',
-                          color: 'var(--text-secondary)',
-                        }}
-                      >
-                        {repo.workspaceIds.length}
-                      </span>
-                      <span
-                        className="p-1 rounded hover:bg-opacity-70"
-                        onClick={(e) => handleRepoInfoClick(repo, e)}
-                        style={{ color: 'var(--text-secondary)' }}
-                      >
+                    <ContextMenu>
+                      <ContextMenuTrigger className="flex items-center gap-2 flex-1">
                         <HugeiconsIcon
-                          icon={InformationCircleIcon}
-                          size={16}
+                          icon={FolderIcon}
+                          size={18}
                           strokeWidth={1.5}
                         />
-                      </span>
-                    </div>
+                        <span className="font-medium text-sm">{repo.name}</span>
+                        <span className="ml-auto">
+                          <RemoteSyncBadge
+                            repoPath={repo.path}
+                            cwd={repo.path}
+                          />
+                        </span>
+                        <span
+                          className="text-xs px-2 py-0.5 rounded"
+                          style={{
+                            backgroundColor: 'var(--bg-base)',
+                            color: 'var(--text-secondary)',
+                          }}
+                        >
+                          {repo.workspaceIds.length}
+                        </span>
+                        <span
+                          className="p-1 rounded hover:bg-opacity-70"
+                          onClick={(e) => handleRepoInfoClick(repo, e)}
+                          style={{ color: 'var(--text-secondary)' }}
+                        >
+                          <HugeiconsIcon
+                            icon={InformationCircleIcon}
+                            size={16}
+                            strokeWidth={1.5}
+                          />
+                        </span>
+                      </ContextMenuTrigger>
+                      {canSyncRemotes && (
+                        <MenuPopup>
+                          <RemoteSyncMenuItems
+                            repoPath={repo.path}
+                            cwd={repo.path}
+                          />
+                        </MenuPopup>
+                      )}
+                    </ContextMenu>
                   </AccordionTrigger>
 
                   <AccordionPanel>
@@ -279,6 +337,7 @@ export const RepoSidebar = ({
                           selectedWorkspaceId === workspaceId;
                         const changesCount =
                           workspace.gitState.pendingChanges.length;
+                        const pullRequest = workspace.metadata.pullRequest;
 
                         // Get sessions for this workspace, sorted by modified (newest first)
                         const workspaceSessions = (sessions[workspaceId] || [])
@@ -294,50 +353,102 @@ export const RepoSidebar = ({
 
                         return (
                           <div key={workspaceId}>
-                            <div
-                              className="flex items-center gap-2 px-3 py-2 cursor-pointer rounded transition-colors"
-                              style={{
-                                backgroundColor: isWorkspaceSelected
-                                  ? 'var(--bg-base)'
-                                  : 'transparent',
-                                color: isWorkspaceSelected
-                                  ? 'var(--text-primary)'
-                                  : 'var(--text-secondary)',
-                              }}
-                              onMouseEnter={(e) => {
-                                if (!isWorkspaceSelected) {
-                                  e.currentTarget.style.backgroundColor =
-                                    'var(--bg-base-hover)';
-                                }
-                              }}
-                              onMouseLeave={(e) => {
-                                if (!isWorkspaceSelected) {
-                                  e.currentTarget.style.backgroundColor =
-                                    'transparent';
-                                }
-                              }}
-                              onClick={() => onSelectWorkspace(workspaceId)}
-                            >
-                              <HugeiconsIcon
-                                icon={GitBranchIcon}
-                                size={16}
-                                strokeWidth={1.5}
-                              />
-                              <span className="flex-1 text-sm">
-                                {workspace.branch}
-                              </span>
-                              {changesCount > 0 && (
-                                <span
-                                  className="text-xs px-1.5 py-0.5 rounded"
-                                  style={{
-                                    backgroundColor: '#fef3c7',
-                                    color: '#92400e',
+                            <ContextMenu>
+                              <ContextMenuTrigger
+                                className="flex items-center gap-2 px-3 py-2 cursor-pointer rounded transition-colors"
+                                style={{
+                                  backgroundColor: isWorkspaceSelected
+                                    ? 'var(--bg-base)'
+                                    : 'transparent',
+                                  color: isWorkspaceSelected
+                                    ? 'var(--text-primary)'
+                                    : 'var(--text-secondary)',
+                                }}
+                                onMouseEnter={(e) => {
+                                  if (!isWorkspaceSelected) {
+                                    e.currentTarget.style.backgroundColor =
+                                      'var(--bg-base-hover)';
+                                  }
+                                }}
+                                onMouseLeave={(e) => {
+                                  if (!isWorkspaceSelected) {
+                                    e.currentTarget.style.backgroundColor =
+                                      'transparent';
+                                  }
+                                }}
+                                onClick={() => onSelectWorkspace(workspaceId)}
+                              >
+                                <HugeiconsIcon
+                                  icon={GitBranchIcon}
+                                  size={16}
+                                  strokeWidth={1.5}
+                                />
+                                <span className="flex-1 text-sm">
+                                  {workspace.branch}
+                                </span>
+                                <RemoteSyncBadge
+                                  repoPath={workspace.repoPath}
+                                  cwd={workspace.worktreePath}
+                                />
+                                {pullRequest && (
+                                  <span
+                                    className="text-xs px-1.5 py-0.5 rounded"
+                                    style={{
+                                      backgroundColor: '#dcfce7',
+                                      color: '#166534',
+                                    }}
+                                    title={pullRequest.url}
+                                  >
+                                    #{pullRequest.number}
+                                  </span>
+                                )}
+                                {changesCount > 0 && (
+                                  <span
+                                    className="text-xs px-1.5 py-0.5 rounded"
+                                    style={{
+                                      backgroundColor: '#fef3c7',
+                                      color: '#92400e',
+                                    }}
+                                  >
+                                    {changesCount}
+                                  </span>
+                                )}
+                              </ContextMenuTrigger>
+                              <MenuPopup>
+                                {canOpenWindows && (
+                                  <MenuItem
+                                    onClick={() =>
+                                      openWorkspaceWindow(workspaceId)
+                                    }
+                                  >
+                                    <HugeiconsIcon
+                                      icon={SquareArrowUpRightIcon}
+                                      size={14}
+                                      strokeWidth={1.5}
+                                    />
+                                    Open in New Window
+                                  </MenuItem>
+                                )}
+                                <MenuItem
+                                  onClick={() => {
+                                    selectWorkspace(workspaceId);
+                                    createSession();
                                   }}
                                 >
-                                  {changesCount}
-                                </span>
-                              )}
-                            </div>
+                                  <HugeiconsIcon
+                                    icon={PlusSignIcon}
+                                    size={14}
+                                    strokeWidth={1.5}
+                                  />
+                                  New Session
+                                </MenuItem>
+                                {canSyncRemotes && <MenuSeparator />}
+                                <RemoteSyncMenuItems
+                                  repoPath={workspace.repoPath}
+                                  cwd={workspace.worktreePath}
+                                />
+                              </MenuPopup>
+                            </ContextMenu>
 
                             {/* Session list */}
                             <div className="ml-4">
@@ -390,6 +501,10 @@ export const RepoSidebar = ({
                                 const isProcessing =
                                   processing.status === 'processing';
                                 const isFailed = processing.status === 'failed';
+                                const pendingApprovals = (
+                                  toolApprovalsBySession[session.sessionId] ||
+                                  []
+                                ).length;
                                 const textColor = isFailed
                                   ? '#ef4444'
                                   : isSessionSelected
@@ -435,12 +550,47 @@ export const RepoSidebar = ({
                                     <span className="flex-1 text-xs truncate">
                                       {displaySummary}
                                     </span>
+                                    {pendingApprovals > 0 && (
+                                      <span
+                                        className="text-xs px-1.5 rounded"
+                                        style={{
+                                          backgroundColor: '#fef3c7',
+                                          color: '#92400e',
+                                        }}
+                                        title="Waiting for tool approval"
+                                      >
+                                        {pendingApprovals}
+                                      </span>
+                                    )}
                                     <span
                                       className="text-xs"
                                       style={{ color: 'var(--text-tertiary)' }}
                                     >
                                       {formatRelativeTime(session.modified)}
                                     </span>
+                                    {!isSessionSelected && !isProcessing && (
+                                      <button
+                                        type="button"
+                                        className="rounded p-0.5 transition-colors hover:bg-black/5 dark:hover:bg-white/5"
+                                        style={{
+                                          color: 'var(--text-tertiary)',
+                                        }}
+                                        title="Resume session"
+                                        onClick={(e) =>
+                                          handleResumeSession(
+                                            workspaceId,
+                                            session.sessionId,
+                                            e,
+                                          )
+                                        }
+                                      >
+                                        <HugeiconsIcon
+                                          icon={PlayIcon}
+                                          size={12}
+                                          strokeWidth={1.5}
+                                        />
+                                      </button>
+                                    )}
                                   </div>
                                 );
                               })}
@@ -662,6 +812,7 @@ RepoSidebar.Footer = function Footer({ collapsed }: { collapsed: boolean }) {
       >
         <HugeiconsIcon icon={SettingsIcon} size={18} strokeWidth={1.5} />
       </div>
+      <ConnectionStatus collapsed={collapsed} />
     </div>
   );
 };
@@ -0,0 +1,233 @@
+import {
+  useEffect,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type ReactNode,
+} from 'react';
+import { HugeiconsIcon } from '@hugeicons/react';
+import {
+  BubbleChatIcon,
+  Folder01Icon,
+  GitBranchIcon,
+  Message01Icon,
+  Search01Icon,
+} from '@hugeicons/core-free-icons';
+import { useStore } from '../store';
+import { useListNavigation } from '../hooks';
+import { search } from '../search';
+import {
+  buildSnippet,
+  tokenize,
+  type SearchDocumentKind,
+  type SearchResult,
+  type SearchSnippet,
+} from '../lib/searchIndex';
+import { Dialog, DialogPopup } from './ui/dialog';
+
+// Wait for a pause in typing before querying the index
+const SEARCH_DEBOUNCE = 80;
+
+const KIND_ICONS: Record<SearchDocumentKind, typeof Search01Icon> = {
+  repo: Folder01Icon,
+  workspace: GitBranchIcon,
+  session: BubbleChatIcon,
+  message: Message01Icon,
+};
+
+/**
+ * Whether the key event is the search shortcut, Cmd/Ctrl+K
+ */
+function isToggleShortcut(e: globalThis.KeyboardEvent) {
+  return (e.metaKey || e.ctrlKey) && !e.altKey && e.code === 'KeyK';
+}
+
+function HighlightedSnippet({ snippet }: { snippet: SearchSnippet }) {
+  const parts: ReactNode[] = [];
+  let position = 0;
+  for (const [start, end] of snippet.highlights) {
+    parts.push(snippet.text.slice(position, start));
+    parts.push(
+      <mark
+        key={start}
+        className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-500/40"
+      >
+        {snippet.text.slice(start, end)}
+      </mark>,
+    );
+    position = end;
+  }
+  parts.push(snippet.text.slice(position));
+  return <>{parts}</>;
+}
+
+/**
+ * SearchPalette component
+ * Command palette searching repos, workspaces, session summaries and message
+ * text, picking a result opens it at the matching message.
+ * Toggled with Cmd/Ctrl+K.
+ */
+export function SearchPalette() {
+  const repos = useStore((state) => state.repos);
+  const workspaces = useStore((state) => state.workspaces);
+  const revealLocation = useStore((state) => state.revealLocation);
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const latestQueryRef = useRef('');
+  const listRef = useRef<HTMLDivElement>(null);
+  const { selectedIndex, setSelectedIndex, navigateNext, navigatePrevious } =
+    useListNavigation(results);
+
+  useEffect(() => {
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (isToggleShortcut(e)) {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    latestQueryRef.current = query;
+    const timer = setTimeout(async () => {
+      const found = await search(query);
+      // Drop results of a query that was typed over while it ran
+      if (latestQueryRef.current !== query) return;
+      setResults(found);
+      setSelectedIndex(0);
+    }, SEARCH_DEBOUNCE);
+    return () => clearTimeout(timer);
+  }, [query, setSelectedIndex]);
+
+  // Keep the selected result in view while navigating with the keyboard
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${selectedIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const terms = tokenize(query);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setQuery('');
+      setResults([]);
+    }
+  };
+
+  const handleSelect = (result: SearchResult) => {
+    const { document } = result;
+    revealLocation({
+      repoPath: document.repoPath,
+      workspaceId: document.workspaceId,
+      sessionId: document.sessionId,
+      messageUuid: document.messageUuid,
+    });
+    handleOpenChange(false);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (results.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      navigateNext();
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      navigatePrevious();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const result = results[selectedIndex];
+      if (result) handleSelect(result);
+    }
+  };
+
+  // Where a result lives, e.g. "my-repo › feature-branch"
+  const describeLocation = (result: SearchResult) => {
+    const { document } = result;
+    if (document.kind === 'repo') return document.text;
+    const workspace = document.workspaceId
+      ? workspaces[document.workspaceId]
+      : null;
+    return [
+      repos[document.repoPath]?.name,
+      document.kind !== 'workspace' ? workspace?.branch : null,
+      document.kind === 'message' ? document.title : null,
+    ]
+      .filter(Boolean)
+      .join(' › ');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogPopup className="sm:max-w-2xl gap-0 p-0" showCloseButton={false}>
+        <div
+          className="flex items-center gap-2 px-4 py-3 border-b"
+          style={{ borderColor: 'var(--border-subtle)' }}
+        >
+          <HugeiconsIcon
+            icon={Search01Icon}
+            size={18}
+            className="text-muted-foreground"
+          />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search sessions, messages and workspaces..."
+            className="flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground/64"
+          />
+        </div>
+
+        <div
+          ref={listRef}
+          className="overflow-y-auto p-2"
+          style={{ maxHeight: '420px' }}
+        >
+          {results.length === 0 ? (
+            <div className="text-sm text-center py-6 text-muted-foreground">
+              {query.trim() ? 'No matches.' : 'Type to search.'}
+            </div>
+          ) : (
+            results.map((result, index) => (
+              <button
+                key={result.document.id}
+                type="button"
+                data-index={index}
+                className={`flex w-full items-start gap-3 rounded-md px-3 py-2 text-left ${
+                  index === selectedIndex ? 'bg-accent' : ''
+                }`}
+                onMouseMove={() => setSelectedIndex(index)}
+                onClick={() => handleSelect(result)}
+              >
+                <HugeiconsIcon
+                  icon={KIND_ICONS[result.document.kind]}
+                  size={16}
+                  className="mt-0.5 shrink-0 text-muted-foreground"
+                />
+                <span className="flex min-w-0 flex-col gap-0.5">
+                  <span className="text-sm line-clamp-2">
+                    <HighlightedSnippet
+                      snippet={
+                        result.document.kind === 'message'
+                          ? result.snippet
+                          : buildSnippet(result.document.title, terms)
+                      }
+                    />
+                  </span>
+                  <span className="truncate text-xs text-muted-foreground">
+                    {describeLocation(result)}
+                  </span>
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      </DialogPopup>
+    </Dialog>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { useStore } from '../store';
+import type { SessionData, WorkspaceData } from '../client/types/entities';
+import {
+  createTranscript,
+  getTranscriptFileName,
+  transcriptToMarkdown,
+  type SessionTranscript,
+  type TranscriptFormat,
+} from '../lib/transcript';
+import { renderTranscriptHtml } from './messages/TranscriptDocument';
+import {
+  MenuCheckboxItem,
+  MenuItem,
+  MenuSeparator,
+  MenuSub,
+  MenuSubPopup,
+  MenuSubTrigger,
+} from './ui/menu';
+import { toastManager } from './ui/toast';
+
+const FORMATS: {
+  format: TranscriptFormat;
+  label: string;
+  name: string;
+  mimeType: string;
+}[] = [
+  {
+    format: 'markdown',
+    label: 'Markdown',
+    name: 'Markdown',
+    mimeType: 'text/markdown',
+  },
+  { format: 'html', label: 'HTML page', name: 'HTML', mimeType: 'text/html' },
+  {
+    format: 'json',
+    label: 'JSON transcript',
+    name: 'JSON',
+    mimeType: 'application/json',
+  },
+];
+
+function renderTranscript(
+  transcript: SessionTranscript,
+  format: TranscriptFormat,
+): string {
+  switch (format) {
+    case 'markdown':
+      return transcriptToMarkdown(transcript);
+    case 'html':
+      return renderTranscriptHtml(transcript);
+    case 'json':
+      return `${JSON.stringify(transcript, null, 2)}\n`;
+  }
+}
+
+/**
+ * Save through the desktop save dialog, or download in the browser
+ * @returns Where the file went, null when the dialog was cancelled
+ */
+async function saveTranscript(
+  fileName: string,
+  content: string,
+  format: (typeof FORMATS)[number],
+): Promise<string | null> {
+  if (window.electron?.saveFile) {
+    return window.electron.saveFile({
+      defaultPath: fileName,
+      content,
+      filters: [
+        {
+          name: format.name,
+          extensions: [fileName.slice(fileName.lastIndexOf('.') + 1)],
+        },
+      ],
+    });
+  }
+
+  const url = URL.createObjectURL(
+    new Blob([content], { type: format.mimeType }),
+  );
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+  return fileName;
+}
+
+/**
+ * SessionExportMenu component
+ * Submenu of the session actions that saves the transcript as Markdown, a
+ * self-contained HTML page or JSON, optionally with reasoning.
+ */
+export function SessionExportMenu({
+  session,
+  workspace,
+}: {
+  session: SessionData;
+  workspace: WorkspaceData;
+}) {
+  const request = useStore((state) => state.request);
+  const [includeReasoning, setIncludeReasoning] = useState(false);
+
+  const handleExport = async (format: (typeof FORMATS)[number]) => {
+    try {
+      // Sessions that were never opened have no messages in the store, and
+      // imported ones may be partway through a replay
+      const state = useStore.getState();
+      let messages =
+        state.importedSessions[session.sessionId]?.messages ??
+        state.messages[session.sessionId];
+      if (!messages) {
+        const response = await request('session.messages.list', {
+          cwd: workspace.worktreePath,
+          sessionId: session.sessionId,
+        });
+        if (!response.success) {
+          throw new Error('Could not load the session messages');
+        }
+        messages = response.data.messages;
+      }
+
+      const transcript = createTranscript(session, workspace, messages, {
+        includeReasoning,
+      });
+      const fileName = getTranscriptFileName(transcript, format.format);
+      const savedTo = await saveTranscript(
+        fileName,
+        renderTranscript(transcript, format.format),
+        format,
+      );
+      if (savedTo) {
+        toastManager.add({
+          title: 'Session exported',
+          description: savedTo,
+          type: 'success',
+        });
+      }
+    } catch (error) {
+      toastManager.add({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : String(error),
+        type: 'error',
+      });
+    }
+  };
+
+  return (
+    <MenuSub>
+      <MenuSubTrigger>Export session</MenuSubTrigger>
+      <MenuSubPopup>
+        {FORMATS.map((format) => (
+          <MenuItem key={format.format} onClick={() => handleExport(format)}>
+            {format.label}
+          </MenuItem>
+        ))}
+        <MenuSeparator />
+        <MenuCheckboxItem
+          checked={includeReasoning}
+          onCheckedChange={setIncludeReasoning}
+          closeOnClick={false}
+        >
+          Include reasoning
+        </MenuCheckboxItem>
+      </MenuSubPopup>
+    </MenuSub>
+  );
+}
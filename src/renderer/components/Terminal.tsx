@@ -1,19 +1,35 @@
 import React, {
   createContext,
   useContext,
-  useState,
   useRef,
   useEffect,
+  useState,
 } from 'react';
+import '@xterm/xterm/css/xterm.css';
+import type { WorkspaceData } from '../client/types/entities';
+import { useStore, type TerminalTab } from '../store';
+import {
+  attachTerminal,
+  detachTerminal,
+  fitTerminal,
+} from '../lib/terminalRegistry';
+
+// Stable fallback so the selector does not return a new array every render
+const EMPTY_TABS: TerminalTab[] = [];
+
+// Workspaces that already opened their first terminal, closing every tab
+// afterwards leaves the panel empty instead of spawning a new shell
+const initializedWorkspaces = new Set<string>();
 
 // Define the context type
 interface TerminalContextType {
-  lines: string[];
-  activeTab: string;
-  inputValue: string;
-  executeCommand: (command: string) => Promise<void>;
+  workspaceId: string;
+  tabs: TerminalTab[];
+  activeTab: string | null;
+  isStarting: boolean;
   setActiveTab: (tab: string) => void;
-  setInputValue: (value: string) => void;
+  createTab: () => void;
+  closeTab: (tab: string) => void;
 }
 
 // Create the context
@@ -31,45 +47,46 @@ export function useTerminalContext() {
 }
 
 // Main component
-export const Terminal = ({
-  onExecuteCommand,
-}: {
-  onExecuteCommand: (command: string) => Promise<void>;
-}) => {
-  const [lines, setLines] = useState<string[]>([]);
-  const [activeTab, setActiveTab] = useState('terminal-1');
-  const [inputValue, setInputValue] = useState('');
-
-  const executeCommand = async (command: string) => {
-    if (!command.trim()) return;
-
-    // Add the command to the terminal output
-    setLines((prev) => [...prev, `$ ${command}`]);
-    setInputValue('');
-
-    try {
-      await onExecuteCommand(command);
-      // In a real implementation, we would get the output from the command execution
-      // For now, we'll just add a placeholder response
-      setLines((prev) => [...prev, `Command executed: ${command}`]);
-    } catch (error) {
-      setLines((prev) => [...prev, `Error: ${(error as Error).message}`]);
-    }
-  };
+export const Terminal = ({ workspace }: { workspace: WorkspaceData }) => {
+  const workspaceId = workspace.id;
+  const tabs = useStore(
+    (state) => state.terminalsByWorkspace[workspaceId] || EMPTY_TABS,
+  );
+  const activeTab = useStore(
+    (state) => state.activeTerminalByWorkspace[workspaceId] ?? null,
+  );
+  const createTerminal = useStore((state) => state.createTerminal);
+  const closeTerminal = useStore((state) => state.closeTerminal);
+  const setActiveTerminal = useStore((state) => state.setActiveTerminal);
+
+  // Open a first terminal the first time a workspace shows the panel
+  const hasTabs = tabs.length > 0;
+  const [isStarting, setIsStarting] = useState(false);
+  useEffect(() => {
+    if (hasTabs || initializedWorkspaces.has(workspaceId)) return;
+    initializedWorkspaces.add(workspaceId);
+    setIsStarting(true);
+    createTerminal(workspaceId).finally(() => setIsStarting(false));
+  }, [workspaceId, hasTabs, createTerminal]);
 
   const contextValue: TerminalContextType = {
-    lines,
+    workspaceId,
+    tabs,
     activeTab,
-    inputValue,
-    executeCommand,
-    setActiveTab,
-    setInputValue,
+    isStarting,
+    setActiveTab: (tab) => setActiveTerminal(workspaceId, tab),
+    createTab: () => {
+      createTerminal(workspaceId);
+    },
+    closeTab: (tab) => {
+      closeTerminal(workspaceId, tab);
+    },
   };
 
   return (
     <TerminalContext.Provider value={contextValue}>
       <div
-        className="flex flex-col flex-1"
+        className="flex flex-col flex-1 min-h-0"
         style={{
           backgroundColor: 'var(--bg-surface)',
           color: 'var(--text-primary)',
@@ -78,7 +95,6 @@ export const Terminal = ({
       >
         <Terminal.Tabs />
         <Terminal.Output />
-        <Terminal.Input />
       </div>
     </TerminalContext.Provider>
   );
@@ -86,26 +102,26 @@ export const Terminal = ({
 
 // Compound components
 Terminal.Tabs = function Tabs() {
-  const { activeTab, setActiveTab } = useTerminalContext();
+  const { tabs, activeTab, createTab } = useTerminalContext();
 
   return (
     <div
-      className="flex"
+      className="flex overflow-x-auto"
       style={{
         borderBottom: '1px solid var(--border-subtle)',
         backgroundColor: 'var(--bg-primary)',
       }}
     >
-      <Terminal.Tab id="terminal-1" isActive={activeTab === 'terminal-1'}>
-        Terminal 1
-      </Terminal.Tab>
-      <Terminal.Tab id="terminal-2" isActive={activeTab === 'terminal-2'}>
-        Terminal 2
-      </Terminal.Tab>
+      {tabs.map((tab) => (
+        <Terminal.Tab key={tab.id} tab={tab} isActive={activeTab === tab.id}>
+          {tab.title}
+        </Terminal.Tab>
+      ))}
       <button
         className="px-3 hover:opacity-70"
         style={{ color: '#666' }}
-        onClick={() => console.log('Add new terminal')}
+        onClick={createTab}
+        title="New terminal"
       >
         +
       </button>
@@ -114,88 +130,74 @@ Terminal.Tabs = function Tabs() {
 };
 
 Terminal.Tab = function Tab({
-  id,
+  tab,
   children,
   isActive,
 }: {
-  id: string;
+  tab: TerminalTab;
   children: React.ReactNode;
   isActive?: boolean;
 }) {
-  const { setActiveTab } = useTerminalContext();
+  const { setActiveTab, closeTab } = useTerminalContext();
+  const exited = tab.exitCode !== null;
 
   return (
     <div
-      className="px-4 py-2 text-sm cursor-pointer"
+      className="group flex items-center gap-2 pl-4 pr-2 py-2 text-sm cursor-pointer whitespace-nowrap"
       style={
         isActive
           ? { borderBottom: '2px solid #0070f3', color: 'var(--text-primary)' }
           : { color: '#666' }
       }
-      onClick={() => setActiveTab(id)}
+      onClick={() => setActiveTab(tab.id)}
     >
-      {children}
+      <span style={exited ? { opacity: 0.6 } : undefined}>{children}</span>
+      <button
+        className="opacity-0 group-hover:opacity-70 hover:opacity-100"
+        onClick={(e) => {
+          e.stopPropagation();
+          closeTab(tab.id);
+        }}
+        title="Close terminal"
+      >
+        ×
+      </button>
     </div>
   );
 };
 
 Terminal.Output = function Output() {
-  const { lines } = useTerminalContext();
-  const outputRef = useRef<HTMLDivElement>(null);
+  const { activeTab, isStarting } = useTerminalContext();
+  const hostRef = useRef<HTMLDivElement>(null);
+
+  // Mount the active terminal, the buffer stays alive when detached
+  useEffect(() => {
+    const host = hostRef.current;
+    if (!host || !activeTab) return;
+    attachTerminal(activeTab, host);
+    return () => detachTerminal(activeTab);
+  }, [activeTab]);
 
-  // Scroll to bottom when new lines are added
+  // Keep the pty size in sync with the panel
   useEffect(() => {
-    if (outputRef.current) {
-      outputRef.current.scrollTop = outputRef.current.scrollHeight;
-    }
-  }, [lines]);
+    const host = hostRef.current;
+    if (!host || !activeTab) return;
+    const observer = new ResizeObserver(() => fitTerminal(activeTab));
+    observer.observe(host);
+    return () => observer.disconnect();
+  }, [activeTab]);
 
   return (
-    <div
-      ref={outputRef}
-      className="flex-1 overflow-y-auto font-mono text-sm p-4 whitespace-nowrap"
-    >
-      {lines.length === 0 ? (
-        <div style={{ color: '#999' }}>
-          Terminal ready. Type a command to begin.
-        </div>
+    <div className="flex-1 min-h-0 p-2" style={{ backgroundColor: '#1e1e1e' }}>
+      {activeTab ? (
+        <div ref={hostRef} className="h-full w-full" />
       ) : (
-        lines.map((line, index) => (
-          <div key={index} className="mb-1">
-            {line}
-          </div>
-        ))
+        <div className="font-mono text-sm" style={{ color: '#999' }}>
+          {isStarting
+            ? 'Starting terminal...'
+            : 'No terminal open. Click + to start one.'}
+        </div>
       )}
     </div>
   );
 };
-
-Terminal.Input = function Input() {
-  const { inputValue, setInputValue, executeCommand } = useTerminalContext();
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    executeCommand(inputValue);
-  };
-
-  return (
-    <div
-      className="p-2"
-      style={{ borderTop: '1px solid var(--border-subtle)' }}
-    >
-      <form onSubmit={handleSubmit} className="flex items-center">
-        <span className="mr-2" style={{ color: '#10B981' }}>
-          $
-        </span>
-        <input
-          type="text"
-          value={inputValue}
-          onChange={(e) => setInputValue(e.target.value)}
-          className="flex-1 bg-transparent focus:outline-none font-mono"
-          style={{ color: 'var(--text-primary)' }}
-          placeholder="Type a command..."
-        />
-      </form>
-    </div>
-  );
-};
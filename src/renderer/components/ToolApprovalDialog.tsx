@@ -0,0 +1,174 @@
+import { useMemo } from 'react';
+import { HugeiconsIcon } from '@hugeicons/react';
+import { SecurityCheckIcon } from '@hugeicons/core-free-icons';
+import { useStore, type ToolApprovalDecision } from '../store';
+import type { ToolUse } from '../client/types/message';
+import {
+  Dialog,
+  DialogPopup,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { DiffViewer } from './messages/DiffViewer';
+
+// Tools whose input can be previewed as a file diff
+const EDIT_TOOLS = ['edit', 'strreplace'];
+const WRITE_TOOLS = ['write'];
+
+const CATEGORY_COLORS: Record<string, string> = {
+  read: '#3b82f6',
+  write: '#f59e0b',
+  command: '#f97316',
+  network: '#8b5cf6',
+};
+
+/**
+ * Build a diff preview for edit and write tools, or null for other tools
+ */
+function getDiffPreview(toolUse: ToolUse) {
+  const name = toolUse.name.toLowerCase();
+  const params = toolUse.params || {};
+  const filePath = params.file_path || params.filePath || 'file';
+
+  if (EDIT_TOOLS.includes(name)) {
+    return {
+      filePath,
+      originalContent: params.old_string || '',
+      newContent: params.new_string || '',
+    };
+  }
+
+  if (WRITE_TOOLS.includes(name)) {
+    return {
+      filePath,
+      originalContent: '',
+      newContent: params.content || '',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * ToolApprovalDialog component
+ * Shows the oldest pending tool approval request for a session, then any
+ * request whose session is unknown, and lets the user approve, deny or
+ * always approve the tool.
+ */
+export function ToolApprovalDialog({
+  sessionId,
+}: {
+  sessionId: string | null;
+}) {
+  const sessionApprovals = useStore((state) =>
+    sessionId ? state.toolApprovalsBySession[sessionId] : undefined,
+  );
+  const unassignedApprovals = useStore(
+    (state) => state.unassignedToolApprovals,
+  );
+  const resolveToolApproval = useStore((state) => state.resolveToolApproval);
+
+  const approvals = sessionApprovals?.length
+    ? sessionApprovals
+    : unassignedApprovals;
+  const current = approvals[0] ?? null;
+  const queueLength = approvals.length;
+
+  const diffPreview = useMemo(
+    () => (current ? getDiffPreview(current.toolUse) : null),
+    [current],
+  );
+
+  if (!current) {
+    return null;
+  }
+
+  const { toolUse, category } = current;
+  // Answers go to the queue the request came from
+  const resolve = (decision: ToolApprovalDecision) =>
+    resolveToolApproval(current.sessionId, decision);
+
+  return (
+    <Dialog
+      open
+      onOpenChange={(open) => {
+        // Dismissing the dialog counts as a denial
+        if (!open) {
+          resolve('deny');
+        }
+      }}
+    >
+      <DialogPopup className="sm:max-w-2xl" showCloseButton={false}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HugeiconsIcon icon={SecurityCheckIcon} size={20} />
+            Allow {toolUse.name}?
+          </DialogTitle>
+          <DialogDescription className="flex items-center gap-2">
+            <span>
+              {current.sessionId
+                ? 'The agent wants to run this tool.'
+                : 'The agent wants to run this tool, its session is unknown.'}
+            </span>
+            {category && (
+              <span
+                className="text-xs px-1.5 py-0.5 rounded capitalize"
+                style={{
+                  backgroundColor: `${CATEGORY_COLORS[category] || '#6b7280'}1a`,
+                  color: CATEGORY_COLORS[category] || '#6b7280',
+                }}
+              >
+                {category}
+              </span>
+            )}
+            {queueLength > 1 && (
+              <span
+                className="ml-auto text-xs"
+                style={{ color: 'var(--text-tertiary)' }}
+              >
+                1 of {queueLength}
+              </span>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {diffPreview ? (
+          <DiffViewer
+            originalContent={diffPreview.originalContent}
+            newContent={diffPreview.newContent}
+            filePath={diffPreview.filePath}
+          />
+        ) : (
+          <pre
+            className="text-xs rounded-md p-3 overflow-auto"
+            style={{
+              maxHeight: '320px',
+              backgroundColor: 'var(--bg-surface)',
+              border: '1px solid var(--border-subtle)',
+              color: 'var(--text-primary)',
+              whiteSpace: 'pre-wrap',
+              wordBreak: 'break-word',
+            }}
+          >
+            {JSON.stringify(toolUse.params, null, 2)}
+          </pre>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => resolve('deny')}>
+            Deny
+          </Button>
+          {current.sessionId && (
+            <Button variant="outline" onClick={() => resolve('approve_always')}>
+              Always allow {toolUse.name}
+            </Button>
+          )}
+          <Button onClick={() => resolve('approve')}>Approve</Button>
+        </DialogFooter>
+      </DialogPopup>
+    </Dialog>
+  );
+}
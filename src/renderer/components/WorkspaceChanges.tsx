@@ -1,12 +1,94 @@
-import React, { createContext, useContext, useState } from 'react';
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { HugeiconsIcon } from '@hugeicons/react';
+import {
+  ArrowDown01Icon,
+  ArrowRight01Icon,
+  File01Icon,
+  FolderIcon,
+  MinusSignIcon,
+  PlusSignIcon,
+  RefreshIcon,
+  Undo02Icon,
+} from '@hugeicons/core-free-icons';
+import type { StructuredPatchHunk } from 'diff';
 import type { WorkspaceData } from '../client/types/entities';
+import type {
+  GitChangeKind,
+  GitFileChange,
+  GitFileVersions,
+} from '../../shared/types';
+import { useStore } from '../store';
+import {
+  buildFileTree,
+  buildHunkPatch,
+  type FileTreeNode,
+} from '../lib/gitChanges';
+import { DiffViewer } from './messages/DiffViewer';
+import {
+  AlertDialog,
+  AlertDialogPopup,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogClose,
+} from './ui/alert-dialog';
+import { Button } from './ui/button';
+import { Spinner } from './ui/spinner';
+import { Textarea } from './ui/textarea';
+import { toastManager } from './ui/toast';
+
+type ViewMode = 'changes' | 'all-files';
+
+// A file row in either the staged or the unstaged list
+interface SelectedChange {
+  path: string;
+  staged: boolean;
+}
+
+const CHANGE_BADGES: Record<
+  GitChangeKind,
+  { label: string; backgroundColor: string; color: string }
+> = {
+  added: { label: 'A', backgroundColor: '#dcfce7', color: '#166534' },
+  modified: { label: 'M', backgroundColor: '#fbbf24', color: '#78350f' },
+  deleted: { label: 'D', backgroundColor: '#fee2e2', color: '#991b1b' },
+  renamed: { label: 'R', backgroundColor: '#dbeafe', color: '#1e40af' },
+  untracked: { label: 'U', backgroundColor: '#dcfce7', color: '#166534' },
+  conflicted: { label: '!', backgroundColor: '#fee2e2', color: '#991b1b' },
+};
 
 // Define the context type
 interface WorkspaceChangesContextType {
-  changes: string[];
-  viewMode: 'changes' | 'all-files';
+  workspace: WorkspaceData;
+  changes: GitFileChange[];
+  stagedChanges: GitFileChange[];
+  unstagedChanges: GitFileChange[];
+  viewMode: ViewMode;
   changesCount: number;
-  setViewMode: (mode: 'changes' | 'all-files') => void;
+  setViewMode: (mode: ViewMode) => void;
+  query: string;
+  setQuery: (query: string) => void;
+  selected: SelectedChange | null;
+  setSelected: (selected: SelectedChange | null) => void;
+  isLoading: boolean;
+  error: string | null;
+  // Bumped after every refresh so open diffs reload
+  revision: number;
+  refresh: () => Promise<void>;
+  runGitAction: (
+    title: string,
+    action: () => Promise<unknown>,
+  ) => Promise<boolean>;
+  requestDiscard: (paths: string[]) => void;
 }
 
 // Create the context
@@ -25,28 +107,181 @@ export function useWorkspaceChangesContext() {
   return context;
 }
 
+/**
+ * Paths a change touches, renames need both sides to be staged or unstaged
+ */
+function getChangePaths(change: GitFileChange) {
+  return change.oldPath ? [change.path, change.oldPath] : [change.path];
+}
+
 // Main component
 export const WorkspaceChanges = ({
   workspace,
 }: {
   workspace: WorkspaceData | null;
 }) => {
-  const [viewMode, setViewMode] = useState<'changes' | 'all-files'>('changes');
+  const updateWorkspace = useStore((state) => state.updateWorkspace);
+
+  const [viewMode, setViewMode] = useState<ViewMode>('changes');
+  const [changes, setChanges] = useState<GitFileChange[]>([]);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<SelectedChange | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [revision, setRevision] = useState(0);
+  const [pendingDiscard, setPendingDiscard] = useState<string[] | null>(null);
+
+  const workspaceId = workspace?.id;
+  const worktreePath = workspace?.worktreePath;
+  const gitState = workspace?.gitState;
+
+  // Selection belongs to the previous workspace
+  const [prevWorktreePath, setPrevWorktreePath] = useState(worktreePath);
+  if (worktreePath !== prevWorktreePath) {
+    setPrevWorktreePath(worktreePath);
+    setSelected(null);
+    setQuery('');
+  }
+
+  // Status of a worktree the panel no longer shows is dropped
+  const worktreePathRef = useRef(worktreePath);
+  useEffect(() => {
+    worktreePathRef.current = worktreePath;
+  }, [worktreePath]);
+
+  const refresh = useCallback(async () => {
+    if (!workspaceId || !worktreePath || !window.electron?.gitStatus) return;
+    const isCurrent = () => worktreePathRef.current === worktreePath;
+
+    setIsLoading(true);
+    try {
+      const next = await window.electron.gitStatus(worktreePath);
+      if (!isCurrent()) return;
+      setChanges(next);
+      setError(null);
+      setRevision((value) => value + 1);
+
+      // Keep the sidebar badge in step with what the panel shows
+      const pendingChanges = next.map((change) => change.path);
+      const current = useStore.getState().workspaces[workspaceId];
+      if (
+        current &&
+        pendingChanges.join('\n') !== current.gitState.pendingChanges.join('\n')
+      ) {
+        updateWorkspace(workspaceId, {
+          gitState: {
+            ...current.gitState,
+            isDirty: pendingChanges.length > 0,
+            pendingChanges,
+          },
+        });
+      }
+    } catch (err) {
+      if (isCurrent()) setError((err as Error).message);
+    } finally {
+      if (isCurrent()) setIsLoading(false);
+    }
+  }, [workspaceId, worktreePath, updateWorkspace]);
 
-  const changes = workspace?.gitState.pendingChanges || [];
-  const changesCount = changes.length;
+  // Reload whenever the workspace's git state is replaced
+  useEffect(() => {
+    if (gitState) refresh();
+  }, [gitState, refresh]);
+
+  const runGitAction = useCallback(
+    async (title: string, action: () => Promise<unknown>) => {
+      try {
+        await action();
+        return true;
+      } catch (err) {
+        toastManager.add({
+          title,
+          description: (err as Error).message,
+          type: 'error',
+        });
+        return false;
+      } finally {
+        await refresh();
+      }
+    },
+    [refresh],
+  );
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return needle
+      ? changes.filter((change) => change.path.toLowerCase().includes(needle))
+      : changes;
+  }, [changes, query]);
+
+  if (!workspace) {
+    return null;
+  }
 
   const contextValue: WorkspaceChangesContextType = {
+    workspace,
     changes,
+    stagedChanges: filtered.filter((change) => change.staged),
+    unstagedChanges: filtered.filter((change) => change.unstaged),
     viewMode,
-    changesCount,
+    changesCount: changes.length,
     setViewMode,
+    query,
+    setQuery,
+    selected,
+    setSelected,
+    isLoading,
+    error,
+    revision,
+    refresh,
+    runGitAction,
+    requestDiscard: setPendingDiscard,
+  };
+
+  const handleConfirmDiscard = async () => {
+    const paths = pendingDiscard;
+    setPendingDiscard(null);
+    const api = window.electron;
+    if (!paths || !api?.gitDiscard) return;
+    await runGitAction('Discard Failed', () =>
+      api.gitDiscard(workspace.worktreePath, paths),
+    );
+  };
+
+  const renderBody = () => {
+    if (!window.electron?.gitStatus) {
+      return (
+        <WorkspaceChanges.EmptyState
+          title="Changes unavailable"
+          description="Git changes are only available in the desktop app"
+        />
+      );
+    }
+    if (viewMode === 'all-files') {
+      return <WorkspaceChanges.AllFiles />;
+    }
+    if (error) {
+      return (
+        <WorkspaceChanges.EmptyState
+          title="Could not read git status"
+          description={error}
+        />
+      );
+    }
+    return changes.length > 0 ? (
+      <>
+        <WorkspaceChanges.FileList />
+        <WorkspaceChanges.CommitBox />
+      </>
+    ) : (
+      <WorkspaceChanges.EmptyState />
+    );
   };
 
   return (
     <WorkspaceChangesContext.Provider value={contextValue}>
       <div
-        className="flex flex-col flex-1"
+        className="flex flex-col flex-1 min-h-0"
         style={{
           backgroundColor: 'var(--bg-surface)',
           color: 'var(--text-primary)',
@@ -54,19 +289,47 @@ export const WorkspaceChanges = ({
         }}
       >
         <WorkspaceChanges.Header />
-        {changesCount > 0 ? (
-          <WorkspaceChanges.FileList />
-        ) : (
-          <WorkspaceChanges.EmptyState />
-        )}
+        {renderBody()}
       </div>
+
+      <AlertDialog
+        open={pendingDiscard !== null}
+        onOpenChange={(open) => !open && setPendingDiscard(null)}
+      >
+        <AlertDialogPopup>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard Changes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDiscard?.length === 1
+                ? `Unstaged changes to ${pendingDiscard[0]} will be lost. Untracked files are deleted.`
+                : `Unstaged changes to ${pendingDiscard?.length} files will be lost. Untracked files are deleted.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogClose>
+              <Button variant="outline">Cancel</Button>
+            </AlertDialogClose>
+            <Button variant="destructive" onClick={handleConfirmDiscard}>
+              Discard
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogPopup>
+      </AlertDialog>
     </WorkspaceChangesContext.Provider>
   );
 };
 
 // Compound components
 WorkspaceChanges.Header = function Header() {
-  const { viewMode, setViewMode, changesCount } = useWorkspaceChangesContext();
+  const {
+    viewMode,
+    setViewMode,
+    changesCount,
+    query,
+    setQuery,
+    refresh,
+    isLoading,
+  } = useWorkspaceChangesContext();
 
   return (
     <div
@@ -98,14 +361,25 @@ WorkspaceChanges.Header = function Header() {
             All Files
           </button>
         </div>
-        <button className="p-1 rounded hover:opacity-70">
-          <SearchIcon />
+        <button
+          className="p-1 rounded hover:opacity-70"
+          onClick={() => refresh()}
+          title="Refresh"
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <Spinner className="h-4 w-4" />
+          ) : (
+            <HugeiconsIcon icon={RefreshIcon} size={16} strokeWidth={1.5} />
+          )}
         </button>
       </div>
       <div className="relative">
         <input
           type="text"
           placeholder="Search files..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
           className="w-full rounded px-3 py-1 text-sm focus:outline-none focus:ring-1"
           style={{
             backgroundColor: 'var(--bg-primary)',
@@ -122,50 +396,518 @@ WorkspaceChanges.Header = function Header() {
 };
 
 WorkspaceChanges.FileList = function FileList() {
-  const { changes } = useWorkspaceChangesContext();
+  const {
+    workspace,
+    stagedChanges,
+    unstagedChanges,
+    runGitAction,
+    requestDiscard,
+  } = useWorkspaceChangesContext();
+
+  const stageAll = () => {
+    const api = window.electron;
+    if (!api) return;
+    runGitAction('Stage Failed', () =>
+      api.gitStage(
+        workspace.worktreePath,
+        unstagedChanges.flatMap(getChangePaths),
+      ),
+    );
+  };
+
+  const unstageAll = () => {
+    const api = window.electron;
+    if (!api) return;
+    runGitAction('Unstage Failed', () =>
+      api.gitUnstage(
+        workspace.worktreePath,
+        stagedChanges.flatMap(getChangePaths),
+      ),
+    );
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto min-h-0">
+      {stagedChanges.length > 0 && (
+        <>
+          <WorkspaceChanges.SectionHeader title="Staged Changes">
+            <IconButton
+              icon={MinusSignIcon}
+              title="Unstage all"
+              onClick={unstageAll}
+            />
+          </WorkspaceChanges.SectionHeader>
+          <div className="space-y-1">
+            {stagedChanges.map((change) => (
+              <WorkspaceChanges.FileItem
+                key={`staged:${change.path}`}
+                change={change}
+                staged
+              />
+            ))}
+          </div>
+        </>
+      )}
+      {unstagedChanges.length > 0 && (
+        <>
+          <WorkspaceChanges.SectionHeader title="Changes">
+            <IconButton
+              icon={Undo02Icon}
+              title="Discard all"
+              onClick={() =>
+                requestDiscard(unstagedChanges.map((change) => change.path))
+              }
+            />
+            <IconButton
+              icon={PlusSignIcon}
+              title="Stage all"
+              onClick={stageAll}
+            />
+          </WorkspaceChanges.SectionHeader>
+          <div className="space-y-1">
+            {unstagedChanges.map((change) => (
+              <WorkspaceChanges.FileItem
+                key={`unstaged:${change.path}`}
+                change={change}
+                staged={false}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
 
+WorkspaceChanges.SectionHeader = function SectionHeader({
+  title,
+  children,
+}: {
+  title: string;
+  children?: React.ReactNode;
+}) {
   return (
-    <div className="flex-1 overflow-y-auto">
+    <div
+      className="flex items-center p-2 text-xs uppercase tracking-wide"
+      style={{ color: '#666' }}
+    >
+      <span className="flex-1">{title}</span>
+      {children}
+    </div>
+  );
+};
+
+WorkspaceChanges.FileItem = function FileItem({
+  change,
+  staged,
+}: {
+  change: GitFileChange;
+  staged: boolean;
+}) {
+  const { workspace, selected, setSelected, runGitAction, requestDiscard } =
+    useWorkspaceChangesContext();
+  const kind = staged ? change.staged : change.unstaged;
+  const isSelected =
+    selected?.path === change.path && selected.staged === staged;
+
+  // Lists only hold changes that have a kind on their side
+  if (!kind) {
+    return null;
+  }
+  const badge = CHANGE_BADGES[kind];
+
+  const toggleStaged = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const api = window.electron;
+    if (!api) return;
+    const paths = getChangePaths(change);
+    runGitAction(staged ? 'Unstage Failed' : 'Stage Failed', () =>
+      staged
+        ? api.gitUnstage(workspace.worktreePath, paths)
+        : api.gitStage(workspace.worktreePath, paths),
+    );
+  };
+
+  return (
+    <div>
       <div
-        className="p-2 text-xs uppercase tracking-wide"
-        style={{ color: '#666' }}
+        className="group flex items-center p-2 cursor-pointer hover:opacity-80"
+        style={isSelected ? { backgroundColor: 'var(--bg-base)' } : undefined}
+        onClick={() =>
+          setSelected(isSelected ? null : { path: change.path, staged })
+        }
       >
-        Modified Files
+        <div className="flex items-center justify-center w-6 h-6 mr-2">
+          <FileIcon />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="text-sm truncate" title={change.path}>
+            {change.path}
+          </div>
+          {change.oldPath && staged && (
+            <div className="text-xs truncate" style={{ color: '#666' }}>
+              from {change.oldPath}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center">
+          <div className="hidden group-hover:flex items-center">
+            {!staged && (
+              <IconButton
+                icon={Undo02Icon}
+                title="Discard changes"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  requestDiscard([change.path]);
+                }}
+              />
+            )}
+            <IconButton
+              icon={staged ? MinusSignIcon : PlusSignIcon}
+              title={staged ? 'Unstage' : 'Stage'}
+              onClick={toggleStaged}
+            />
+          </div>
+          <span
+            className="text-xs px-1.5 py-0.5 rounded ml-1"
+            style={{
+              backgroundColor: badge.backgroundColor,
+              color: badge.color,
+            }}
+            title={kind}
+          >
+            {badge.label}
+          </span>
+        </div>
       </div>
-      <div className="space-y-1">
-        {changes.map((file, index) => (
-          <WorkspaceChanges.FileItem key={index} file={file} />
-        ))}
+      {isSelected && (
+        <WorkspaceChanges.FileDiff change={change} staged={staged} />
+      )}
+    </div>
+  );
+};
+
+WorkspaceChanges.FileDiff = function FileDiff({
+  change,
+  staged,
+}: {
+  change: GitFileChange;
+  staged: boolean;
+}) {
+  const { workspace, revision, runGitAction } = useWorkspaceChangesContext();
+  // Remember which refresh the versions came from, so a stale diff can be
+  // shown dimmed while the next one loads
+  const [loaded, setLoaded] = useState<{
+    revision: number;
+    versions: GitFileVersions;
+  } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.electron
+      ?.gitFileVersions(workspace.worktreePath, change, staged)
+      .then((versions) => {
+        if (!cancelled) setLoaded({ revision, versions });
+      })
+      .catch((error) => console.error('Failed to load file diff:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [workspace.worktreePath, change, staged, revision]);
+
+  // Hunks only apply cleanly when both sides of the file exist in git
+  const kind = staged ? change.staged : change.unstaged;
+  const canApplyHunks = kind === 'modified';
+
+  const renderHunkActions = useCallback(
+    (hunk: StructuredPatchHunk) => {
+      const apply = (
+        title: string,
+        options: { cached: boolean; reverse: boolean },
+      ) => {
+        const api = window.electron;
+        if (!api) return;
+        runGitAction(title, () =>
+          api.gitApplyPatch(
+            workspace.worktreePath,
+            buildHunkPatch(change.path, hunk),
+            options,
+          ),
+        );
+      };
+
+      return staged ? (
+        <HunkButton
+          onClick={() =>
+            apply('Unstage Failed', { cached: true, reverse: true })
+          }
+        >
+          Unstage
+        </HunkButton>
+      ) : (
+        <>
+          <HunkButton
+            onClick={() =>
+              apply('Discard Failed', { cached: false, reverse: true })
+            }
+          >
+            Discard
+          </HunkButton>
+          <HunkButton
+            onClick={() =>
+              apply('Stage Failed', { cached: true, reverse: false })
+            }
+          >
+            Stage
+          </HunkButton>
+        </>
+      );
+    },
+    [workspace.worktreePath, change.path, staged, runGitAction],
+  );
+
+  if (!loaded) {
+    return (
+      <div className="flex justify-center p-2">
+        <Spinner className="h-4 w-4" />
       </div>
+    );
+  }
+
+  const { versions } = loaded;
+  return (
+    <div
+      className="px-2 pb-2"
+      style={{ opacity: loaded.revision === revision ? 1 : 0.6 }}
+    >
+      {versions.binary ? (
+        <div className="text-xs p-2" style={{ color: '#666' }}>
+          Binary file not shown
+        </div>
+      ) : (
+        <DiffViewer
+          originalContent={versions.original}
+          newContent={versions.modified}
+          filePath={change.path}
+          renderHunkActions={canApplyHunks ? renderHunkActions : undefined}
+        />
+      )}
     </div>
   );
 };
 
-WorkspaceChanges.FileItem = function FileItem({ file }: { file: string }) {
+WorkspaceChanges.CommitBox = function CommitBox() {
+  const { workspace, changes, runGitAction } = useWorkspaceChangesContext();
+  const updateWorkspace = useStore((state) => state.updateWorkspace);
+  const [message, setMessage] = useState('');
+  const [isCommitting, setIsCommitting] = useState(false);
+
+  const stagedCount = changes.filter((change) => change.staged).length;
+  const canCommit = stagedCount > 0 && !!message.trim() && !isCommitting;
+
+  const handleCommit = async () => {
+    const api = window.electron;
+    if (!canCommit || !api) return;
+
+    setIsCommitting(true);
+    let commit = '';
+    const committed = await runGitAction('Commit Failed', async () => {
+      ({ commit } = await api.gitCommit(
+        workspace.worktreePath,
+        message.trim(),
+      ));
+    });
+    setIsCommitting(false);
+
+    if (committed) {
+      setMessage('');
+      updateWorkspace(workspace.id, {
+        gitState: { ...workspace.gitState, currentCommit: commit },
+      });
+    }
+  };
+
   return (
-    <div className="flex items-center p-2 cursor-pointer hover:opacity-80">
-      <div className="flex items-center justify-center w-6 h-6 mr-2">
-        <FileIcon />
-      </div>
-      <div className="flex-1 min-w-0">
-        <div className="text-sm truncate">{file}</div>
+    <div
+      className="p-2 space-y-2"
+      style={{ borderTop: '1px solid var(--border-subtle)' }}
+    >
+      <Textarea
+        placeholder="Commit message"
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleCommit();
+          }
+        }}
+        rows={2}
+      />
+      <Button
+        size="sm"
+        className="w-full gap-2"
+        disabled={!canCommit}
+        onClick={handleCommit}
+      >
+        {isCommitting && <Spinner className="h-3.5 w-3.5" />}
+        {stagedCount > 0
+          ? `Commit ${stagedCount} staged file${stagedCount === 1 ? '' : 's'}`
+          : 'Stage files to commit'}
+      </Button>
+    </div>
+  );
+};
+
+WorkspaceChanges.AllFiles = function AllFiles() {
+  const { workspace, changes, query } = useWorkspaceChangesContext();
+  const request = useStore((state) => state.request);
+  const [paths, setPaths] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPaths(null);
+    request('utils.files.list', { cwd: workspace.worktreePath })
+      .then((response) => {
+        if (cancelled) return;
+        // Entries are plain paths or file objects depending on the backend
+        const files = (response.data?.files || [])
+          .map((file: unknown) => {
+            if (typeof file === 'string') return file;
+            if (!file || typeof file !== 'object') return undefined;
+            const entry = file as { path?: unknown; relativePath?: unknown };
+            return entry.path || entry.relativePath;
+          })
+          .filter((file: unknown): file is string => typeof file === 'string');
+        setPaths(files);
+      })
+      .catch((error) => {
+        console.error('Failed to list files:', error);
+        if (!cancelled) setPaths([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspace.worktreePath, request]);
+
+  const tree = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const visible = needle
+      ? (paths || []).filter((file) => file.toLowerCase().includes(needle))
+      : paths || [];
+    return buildFileTree(visible);
+  }, [paths, query]);
+
+  const changeKinds = useMemo(
+    () =>
+      new Map(
+        changes.flatMap((change) => {
+          const kind = change.unstaged || change.staged;
+          return kind ? [[change.path, kind] as const] : [];
+        }),
+      ),
+    [changes],
+  );
+
+  if (paths === null) {
+    return (
+      <div className="flex-1 flex justify-center p-4">
+        <Spinner className="h-4 w-4" />
       </div>
-      <div className="flex items-center">
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto min-h-0 py-1">
+      {tree.map((node) => (
+        <WorkspaceChanges.TreeNode
+          key={node.path}
+          node={node}
+          depth={0}
+          changeKinds={changeKinds}
+          defaultOpen={!!query.trim()}
+        />
+      ))}
+    </div>
+  );
+};
+
+WorkspaceChanges.TreeNode = function TreeNode({
+  node,
+  depth,
+  changeKinds,
+  defaultOpen,
+}: {
+  node: FileTreeNode;
+  depth: number;
+  changeKinds: Map<string, GitChangeKind>;
+  defaultOpen: boolean;
+}) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const kind = changeKinds.get(node.path);
+
+  useEffect(() => {
+    setIsOpen(defaultOpen);
+  }, [defaultOpen]);
+
+  return (
+    <div>
+      <div
+        className="flex items-center gap-1 py-0.5 pr-2 text-sm cursor-pointer hover:opacity-80"
+        style={{ paddingLeft: `${8 + depth * 12}px` }}
+        onClick={() => node.children && setIsOpen(!isOpen)}
+        title={node.path}
+      >
+        {node.children ? (
+          <HugeiconsIcon
+            icon={isOpen ? ArrowDown01Icon : ArrowRight01Icon}
+            size={12}
+            strokeWidth={1.5}
+          />
+        ) : (
+          <span className="w-3" />
+        )}
+        <HugeiconsIcon
+          icon={node.children ? FolderIcon : File01Icon}
+          size={14}
+          strokeWidth={1.5}
+        />
         <span
-          className="text-xs px-1.5 py-0.5 rounded mr-1"
-          style={{ backgroundColor: '#fbbf24', color: '#78350f' }}
+          className="truncate flex-1"
+          style={kind ? { color: CHANGE_BADGES[kind].color } : undefined}
         >
-          M
+          {node.name}
         </span>
-        <button className="p-1 rounded hover:opacity-70">
-          <MoreIcon />
-        </button>
+        {kind && (
+          <span
+            className="text-xs"
+            style={{ color: CHANGE_BADGES[kind].color }}
+          >
+            {CHANGE_BADGES[kind].label}
+          </span>
+        )}
       </div>
+      {isOpen &&
+        node.children?.map((child) => (
+          <WorkspaceChanges.TreeNode
+            key={child.path}
+            node={child}
+            depth={depth + 1}
+            changeKinds={changeKinds}
+            defaultOpen={defaultOpen}
+          />
+        ))}
     </div>
   );
 };
 
-WorkspaceChanges.EmptyState = function EmptyState() {
+WorkspaceChanges.EmptyState = function EmptyState({
+  title = 'No changes',
+  description = 'The working tree is clean',
+}: {
+  title?: string;
+  description?: string;
+}) {
   return (
     <div className="flex-1 flex flex-col items-center justify-center p-8 text-center">
       <div className="mb-4">
@@ -175,15 +917,53 @@ WorkspaceChanges.EmptyState = function EmptyState() {
         className="text-lg font-medium mb-1"
         style={{ color: 'var(--text-primary)' }}
       >
-        No changes
+        {title}
       </h3>
-      <p className="text-sm" style={{ color: '#666' }}>
-        All files are up to date with the remote repository
+      <p className="text-sm break-words" style={{ color: '#666' }}>
+        {description}
       </p>
     </div>
   );
 };
 
+function IconButton({
+  icon,
+  title,
+  onClick,
+}: {
+  icon: typeof Undo02Icon;
+  title: string;
+  onClick: (e: React.MouseEvent) => void;
+}) {
+  return (
+    <button
+      className="p-1 rounded hover:opacity-70"
+      title={title}
+      onClick={onClick}
+    >
+      <HugeiconsIcon icon={icon} size={14} strokeWidth={1.5} />
+    </button>
+  );
+}
+
+function HunkButton({
+  children,
+  onClick,
+}: {
+  children: React.ReactNode;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      className="px-1.5 rounded text-xs hover:opacity-70"
+      style={{ border: '1px solid var(--border-subtle)' }}
+      onClick={onClick}
+    >
+      {children}
+    </button>
+  );
+}
+
 // Icons
 function SearchIcon() {
   return (
@@ -218,16 +998,6 @@ function FileIcon() {
   );
 }
 
-function MoreIcon() {
-  return (
-    <svg width="16" height="16" viewBox="0 0 16 16">
-      <circle cx="8" cy="4" r="1" fill="currentColor" />
-      <circle cx="8" cy="8" r="1" fill="currentColor" />
-      <circle cx="8" cy="12" r="1" fill="currentColor" />
-    </svg>
-  );
-}
-
 function CheckIcon() {
   return (
     <svg width="24" height="24" viewBox="0 0 24 24">
@@ -17,7 +17,9 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
 } from '@/components/ui/menu';
-import { ChevronDown } from 'lucide-react';
+import { ChevronDown, MoreHorizontal } from 'lucide-react';
+import { HugeiconsIcon } from '@hugeicons/react';
+import { Alert02Icon } from '@hugeicons/core-free-icons';
 import {
   Empty,
   EmptyMedia,
@@ -25,12 +27,22 @@ import {
   EmptyTitle,
   EmptyDescription,
 } from '@/components/ui/empty';
-import { useStore } from '../store';
+import { useStore, type BashOutput } from '../store';
+import { useVirtualList } from '../hooks/useVirtualList';
 import { ChatInput, type ChatInputHandle } from './ChatInput';
 import { Message } from './messages/Message';
-import { splitMessages } from './messages/messageHelpers';
+import { buildToolResultIndex, splitMessages } from './messages/messageHelpers';
+import type { ToolResultIndex } from './messages/types';
 import { OpenAppButton } from './OpenAppButton';
 import { ActivityIndicator } from './ActivityIndicator';
+import { ToolApprovalDialog } from './ToolApprovalDialog';
+import { ForkModal } from './ForkModal';
+import { CreatePRDialog } from './CreatePRDialog';
+import { SessionExportMenu } from './SessionExport';
+import { ImportTranscriptDialog } from './ImportTranscriptDialog';
+import { ReplayControls } from './ReplayControls';
+import { BashOutputCard } from './messages/BashOutputCard';
+import { toastManager } from './ui/toast';
 
 // Define the context type
 interface WorkspaceContextType {
@@ -70,6 +82,7 @@ export const WorkspacePanel = ({
 }) => {
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [showForkModal, setShowForkModal] = useState(false);
 
   // Get store actions and state
   const request = useStore((state) => state.request);
@@ -78,8 +91,14 @@ export const WorkspacePanel = ({
   const selectedWorkspaceId = useStore((state) => state.selectedWorkspaceId);
   const selectedSessionId = useStore((state) => state.selectedSessionId);
   const selectSession = useStore((state) => state.selectSession);
-  const workspaces = useStore((state) => state.workspaces);
+  // Only the path, git state updates replace the workspace every few moments
+  const worktreePath = useStore((state) =>
+    selectedWorkspaceId
+      ? state.workspaces[selectedWorkspaceId]?.worktreePath
+      : undefined,
+  );
   const sessionsMap = useStore((state) => state.sessions);
+  const importedSessions = useStore((state) => state.importedSessions);
   const messagesMap = useStore((state) => state.messages);
   const fetchFileList = useStore((state) => state.fetchFileList);
   const fetchSlashCommandList = useStore(
@@ -92,6 +111,12 @@ export const WorkspacePanel = ({
   const slashCommandJSXBySession = useStore(
     (state) => state.slashCommandJSXBySession,
   );
+  const fetchApprovalMode = useStore((state) => state.fetchApprovalMode);
+  const hasApprovalMode = useStore((state) =>
+    selectedSessionId
+      ? !!state.approvalModeBySession[selectedSessionId]
+      : false,
+  );
 
   // Get slash command JSX for current session
   const slashCommandJSX = selectedSessionId
@@ -99,10 +124,18 @@ export const WorkspacePanel = ({
     : null;
 
   // Get sessions and messages for the current workspace from store - memoized to avoid infinite loop
-  const allSessions = useMemo(
-    () => (selectedWorkspaceId ? sessionsMap[selectedWorkspaceId] || [] : []),
-    [selectedWorkspaceId, sessionsMap],
-  );
+  // Imported transcripts are listed first, ahead of the backend sessions
+  const allSessions = useMemo(() => {
+    if (!selectedWorkspaceId) return [];
+    const imported = Object.values(importedSessions)
+      .filter((entry) => entry.workspaceId === selectedWorkspaceId)
+      .map((entry) => entry.session);
+    return [...imported, ...(sessionsMap[selectedWorkspaceId] || [])];
+  }, [selectedWorkspaceId, sessionsMap, importedSessions]);
+
+  // Imported sessions are read-only and unknown to the backend
+  const isImported =
+    !!selectedSessionId && !!importedSessions[selectedSessionId];
 
   const messages = useMemo(
     () => (selectedSessionId ? messagesMap[selectedSessionId] || [] : []),
@@ -119,29 +152,32 @@ export const WorkspacePanel = ({
       return;
     }
 
-    const workspace = workspaces[selectedWorkspaceId];
-    if (!workspace) {
+    if (!worktreePath) {
       selectSession(null);
       return;
     }
 
+    let cancelled = false;
     const fetchSessions = async () => {
       try {
         const response = await request('sessions.list', {
-          cwd: workspace.worktreePath,
+          cwd: worktreePath,
         });
 
-        if (response.success) {
+        if (response.success && !cancelled) {
           setSessions(selectedWorkspaceId, response.data.sessions);
         }
       } catch (error) {
         console.error('Failed to fetch sessions:', error);
-        setSessions(selectedWorkspaceId, []);
+        if (!cancelled) setSessions(selectedWorkspaceId, []);
       }
     };
 
     fetchSessions();
-  }, [selectedWorkspaceId, workspaces, request, setSessions, selectSession]);
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedWorkspaceId, worktreePath, request, setSessions, selectSession]);
 
   // Validate selectedSessionId when sessions load
   useEffect(() => {
@@ -163,18 +199,18 @@ export const WorkspacePanel = ({
 
   // Fetch messages when selectedSessionId changes
   useEffect(() => {
-    if (!selectedSessionId || !selectedWorkspaceId) return;
+    if (!selectedSessionId || !selectedWorkspaceId || isImported) return;
 
-    const workspace = workspaces[selectedWorkspaceId];
-    if (!workspace) return;
+    if (!worktreePath) return;
 
+    let cancelled = false;
     const fetchMessages = async () => {
       try {
         const response = await request('session.messages.list', {
-          cwd: workspace.worktreePath,
+          cwd: worktreePath,
           sessionId: selectedSessionId,
         });
-        if (response.success) {
+        if (response.success && !cancelled) {
           setMessages(selectedSessionId, response.data.messages);
         }
       } catch (error) {
@@ -183,20 +219,36 @@ export const WorkspacePanel = ({
     };
 
     fetchMessages();
+    return () => {
+      cancelled = true;
+    };
   }, [
     selectedSessionId,
     selectedWorkspaceId,
-    workspaces,
+    isImported,
+    worktreePath,
     request,
     setMessages,
   ]);
 
+  // Fetch the live approval mode once per session
+  useEffect(() => {
+    if (!selectedSessionId || !selectedWorkspaceId || isImported) return;
+    if (hasApprovalMode) return;
+    fetchApprovalMode(selectedSessionId);
+  }, [
+    selectedSessionId,
+    selectedWorkspaceId,
+    isImported,
+    hasApprovalMode,
+    fetchApprovalMode,
+  ]);
+
   // Fetch model info once per session to initialize thinking state
   useEffect(() => {
-    if (!selectedSessionId || !selectedWorkspaceId) return;
+    if (!selectedSessionId || !selectedWorkspaceId || isImported) return;
 
-    const workspace = workspaces[selectedWorkspaceId];
-    if (!workspace) return;
+    if (!worktreePath) return;
 
     // Check if already initialized for this session
     const sessionInput = getSessionInput(selectedSessionId);
@@ -205,7 +257,7 @@ export const WorkspacePanel = ({
     const fetchModelInfo = async () => {
       try {
         const response = await request('session.getModel', {
-          cwd: workspace.worktreePath,
+          cwd: worktreePath,
           sessionId: selectedSessionId,
           includeModelInfo: true,
         });
@@ -243,7 +295,8 @@ export const WorkspacePanel = ({
   }, [
     selectedSessionId,
     selectedWorkspaceId,
-    workspaces,
+    isImported,
+    worktreePath,
     request,
     getSessionInput,
     setSessionInput,
@@ -342,40 +395,52 @@ export const WorkspacePanel = ({
         style={{ backgroundColor: 'var(--bg-primary)' }}
       >
         <WorkspacePanel.Header />
-        {/* <WorkspacePanel.SessionTabs /> */}
+        <WorkspacePanel.SessionTabs />
         {/* <WorkspacePanel.WorkspaceInfo /> */}
         <WorkspacePanel.Messages />
         <div
           className="p-4 flex flex-col gap-3"
           style={{ borderTop: '1px solid var(--border-subtle)' }}
         >
-          <ActivityIndicator sessionId={selectedSessionId} />
-          <ChatInput
-            ref={chatInputRef}
-            onSubmit={sendMessage}
-            onCancel={() => {
-              if (selectedSessionId) {
-                cancelSession(selectedSessionId);
-              }
-            }}
-            onShowForkModal={() => {
-              alert('fork not implemented');
-            }}
-            fetchPaths={fetchPaths}
-            fetchCommands={fetchCommands}
-            placeholder={
-              selectedSessionId
-                ? 'Ask anything, @ for context'
-                : 'Ask anything, @ for context with a new session...'
-            }
-            modelName={workspace.context.settings?.model}
-            isProcessing={isLoading}
-            sessionId={selectedSessionId || undefined}
-            cwd={workspace.repoPath}
-            request={request}
-          />
-          {slashCommandJSX}
+          {isImported && selectedSessionId ? (
+            <ReplayControls sessionId={selectedSessionId} />
+          ) : (
+            <>
+              <ActivityIndicator sessionId={selectedSessionId} />
+              <ChatInput
+                ref={chatInputRef}
+                onSubmit={sendMessage}
+                onCancel={() => {
+                  if (selectedSessionId) {
+                    cancelSession(selectedSessionId);
+                  }
+                }}
+                onShowForkModal={() => setShowForkModal(true)}
+                fetchPaths={fetchPaths}
+                fetchCommands={fetchCommands}
+                placeholder={
+                  selectedSessionId
+                    ? 'Ask anything, @ for context'
+                    : 'Ask anything, @ for context with a new session...'
+                }
+                modelName={workspace.context.settings?.model}
+                isProcessing={isLoading}
+                sessionId={selectedSessionId || undefined}
+                workspaceId={workspace.id}
+                cwd={workspace.repoPath}
+                request={request}
+              />
+              {slashCommandJSX}
+            </>
+          )}
         </div>
+        <ToolApprovalDialog sessionId={selectedSessionId} />
+        <ForkModal
+          sessionId={selectedSessionId}
+          open={showForkModal}
+          onOpenChange={setShowForkModal}
+          onForked={() => chatInputRef.current?.focus()}
+        />
       </div>
     </WorkspaceContext.Provider>
   );
@@ -383,10 +448,16 @@ export const WorkspacePanel = ({
 
 // Compound components
 WorkspacePanel.Header = function Header() {
-  const { workspace } = useWorkspaceContext();
+  const { workspace, selectedSessionId } = useWorkspaceContext();
   const request = useStore((state) => state.request);
+  const approvalMode = useStore((state) =>
+    selectedSessionId
+      ? state.approvalModeBySession[selectedSessionId]
+      : undefined,
+  );
   const deleteWorkspace = useStore((state) => state.deleteWorkspace);
   const selectWorkspace = useStore((state) => state.selectWorkspace);
+  const [showCreatePR, setShowCreatePR] = useState(false);
 
   const handleMerge = async () => {
     try {
@@ -407,7 +478,7 @@ WorkspacePanel.Header = function Header() {
   };
 
   const handleCreatePR = () => {
-    alert('Not implemented');
+    setShowCreatePR(true);
   };
 
   return (
@@ -427,6 +498,20 @@ WorkspacePanel.Header = function Header() {
             {workspace.repoPath}
           </p>
         </div>
+        {approvalMode === 'yolo' && (
+          <div
+            className="flex items-center gap-1.5 px-2 py-1 rounded text-xs font-medium"
+            style={{
+              backgroundColor: '#fee2e2',
+              color: '#b91c1c',
+              border: '1px solid #fecaca',
+            }}
+            title="Tools run in this session without asking for approval"
+          >
+            <HugeiconsIcon icon={Alert02Icon} size={14} />
+            Yolo mode: tools run without approval
+          </div>
+        )}
         <div className="flex gap-2">
           <OpenAppButton cwd={workspace.worktreePath} request={request} />
           <DropdownMenu>
@@ -448,14 +533,28 @@ WorkspacePanel.Header = function Header() {
           </DropdownMenu>
         </div>
       </div>
+      <CreatePRDialog
+        workspace={workspace}
+        open={showCreatePR}
+        onOpenChange={setShowCreatePR}
+      />
     </div>
   );
 };
 
 WorkspacePanel.SessionTabs = function SessionTabs() {
-  const { allSessions, selectedSessionId, selectSession } =
+  const { workspace, allSessions, selectedSessionId, selectSession } =
     useWorkspaceContext();
   const createSession = useStore((state) => state.createSession);
+  const [showImport, setShowImport] = useState(false);
+
+  const importDialog = (
+    <ImportTranscriptDialog
+      workspace={workspace}
+      open={showImport}
+      onOpenChange={setShowImport}
+    />
+  );
 
   if (allSessions.length === 0) {
     return (
@@ -469,9 +568,15 @@ WorkspacePanel.SessionTabs = function SessionTabs() {
         <p className="text-sm" style={{ color: '#999' }}>
           No sessions yet
         </p>
-        <Button variant="ghost" size="sm" onClick={createSession}>
-          + Create
-        </Button>
+        <div className="flex items-center">
+          <Button variant="ghost" size="sm" onClick={() => setShowImport(true)}>
+            Import
+          </Button>
+          <Button variant="ghost" size="sm" onClick={createSession}>
+            + Create
+          </Button>
+        </div>
+        {importDialog}
       </div>
     );
   }
@@ -500,6 +605,15 @@ WorkspacePanel.SessionTabs = function SessionTabs() {
       >
         + Create
       </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setShowImport(true)}
+        className="shrink-0"
+      >
+        Import
+      </Button>
+      {importDialog}
     </div>
   );
 };
@@ -513,6 +627,19 @@ WorkspacePanel.SessionTab = function SessionTab({
   isActive: boolean;
   onClick: () => void;
 }) {
+  const { workspace } = useWorkspaceContext();
+  const compactSession = useStore((state) => state.compactSession);
+  const isCompacting = useStore(
+    (state) => !!state.compactingBySession[session.sessionId],
+  );
+  const isImported = useStore(
+    (state) => !!state.importedSessions[session.sessionId],
+  );
+  const startReplay = useStore((state) => state.startReplay);
+  const stopReplay = useStore((state) => state.stopReplay);
+  const removeImportedSession = useStore(
+    (state) => state.removeImportedSession,
+  );
   const summary = useMemo(() => {
     if (session.summary) {
       if (session.summary.length > 16) {
@@ -523,9 +650,21 @@ WorkspacePanel.SessionTab = function SessionTab({
       return 'New session';
     }
   }, [session.summary]);
+
+  const handleCompact = async () => {
+    const compacted = await compactSession(session.sessionId);
+    toastManager.add({
+      title: compacted ? 'Conversation compacted' : 'Compaction failed',
+      description: compacted
+        ? 'Older history was replaced with a summary.'
+        : 'The conversation could not be compacted.',
+      type: compacted ? 'success' : 'error',
+    });
+  };
+
   return (
     <div
-      className="px-4 py-2 text-sm cursor-pointer whitespace-nowrap"
+      className="flex items-center gap-1 pl-4 pr-2 py-2 text-sm cursor-pointer whitespace-nowrap"
       style={
         isActive
           ? { borderBottom: '2px solid #0070f3', color: 'var(--text-primary)' }
@@ -534,6 +673,51 @@ WorkspacePanel.SessionTab = function SessionTab({
       onClick={onClick}
     >
       {summary}
+      {isImported && (
+        <span className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+          imported
+        </span>
+      )}
+      {isActive && (
+        <DropdownMenu>
+          <DropdownMenuTrigger
+            render={
+              <button
+                type="button"
+                className="rounded p-0.5 hover:bg-black/5 dark:hover:bg-white/5"
+                onClick={(e) => e.stopPropagation()}
+                title="Session actions"
+              >
+                <MoreHorizontal className="h-3.5 w-3.5" />
+              </button>
+            }
+          />
+          <DropdownMenuContent align="start">
+            {isImported ? (
+              <>
+                <DropdownMenuItem
+                  onClick={() => {
+                    stopReplay(session.sessionId);
+                    startReplay(session.sessionId);
+                  }}
+                >
+                  Replay from start
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => removeImportedSession(session.sessionId)}
+                >
+                  Remove imported session
+                </DropdownMenuItem>
+              </>
+            ) : (
+              <DropdownMenuItem onClick={handleCompact} disabled={isCompacting}>
+                {isCompacting ? 'Compacting...' : 'Compact conversation'}
+              </DropdownMenuItem>
+            )}
+            <SessionExportMenu session={session} workspace={workspace} />
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
     </div>
   );
 };
@@ -578,11 +762,21 @@ WorkspacePanel.WorkspaceInfo = function WorkspaceInfo() {
 
 WorkspacePanel.Messages = function Messages() {
   const { messages, selectedSessionId } = useWorkspaceContext();
-
-  // Refs for auto-scroll functionality
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const prevMessagesLengthRef = useRef(0);
-  const prevSessionIdRef = useRef<string | null>(null);
+  const bashOutputs = useStore((state) =>
+    selectedSessionId
+      ? state.bashOutputsBySession[selectedSessionId] || EMPTY_BASH_OUTPUTS
+      : EMPTY_BASH_OUTPUTS,
+  );
+  const streamingMessage = useStore((state) =>
+    selectedSessionId
+      ? state.streamingMessageBySession[selectedSessionId]
+      : undefined,
+  );
+  const messageFocusRequest = useStore((state) => state.messageFocusRequest);
+  const clearMessageFocusRequest = useStore(
+    (state) => state.clearMessageFocusRequest,
+  );
+  const [highlightedKey, setHighlightedKey] = useState<string | null>(null);
 
   // Split messages into completed and pending sections
   const { completedMessages, pendingMessages } = useMemo(
@@ -590,50 +784,125 @@ WorkspacePanel.Messages = function Messages() {
     [messages],
   );
 
-  // Auto-scroll logic: scroll to bottom when messages change or session switches
-  useEffect(() => {
-    const container = messagesEndRef.current;
-    if (!container) return;
-
-    const { scrollTop, scrollHeight, clientHeight } = container;
-    const distanceFromBottom = scrollHeight - scrollTop - clientHeight;
-    const isNearBottom = distanceFromBottom < 300; // 300px threshold
-    const isFirstLoad =
-      prevMessagesLengthRef.current === 0 && messages.length > 0;
-    const isSessionSwitch = prevSessionIdRef.current !== selectedSessionId;
-
-    if (isNearBottom || isFirstLoad || isSessionSwitch) {
-      container.scrollTo({ top: scrollHeight, behavior: 'instant' });
+  // Tool results looked up by tool_use id instead of scanning later messages
+  const toolResults = useMemo(() => buildToolResultIndex(messages), [messages]);
+
+  // Bash outputs are shown after the message that preceded them
+  const bashOutputsByMessage = useMemo(
+    () => groupBashOutputsByMessage(messages, bashOutputs),
+    [messages, bashOutputs],
+  );
+
+  // One row per message with the bash outputs that follow it
+  const rows = useMemo(() => {
+    const rows: MessageRow[] = [];
+    if (bashOutputsByMessage['']) {
+      rows.push({ key: '', message: null, isPending: false });
+    }
+    for (const message of completedMessages) {
+      rows.push({ key: message.uuid, message, isPending: false });
+    }
+    for (const message of pendingMessages) {
+      rows.push({ key: message.uuid, message, isPending: true });
     }
+    if (streamingMessage) {
+      rows.push({
+        key: streamingMessage.uuid,
+        message: streamingMessage,
+        isPending: true,
+      });
+    }
+    return rows;
+  }, [
+    completedMessages,
+    pendingMessages,
+    streamingMessage,
+    bashOutputsByMessage,
+  ]);
+
+  const rowKeys = useMemo(() => rows.map((row) => row.key), [rows]);
+
+  // Keep following new messages while within 300px of the bottom
+  const {
+    scrollRef,
+    onScroll,
+    measureRow,
+    scrollToKey,
+    start,
+    end,
+    paddingTop,
+    paddingBottom,
+  } = useVirtualList({
+    keys: rowKeys,
+    estimatedHeight: 80,
+    stickToBottomThreshold: 300,
+    resetKey: selectedSessionId,
+  });
+
+  // Jump to a requested message once the session's messages have loaded
+  useEffect(() => {
+    if (messageFocusRequest?.sessionId !== selectedSessionId) return;
+    if (!scrollToKey(messageFocusRequest.messageUuid)) return;
+    setHighlightedKey(messageFocusRequest.messageUuid);
+    clearMessageFocusRequest();
+  }, [
+    messageFocusRequest,
+    selectedSessionId,
+    scrollToKey,
+    clearMessageFocusRequest,
+  ]);
 
-    prevMessagesLengthRef.current = messages.length;
-    prevSessionIdRef.current = selectedSessionId;
-  }, [messages, selectedSessionId]);
+  useEffect(() => {
+    if (!highlightedKey) return;
+    const timer = setTimeout(() => setHighlightedKey(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedKey]);
+
+  const renderBashOutputs = (messageUuid: string) =>
+    selectedSessionId &&
+    bashOutputsByMessage[messageUuid]?.map((output) => (
+      <BashOutputCard
+        key={output.id}
+        sessionId={selectedSessionId}
+        output={output}
+      />
+    ));
 
   return (
-    <div ref={messagesEndRef} className="flex-1 overflow-y-auto p-4">
-      {messages.length === 0 ? (
+    <div
+      ref={scrollRef}
+      onScroll={onScroll}
+      className="flex-1 overflow-y-auto p-4"
+      style={{ overflowAnchor: 'none' }}
+    >
+      {rows.length === 0 ? (
         <div className="text-center mt-8" style={{ color: '#999' }}>
           No messages yet. Start a conversation!
         </div>
       ) : (
-        <div>
-          {/* Completed messages (memoized to prevent re-renders) */}
-          {completedMessages.map((message) => (
-            <MemoizedMessage
-              key={message.uuid}
-              message={message}
-              allMessages={messages}
-            />
-          ))}
-
-          {/* Pending messages (dynamic updates) */}
-          {pendingMessages.map((message) => (
-            <Message
-              key={message.uuid}
-              message={message}
-              allMessages={messages}
-            />
+        <div style={{ paddingTop, paddingBottom }}>
+          {rows.slice(start, end).map((row) => (
+            <div
+              key={row.key}
+              ref={measureRow}
+              data-virtual-key={row.key}
+              // Keeps margins inside the row so its measured height is exact
+              className={`flow-root rounded-lg transition-colors duration-500 ${
+                row.key === highlightedKey ? 'bg-accent' : ''
+              }`}
+            >
+              {/* Completed messages are memoized, pending ones update */}
+              {row.message &&
+                (row.isPending ? (
+                  <Message message={row.message} toolResults={toolResults} />
+                ) : (
+                  <MemoizedMessage
+                    message={row.message}
+                    toolResults={toolResults}
+                  />
+                ))}
+              {renderBashOutputs(row.key)}
+            </div>
           ))}
         </div>
       )}
@@ -641,16 +910,50 @@ WorkspacePanel.Messages = function Messages() {
   );
 };
 
+interface MessageRow {
+  // Message uuid, empty for bash outputs sent before any message
+  key: string;
+  message: NormalizedMessage | null;
+  isPending: boolean;
+}
+
+// Stable fallback so the selector does not return a new array every render
+const EMPTY_BASH_OUTPUTS: BashOutput[] = [];
+
+/**
+ * Group bash outputs by the uuid of the last message sent before them,
+ * outputs that precede every message are keyed by an empty string
+ */
+function groupBashOutputsByMessage(
+  messages: NormalizedMessage[],
+  outputs: BashOutput[],
+): Record<string, BashOutput[]> {
+  const groups: Record<string, BashOutput[]> = {};
+  for (const output of outputs) {
+    const outputTime = new Date(output.timestamp).getTime();
+    let anchor = '';
+    for (const message of messages) {
+      if (new Date(message.timestamp).getTime() > outputTime) break;
+      anchor = message.uuid;
+    }
+    if (!groups[anchor]) {
+      groups[anchor] = [];
+    }
+    groups[anchor].push(output);
+  }
+  return groups;
+}
+
 // Memoized message component to prevent re-renders of completed messages
 const MemoizedMessage = memo(
   ({
     message,
-    allMessages,
+    toolResults,
   }: {
     message: NormalizedMessage;
-    allMessages: NormalizedMessage[];
+    toolResults: ToolResultIndex;
   }) => {
-    return <Message message={message} allMessages={allMessages} />;
+    return <Message message={message} toolResults={toolResults} />;
   },
   (prevProps, nextProps) => {
     // Only re-render if the message UUID changes (which shouldn't happen)
@@ -3,6 +3,7 @@ export { WorkspacePanel } from './WorkspacePanel';
 export { WorkspaceChanges } from './WorkspaceChanges';
 export { Terminal } from './Terminal';
 export { MainLayout } from './MainLayout';
+export { SearchPalette } from './SearchPalette';
 
 // Enhanced ChatInput with full feature set
 export {
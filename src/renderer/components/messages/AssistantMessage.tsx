@@ -3,17 +3,18 @@ import Markdown from 'marked-react';
 import { HugeiconsIcon } from '@hugeicons/react';
 import { BrainIcon } from '@hugeicons/core-free-icons';
 import type { NormalizedMessage } from '../../client/types/message';
+import type { ToolResultIndex } from './types';
 import {
   extractTextParts,
   extractReasoningParts,
-  extractToolUseParts,
   pairToolsWithResults,
 } from './messageHelpers';
 import { ToolMessage } from './ToolMessage';
 
 interface AssistantMessageProps {
   message: NormalizedMessage;
-  allMessages: NormalizedMessage[];
+  toolResults: ToolResultIndex;
+  showToolInputs?: boolean;
 }
 
 /**
@@ -22,24 +23,16 @@ interface AssistantMessageProps {
  */
 export function AssistantMessage({
   message,
-  allMessages,
+  toolResults,
+  showToolInputs,
 }: AssistantMessageProps) {
   const textParts = extractTextParts(message);
   const reasoningParts = extractReasoningParts(message);
-  const toolUseParts = extractToolUseParts(message);
-
-  // Get subsequent messages for tool pairing
-  const messageIndex = allMessages.findIndex((m) => m.uuid === message.uuid);
-  const subsequentMessages =
-    messageIndex >= 0 ? allMessages.slice(messageIndex + 1) : [];
 
   // Pair tools with results
   const toolPairs = useMemo(
-    () =>
-      toolUseParts.length > 0
-        ? pairToolsWithResults(message, subsequentMessages)
-        : [],
-    [message, subsequentMessages, toolUseParts.length],
+    () => pairToolsWithResults(message, toolResults),
+    [message, toolResults],
   );
 
   return (
@@ -125,6 +118,7 @@ export function AssistantMessage({
               <ToolMessage
                 key={`tool-${pair.toolUse.id}-${index}`}
                 pair={pair}
+                showInput={showToolInputs}
               />
             ))}
           </div>
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { HugeiconsIcon } from '@hugeicons/react';
+import {
+  ComputerTerminal01Icon,
+  ArrowDown01Icon,
+  ArrowUp01Icon,
+} from '@hugeicons/core-free-icons';
+import { useStore, type BashOutput } from '../../store';
+import { Spinner } from '../ui/spinner';
+
+interface BashOutputCardProps {
+  sessionId: string;
+  output: BashOutput;
+}
+
+/**
+ * BashOutputCard component
+ * Collapsible card with the output of a bash-mode (!) command
+ */
+export function BashOutputCard({ sessionId, output }: BashOutputCardProps) {
+  const [expanded, setExpanded] = useState(true);
+  const toggleBashOutputAttached = useStore(
+    (state) => state.toggleBashOutputAttached,
+  );
+
+  const isRunning = output.status === 'running';
+  const isError = output.status === 'error';
+  const accentColor = isError ? '#ef4444' : '#10b981';
+
+  return (
+    <div
+      className="mb-3 rounded-lg overflow-hidden text-sm"
+      style={{
+        border: `1px solid ${isError ? '#ef4444' : 'var(--border-subtle)'}`,
+        backgroundColor: isError
+          ? 'rgba(239, 68, 68, 0.05)'
+          : 'var(--bg-surface)',
+      }}
+    >
+      <div
+        className="flex items-center gap-2 px-3 py-2 cursor-pointer"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {isRunning ? (
+          <Spinner className="size-3.5" />
+        ) : (
+          <HugeiconsIcon
+            icon={ComputerTerminal01Icon}
+            size={14}
+            color={accentColor}
+          />
+        )}
+        <code
+          className="flex-1 truncate font-mono text-xs"
+          style={{ color: 'var(--text-primary)' }}
+        >
+          $ {output.command}
+        </code>
+        {!isRunning && (
+          <span className="text-xs" style={{ color: accentColor }}>
+            exit {output.exitCode ?? 'unknown'}
+          </span>
+        )}
+        {!isRunning && (
+          <label
+            className="flex items-center gap-1 text-xs cursor-pointer"
+            style={{ color: 'var(--text-secondary)' }}
+            onClick={(e) => e.stopPropagation()}
+            title="Send this output as context with the next prompt"
+          >
+            <input
+              type="checkbox"
+              checked={output.attached}
+              onChange={() => toggleBashOutputAttached(sessionId, output.id)}
+            />
+            Attach to next prompt
+          </label>
+        )}
+        <HugeiconsIcon
+          icon={expanded ? ArrowUp01Icon : ArrowDown01Icon}
+          size={14}
+          style={{ color: 'var(--text-tertiary)' }}
+        />
+      </div>
+      {expanded && !isRunning && (
+        <pre
+          className="px-3 py-2 text-xs font-mono overflow-auto"
+          style={{
+            maxHeight: '320px',
+            borderTop: '1px solid var(--border-subtle)',
+            color: isError ? '#ef4444' : 'var(--text-primary)',
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word',
+          }}
+        >
+          {output.output || '(no output)'}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -1,57 +1,431 @@
-import { useMemo } from 'react';
-import { createTwoFilesPatch } from 'diff';
+import {
+  Fragment,
+  useMemo,
+  useState,
+  type CSSProperties,
+  type ReactNode,
+} from 'react';
+import {
+  diffWordsWithSpace,
+  structuredPatch,
+  type StructuredPatchHunk,
+} from 'diff';
+import {
+  getLanguage,
+  highlightLine,
+  type SyntaxTokenType,
+} from '../../lib/syntaxHighlight';
 import type { DiffViewerProps } from './types';
 
+const DEFAULT_CONTEXT_LINES = 3;
+
+// Word diffs of very long lines cost more than they help
+const MAX_WORD_DIFF_LENGTH = 1000;
+
 /**
  * Parse diff output into structured lines
  */
 interface DiffLine {
-  type: 'add' | 'remove' | 'context' | 'header';
+  type: 'add' | 'remove' | 'context';
   content: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+  // Character ranges that differ from the paired line on the other side
+  emphasis: [number, number][];
 }
 
-function parseDiff(diff: string): DiffLine[] {
-  const lines = diff.split('\n');
-  const result: DiffLine[] = [];
+// A hunk from the patch, or the unchanged lines between two hunks
+type DiffBlock =
+  | { kind: 'hunk'; hunk: StructuredPatchHunk; lines: DiffLine[] }
+  | { kind: 'gap'; id: number; lines: DiffLine[] };
+
+interface SplitRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+const TOKEN_COLORS: Record<SyntaxTokenType, string | undefined> = {
+  keyword: '#8b5cf6',
+  string: '#d97706',
+  comment: 'var(--text-tertiary)',
+  number: '#0ea5e9',
+  plain: undefined,
+};
+
+const LINE_BACKGROUNDS: Record<DiffLine['type'], string> = {
+  add: 'rgba(34, 197, 94, 0.1)',
+  remove: 'rgba(239, 68, 68, 0.1)',
+  context: 'transparent',
+};
+
+const EMPHASIS_BACKGROUNDS: Record<DiffLine['type'], string | undefined> = {
+  add: 'rgba(34, 197, 94, 0.3)',
+  remove: 'rgba(239, 68, 68, 0.3)',
+  context: undefined,
+};
+
+const LINE_PREFIXES: Record<DiffLine['type'], string> = {
+  add: '+',
+  remove: '-',
+  context: ' ',
+};
+
+function splitLines(content: string): string[] {
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Mark the words that differ between a removed line and the added line
+ * that replaced it
+ */
+function addWordEmphasis(removed: DiffLine, added: DiffLine) {
+  if (removed.content.length + added.content.length > MAX_WORD_DIFF_LENGTH) {
+    return;
+  }
+
+  const parts = diffWordsWithSpace(removed.content, added.content);
+  // Rewritten lines read better without highlighting every word
+  if (
+    !parts.some((part) => !part.added && !part.removed && part.value.trim())
+  ) {
+    return;
+  }
+
+  let oldOffset = 0;
+  let newOffset = 0;
+  for (const part of parts) {
+    const length = part.value.length;
+    if (part.removed) {
+      removed.emphasis.push([oldOffset, oldOffset + length]);
+      oldOffset += length;
+    } else if (part.added) {
+      added.emphasis.push([newOffset, newOffset + length]);
+      newOffset += length;
+    } else {
+      oldOffset += length;
+      newOffset += length;
+    }
+  }
+}
+
+/**
+ * Group consecutive removed and added lines into change blocks, pairing
+ * the n-th removal with the n-th addition
+ */
+function pairChanges(
+  lines: DiffLine[],
+): { removed: DiffLine[]; added: DiffLine[] }[] {
+  const blocks: { removed: DiffLine[]; added: DiffLine[] }[] = [];
+  let current: { removed: DiffLine[]; added: DiffLine[] } | null = null;
 
   for (const line of lines) {
-    if (line.startsWith('+++') || line.startsWith('---')) {
-      result.push({ type: 'header', content: line });
-    } else if (line.startsWith('+')) {
-      result.push({ type: 'add', content: line });
-    } else if (line.startsWith('-')) {
-      result.push({ type: 'remove', content: line });
-    } else if (line.startsWith('@@')) {
-      // Skip hunk headers for simplified view
+    if (line.type === 'context') {
+      current = null;
       continue;
-    } else {
-      // result.push({ type: 'context', content: line });
     }
+    // A removal after additions starts a new change block
+    if (!current || (line.type === 'remove' && current.added.length > 0)) {
+      current = { removed: [], added: [] };
+      blocks.push(current);
+    }
+    (line.type === 'remove' ? current.removed : current.added).push(line);
+  }
+
+  return blocks;
+}
+
+/**
+ * Turn patch hunks into numbered lines, with the unchanged lines between
+ * them as collapsible gaps
+ */
+function parseDiff(
+  originalContent: string,
+  hunks: StructuredPatchHunk[],
+): DiffBlock[] {
+  const oldLines = splitLines(originalContent);
+  const blocks: DiffBlock[] = [];
+  let nextOldLine = 1;
+  let lineOffset = 0;
+
+  const pushGap = (from: number, to: number) => {
+    const lines = oldLines.slice(from - 1, to);
+    // Patches without the file around them have no gaps to show
+    if (lines.length === 0) return;
+    blocks.push({
+      kind: 'gap',
+      id: from,
+      lines: lines.map((content, index) => ({
+        type: 'context',
+        content,
+        oldNumber: from + index,
+        newNumber: from + index + lineOffset,
+        emphasis: [],
+      })),
+    });
+  };
+
+  for (const hunk of hunks) {
+    pushGap(nextOldLine, hunk.oldStart - 1);
+
+    const lines: DiffLine[] = [];
+    let oldNumber = hunk.oldStart;
+    let newNumber = hunk.newStart;
+    for (const line of hunk.lines) {
+      const content = line.slice(1);
+      if (line.startsWith('+')) {
+        lines.push({
+          type: 'add',
+          content,
+          oldNumber: null,
+          newNumber: newNumber++,
+          emphasis: [],
+        });
+      } else if (line.startsWith('-')) {
+        lines.push({
+          type: 'remove',
+          content,
+          oldNumber: oldNumber++,
+          newNumber: null,
+          emphasis: [],
+        });
+      } else if (line.startsWith(' ')) {
+        lines.push({
+          type: 'context',
+          content,
+          oldNumber: oldNumber++,
+          newNumber: newNumber++,
+          emphasis: [],
+        });
+      }
+      // "\ No newline at end of file" markers are not shown
+    }
+
+    for (const { removed, added } of pairChanges(lines)) {
+      for (let i = 0; i < Math.min(removed.length, added.length); i++) {
+        addWordEmphasis(removed[i], added[i]);
+      }
+    }
+
+    blocks.push({ kind: 'hunk', hunk, lines });
+    nextOldLine = hunk.oldStart + hunk.oldLines;
+    lineOffset =
+      hunk.newStart + hunk.newLines - (hunk.oldStart + hunk.oldLines);
+  }
+
+  // Nothing changed means there is nothing worth showing
+  if (hunks.length > 0) {
+    pushGap(nextOldLine, oldLines.length);
   }
 
-  return result;
+  return blocks;
+}
+
+/**
+ * Lay out lines side by side, change blocks fill both columns
+ */
+function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  const changes = pairChanges(lines);
+  let changeIndex = 0;
+
+  for (let i = 0; i < lines.length; ) {
+    const line = lines[i];
+    if (line.type === 'context') {
+      rows.push({ left: line, right: line });
+      i += 1;
+      continue;
+    }
+
+    const { removed, added } = changes[changeIndex++];
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] || null, right: added[k] || null });
+    }
+    i += removed.length + added.length;
+  }
+
+  return rows;
+}
+
+/**
+ * Render a line's text with syntax colors and changed words highlighted
+ */
+function renderContent(line: DiffLine, language: string | null): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let position = 0;
+
+  for (const token of highlightLine(line.content, language)) {
+    const end = position + token.text.length;
+    // Split the token wherever an emphasized range starts or ends
+    const cuts = new Set([position, end]);
+    for (const [from, to] of line.emphasis) {
+      if (from > position && from < end) cuts.add(from);
+      if (to > position && to < end) cuts.add(to);
+    }
+    const points = [...cuts].sort((a, b) => a - b);
+
+    for (let i = 0; i < points.length - 1; i++) {
+      const [from, to] = [points[i], points[i + 1]];
+      const isEmphasized = line.emphasis.some(
+        ([start, stop]) => start <= from && to <= stop,
+      );
+      nodes.push(
+        <span
+          key={from}
+          style={{
+            color: TOKEN_COLORS[token.type],
+            backgroundColor: isEmphasized
+              ? EMPHASIS_BACKGROUNDS[line.type]
+              : undefined,
+          }}
+        >
+          {line.content.slice(from, to)}
+        </span>,
+      );
+    }
+    position = end;
+  }
+
+  return nodes;
+}
+
+const gutterStyle: CSSProperties = {
+  width: '3.5em',
+  flexShrink: 0,
+  textAlign: 'right',
+  paddingRight: '8px',
+  color: 'var(--text-tertiary)',
+  userSelect: 'none',
+};
+
+const prefixStyle: CSSProperties = {
+  width: '1.25em',
+  flexShrink: 0,
+  userSelect: 'none',
+};
+
+function LineNumber({ value }: { value: number | null }) {
+  return <span style={gutterStyle}>{value ?? ''}</span>;
+}
+
+function LineCells({
+  line,
+  language,
+  oldNumber,
+  newNumber,
+}: {
+  line: DiffLine | null;
+  language: string | null;
+  // Each gutter is only drawn when its number is passed, even as null
+  oldNumber?: number | null;
+  newNumber?: number | null;
+}) {
+  return (
+    <div
+      className="flex flex-1 min-w-0"
+      style={{
+        backgroundColor: line ? LINE_BACKGROUNDS[line.type] : 'transparent',
+      }}
+    >
+      {oldNumber !== undefined && <LineNumber value={oldNumber} />}
+      {newNumber !== undefined && <LineNumber value={newNumber} />}
+      <span
+        style={{
+          ...prefixStyle,
+          color:
+            line?.type === 'add'
+              ? '#22c55e'
+              : line?.type === 'remove'
+                ? '#ef4444'
+                : undefined,
+        }}
+      >
+        {line ? LINE_PREFIXES[line.type] : ''}
+      </span>
+      <span
+        className="flex-1 min-w-0"
+        style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}
+      >
+        {line && renderContent(line, language)}
+      </span>
+    </div>
+  );
 }
 
 /**
  * DiffViewer component
- * Displays file differences in a simple, color-coded format
+ * Displays file differences with hunk headers, line numbers, syntax and
+ * word-level highlighting, in a unified or side-by-side layout
  */
 export function DiffViewer({
   originalContent,
   newContent,
   filePath,
+  hunks,
+  contextLines = DEFAULT_CONTEXT_LINES,
+  defaultView = 'unified',
+  renderHunkActions,
 }: DiffViewerProps) {
-  const diffLines = useMemo(() => {
-    const patch = createTwoFilesPatch(
+  const [view, setView] = useState(defaultView);
+  const [expandedGaps, setExpandedGaps] = useState<Set<number>>(
+    () => new Set(),
+  );
+
+  const language = useMemo(() => getLanguage(filePath), [filePath]);
+
+  const blocks = useMemo(() => {
+    if (hunks) {
+      return parseDiff(originalContent, hunks);
+    }
+    const patch = structuredPatch(
       filePath,
       filePath,
       originalContent,
       newContent,
       'Original',
       'Modified',
+      { context: contextLines },
     );
-    return parseDiff(patch);
-  }, [originalContent, newContent, filePath]);
+    return parseDiff(originalContent, patch.hunks);
+  }, [originalContent, newContent, filePath, hunks, contextLines]);
+
+  const expandGap = (id: number) => {
+    setExpandedGaps((prev) => new Set(prev).add(id));
+  };
+
+  const renderLines = (lines: DiffLine[]) =>
+    view === 'split'
+      ? toSplitRows(lines).map((row) => (
+          <div
+            key={`${row.left?.oldNumber}-${row.right?.newNumber}`}
+            className="flex"
+          >
+            <LineCells
+              line={row.left}
+              language={language}
+              oldNumber={row.left?.oldNumber ?? null}
+            />
+            <div
+              style={{ width: '1px', backgroundColor: 'var(--border-subtle)' }}
+            />
+            <LineCells
+              line={row.right}
+              language={language}
+              newNumber={row.right?.newNumber ?? null}
+            />
+          </div>
+        ))
+      : lines.map((line) => (
+          <div key={`${line.oldNumber}-${line.newNumber}`} className="flex">
+            <LineCells
+              line={line}
+              language={language}
+              oldNumber={line.oldNumber}
+              newNumber={line.newNumber}
+            />
+          </div>
+        ));
 
   return (
     <div
@@ -69,6 +443,7 @@ export function DiffViewer({
       }}
     >
       <div
+        className="flex items-center gap-2"
         style={{
           color: 'var(--text-secondary)',
           marginBottom: '8px',
@@ -76,35 +451,72 @@ export function DiffViewer({
           fontWeight: 500,
         }}
       >
-        {filePath}
+        <span className="flex-1 truncate">{filePath}</span>
+        {(['unified', 'split'] as const).map((mode) => (
+          <button
+            key={mode}
+            type="button"
+            className="px-1.5 rounded capitalize"
+            style={{
+              fontWeight: 400,
+              backgroundColor: view === mode ? 'var(--bg-base)' : 'transparent',
+              color:
+                view === mode ? 'var(--text-primary)' : 'var(--text-tertiary)',
+            }}
+            onClick={() => setView(mode)}
+          >
+            {mode}
+          </button>
+        ))}
       </div>
-      {diffLines.map((line, index) => {
-        let color = 'var(--text-primary)';
-        let backgroundColor = 'transparent';
-
-        if (line.type === 'add') {
-          color = '#22c55e';
-          backgroundColor = 'rgba(34, 197, 94, 0.1)';
-        } else if (line.type === 'remove') {
-          color = '#ef4444';
-          backgroundColor = 'rgba(239, 68, 68, 0.1)';
-        } else if (line.type === 'header') {
-          color = 'var(--text-secondary)';
-          return null; // Skip header lines for simplified view
+      {blocks.length === 0 && (
+        <div style={{ color: 'var(--text-tertiary)' }}>No changes</div>
+      )}
+      {blocks.map((block) => {
+        if (block.kind === 'gap') {
+          if (expandedGaps.has(block.id)) {
+            return (
+              <Fragment key={`gap-${block.id}`}>
+                {renderLines(block.lines)}
+              </Fragment>
+            );
+          }
+          return (
+            <button
+              key={`gap-${block.id}`}
+              type="button"
+              className="block w-full text-left hover:opacity-70"
+              style={{
+                color: 'var(--text-tertiary)',
+                padding: '2px 4px',
+                fontSize: '12px',
+              }}
+              onClick={() => expandGap(block.id)}
+            >
+              ⋯ {block.lines.length} unchanged line
+              {block.lines.length === 1 ? '' : 's'}
+            </button>
+          );
         }
 
+        const { hunk } = block;
         return (
-          <div
-            key={index}
-            style={{
-              color,
-              backgroundColor,
-              padding: '2px 4px',
-              // whiteSpace: 'pre',
-            }}
-          >
-            {line.content}
-          </div>
+          <Fragment key={`hunk-${hunk.oldStart}-${hunk.newStart}`}>
+            <div
+              className="flex items-center gap-2"
+              style={{
+                color: 'var(--text-secondary)',
+                backgroundColor: 'rgba(59, 130, 246, 0.08)',
+                padding: '2px 4px',
+              }}
+            >
+              <span className="flex-1 truncate">
+                {`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`}
+              </span>
+              {renderHunkActions?.(hunk)}
+            </div>
+            {renderLines(block.lines)}
+          </Fragment>
         );
       })}
     </div>
@@ -1,6 +1,12 @@
-import { Component, type ReactNode } from 'react';
+import { Component, useState, type ReactNode } from 'react';
+import type { NormalizedMessage } from '../../client/types/message';
 import type { MessageRenderProps } from './types';
-import { shouldHideMessage, isToolResultMessage } from './messageHelpers';
+import {
+  shouldHideMessage,
+  isToolResultMessage,
+  isCompactMessage,
+  getMessageText,
+} from './messageHelpers';
 import { UserMessage } from './UserMessage';
 import { AssistantMessage } from './AssistantMessage';
 
@@ -70,12 +76,21 @@ class MessageErrorBoundary extends Component<
  * Message component (Router)
  * Routes messages to appropriate rendering components based on role and content type
  */
-export function Message({ message, allMessages }: MessageRenderProps) {
+export function Message({
+  message,
+  toolResults,
+  showToolInputs,
+}: MessageRenderProps) {
   // Check if message should be hidden
   if (shouldHideMessage(message)) {
     return null;
   }
 
+  // Compaction summaries mark where older history was summarized
+  if (isCompactMessage(message)) {
+    return <CompactDivider message={message} />;
+  }
+
   // Hide tool result messages since they're paired with assistant messages
   if (isToolResultMessage(message)) {
     return null;
@@ -85,7 +100,11 @@ export function Message({ message, allMessages }: MessageRenderProps) {
     <MessageErrorBoundary message={message}>
       {message.role === 'user' && <UserMessage message={message} />}
       {message.role === 'assistant' && (
-        <AssistantMessage message={message} allMessages={allMessages} />
+        <AssistantMessage
+          message={message}
+          toolResults={toolResults}
+          showToolInputs={showToolInputs}
+        />
       )}
       {message.role === 'system' && <SystemMessage message={message} />}
     </MessageErrorBoundary>
@@ -122,3 +141,51 @@ function SystemMessage({ message }: { message: any }) {
     </div>
   );
 }
+
+/**
+ * CompactDivider component
+ * Marks where older history was summarized, with the summary on demand
+ */
+function CompactDivider({ message }: { message: NormalizedMessage }) {
+  const [expanded, setExpanded] = useState(false);
+  const summary = getMessageText(message);
+
+  return (
+    <div className="my-4">
+      <div
+        className="flex items-center gap-3 text-xs"
+        style={{ color: 'var(--text-tertiary)' }}
+      >
+        <div
+          className="flex-1"
+          style={{ borderTop: '1px dashed var(--border-subtle)' }}
+        />
+        <button
+          type="button"
+          className="hover:underline"
+          onClick={() => setExpanded(!expanded)}
+        >
+          Earlier history summarized {expanded ? '(hide)' : '(show summary)'}
+        </button>
+        <div
+          className="flex-1"
+          style={{ borderTop: '1px dashed var(--border-subtle)' }}
+        />
+      </div>
+      {expanded && (
+        <div
+          className="mt-2 text-xs whitespace-pre-wrap"
+          style={{
+            backgroundColor: 'var(--bg-surface)',
+            border: '1px solid var(--border-subtle)',
+            borderRadius: '8px',
+            padding: '8px 12px',
+            color: 'var(--text-secondary)',
+          }}
+        >
+          {summary}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -13,13 +13,21 @@ import {
   CodeIcon,
   PlusSignIcon,
 } from '@hugeicons/core-free-icons';
+import type { StructuredPatchHunk } from 'diff';
 import type { ToolPair } from './types';
 import { DiffViewer } from './DiffViewer';
 import { TodoList } from './TodoList';
-import type { TodoItemProps } from './TodoItem';
+import {
+  getDiffContents,
+  getResultDiffHunks,
+  getTodoItems,
+  getToolResultText,
+} from './messageHelpers';
 
 interface ToolMessageProps {
   pair: ToolPair;
+  // Show the call's input as JSON under the header
+  showInput?: boolean;
 }
 
 /**
@@ -64,22 +72,6 @@ function getToolIcon(toolName: string) {
   return iconMap[toolName] || PlusSignIcon;
 }
 
-/**
- * Extract content value handling both string and inputKey reference formats
- */
-function extractValue(
-  value: any,
-  input: Record<string, any>,
-): string | undefined {
-  if (typeof value === 'string') {
-    return value;
-  }
-  if (value && typeof value === 'object' && 'inputKey' in value) {
-    return input[value.inputKey];
-  }
-  return undefined;
-}
-
 /**
  * Calculate diff stats (additions and deletions) between two strings
  */
@@ -112,16 +104,40 @@ function calculateDiffStats(
   return { additions, deletions };
 }
 
+/**
+ * Count the added and removed lines of patch hunks
+ */
+function countHunkChanges(hunks: StructuredPatchHunk[]): {
+  additions: number;
+  deletions: number;
+} {
+  let additions = 0;
+  let deletions = 0;
+  for (const hunk of hunks) {
+    for (const line of hunk.lines) {
+      if (line.startsWith('+')) additions++;
+      else if (line.startsWith('-')) deletions++;
+    }
+  }
+  return { additions, deletions };
+}
+
 /**
  * ToolMessage component
  * Renders a tool use paired with its result (if available)
  */
-export function ToolMessage({ pair }: ToolMessageProps) {
+export function ToolMessage({ pair, showInput }: ToolMessageProps) {
   const { toolUse, toolResult } = pair;
 
   // Get display name or fallback to tool name
   const displayName = toolUse.displayName || toolUse.name;
   const toolIcon = getToolIcon(toolUse.name);
+  const diffContents = getDiffContents(toolUse.input);
+  // The reported patch has real line numbers, the input only has snippets
+  const diffHunks =
+    toolResult && !toolResult.result.isError
+      ? getResultDiffHunks(toolResult.result)
+      : null;
 
   return (
     <div style={{}}>
@@ -167,20 +183,12 @@ export function ToolMessage({ pair }: ToolMessageProps) {
           typeof toolResult.result.returnDisplay === 'object' &&
           toolResult.result.returnDisplay.type === 'diff_viewer' &&
           (() => {
-            const originalContent =
-              extractValue(
-                toolUse.input.old_string || toolUse.input.originalContent,
-                toolUse.input,
-              ) || '';
-            const newContent =
-              extractValue(
-                toolUse.input.new_string || toolUse.input.content,
-                toolUse.input,
-              ) || '';
-            const { additions, deletions } = calculateDiffStats(
-              originalContent,
-              newContent,
-            );
+            const { additions, deletions } = diffHunks
+              ? countHunkChanges(diffHunks)
+              : calculateDiffStats(
+                  diffContents.originalContent,
+                  diffContents.newContent,
+                );
             return (
               <span style={{ marginLeft: '8px', fontSize: '13px' }}>
                 <span style={{ color: '#22c55e', fontWeight: 500 }}>
@@ -212,6 +220,25 @@ export function ToolMessage({ pair }: ToolMessageProps) {
         )}
       </div>
 
+      {/* Tool input */}
+      {showInput && (
+        <pre
+          style={{
+            fontSize: '12px',
+            color: 'var(--text-secondary)',
+            whiteSpace: 'pre-wrap',
+            fontFamily: 'monospace',
+            backgroundColor: 'var(--bg-surface)',
+            border: '1px solid var(--border-subtle)',
+            borderRadius: '4px',
+            padding: '8px',
+            margin: '0 0 8px 16px',
+          }}
+        >
+          {JSON.stringify(toolUse.input, null, 2)}
+        </pre>
+      )}
+
       {/* Tool result */}
       {toolResult && (
         <div style={{ paddingLeft: '16px' }}>
@@ -227,7 +254,7 @@ export function ToolMessage({ pair }: ToolMessageProps) {
                 fontFamily: 'monospace',
               }}
             >
-              Error: {getResultText(toolResult.result)}
+              Error: {getToolResultText(toolResult.result)}
             </div>
           )}
 
@@ -235,25 +262,17 @@ export function ToolMessage({ pair }: ToolMessageProps) {
           {!toolResult.result.isError &&
             toolResult.result.returnDisplay &&
             typeof toolResult.result.returnDisplay === 'object' &&
-            toolResult.result.returnDisplay.type === 'diff_viewer' && (
+            toolResult.result.returnDisplay.type === 'diff_viewer' &&
+            (diffHunks ? (
               <DiffViewer
-                originalContent={
-                  extractValue(
-                    toolUse.input.old_string || toolUse.input.originalContent,
-                    toolUse.input,
-                  ) || ''
-                }
-                newContent={
-                  extractValue(
-                    toolUse.input.new_string || toolUse.input.content,
-                    toolUse.input,
-                  ) || ''
-                }
-                filePath={
-                  toolUse.input.file_path || toolUse.input.filePath || 'file'
-                }
+                originalContent=""
+                newContent=""
+                filePath={diffContents.filePath}
+                hunks={diffHunks}
               />
-            )}
+            ) : (
+              <DiffViewer {...diffContents} />
+            ))}
 
           {/* Todo displays */}
           {!toolResult.result.isError &&
@@ -261,17 +280,7 @@ export function ToolMessage({ pair }: ToolMessageProps) {
             typeof toolResult.result.returnDisplay === 'object' &&
             (toolResult.result.returnDisplay.type === 'todo_read' ||
               toolResult.result.returnDisplay.type === 'todo_write') && (
-              <TodoList
-                todos={toolUse.input.todos.map(
-                  (todo: any): TodoItemProps => ({
-                    id: todo.id,
-                    content: todo.content || todo.text,
-                    status:
-                      todo.status || (todo.completed ? 'completed' : 'pending'),
-                    priority: todo.priority || 'medium',
-                  }),
-                )}
-              />
+              <TodoList todos={getTodoItems(toolUse.input)} />
             )}
 
           {/* Default text result */}
@@ -289,7 +298,7 @@ export function ToolMessage({ pair }: ToolMessageProps) {
                   borderRadius: '4px',
                 }}
               >
-                {getResultText(toolResult.result)}
+                {getToolResultText(toolResult.result)}
               </div>
             )}
         </div>
@@ -297,25 +306,3 @@ export function ToolMessage({ pair }: ToolMessageProps) {
     </div>
   );
 }
-
-/**
- * Extract text from tool result
- */
-function getResultText(result: any): string {
-  if (typeof result.returnDisplay === 'string') {
-    return result.returnDisplay;
-  }
-
-  if (typeof result.llmContent === 'string') {
-    return result.llmContent;
-  }
-
-  if (Array.isArray(result.llmContent)) {
-    return result.llmContent
-      .filter((part: any) => part.type === 'text')
-      .map((part: any) => part.text)
-      .join('\n');
-  }
-
-  return JSON.stringify(result, null, 2);
-}
@@ -0,0 +1,118 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import {
+  formatUsage,
+  getTranscriptTitle,
+  type SessionTranscript,
+} from '../../lib/transcript';
+import { Message } from './Message';
+import { buildToolResultIndex } from './messageHelpers';
+
+/**
+ * TranscriptDocument component
+ * Renders an exported session with the same message components as the
+ * message list, followed by each assistant message's model and usage.
+ */
+function TranscriptDocument({ transcript }: { transcript: SessionTranscript }) {
+  const toolResults = buildToolResultIndex(transcript.messages);
+  const { workspace } = transcript;
+
+  return (
+    <main style={{ maxWidth: '860px', margin: '0 auto', padding: '32px 16px' }}>
+      <header
+        style={{
+          marginBottom: '24px',
+          paddingBottom: '16px',
+          borderBottom: '1px solid var(--border-subtle)',
+        }}
+      >
+        <h1 style={{ fontSize: '20px', fontWeight: 600 }}>
+          {getTranscriptTitle(transcript)}
+        </h1>
+        <div
+          style={{
+            fontSize: '13px',
+            color: 'var(--text-secondary)',
+            marginTop: '4px',
+          }}
+        >
+          {workspace && `${workspace.branch} · ${workspace.repoPath} · `}
+          Exported {new Date(transcript.exportedAt).toLocaleString()}
+        </div>
+      </header>
+      {transcript.messages.map((message) => {
+        const usage = formatUsage(message);
+        return (
+          <div key={message.uuid} className="flow-root">
+            <Message
+              message={message}
+              toolResults={toolResults}
+              showToolInputs
+            />
+            {usage && (
+              <div
+                style={{
+                  fontSize: '12px',
+                  color: 'var(--text-tertiary)',
+                  marginBottom: '16px',
+                }}
+              >
+                {usage}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </main>
+  );
+}
+
+/**
+ * CSS rules loaded in the app, embedded so the file renders offline
+ */
+function collectStyles(): string {
+  const rules: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      for (const rule of Array.from(sheet.cssRules)) {
+        rules.push(rule.cssText);
+      }
+    } catch {
+      // Cross-origin sheets cannot be read, they are left out
+    }
+  }
+  return rules.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render a transcript to a self-contained HTML file in the current theme
+ */
+export function renderTranscriptHtml(transcript: SessionTranscript): string {
+  const body = renderToStaticMarkup(
+    <TranscriptDocument transcript={transcript} />,
+  );
+  const isDark = document.documentElement.classList.contains('dark');
+
+  return `<!doctype html>
+<html lang="en"${isDark ? ' class="dark"' : ''}>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(getTranscriptTitle(transcript))}</title>
+<style>
+${collectStyles().replace(/<\/style/gi, '<\\/style')}
+</style>
+</head>
+<body class="bg-background text-foreground">
+${body}
+</body>
+</html>
+`;
+}
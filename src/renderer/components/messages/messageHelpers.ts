@@ -1,12 +1,15 @@
+import { parsePatch, type StructuredPatchHunk } from 'diff';
 import type {
   NormalizedMessage,
   ToolUsePart,
   ToolResultPart,
+  ToolResult,
   TextPart,
   ImagePart,
   ReasoningPart,
 } from '../../client/types/message';
-import type { SplitMessages, ToolPair } from './types';
+import type { SplitMessages, ToolPair, ToolResultIndex } from './types';
+import type { TodoItemProps } from './TodoItem';
 
 /**
  * Extract text content from various message formats
@@ -26,6 +29,18 @@ export function getMessageText(message: NormalizedMessage): string {
   return '';
 }
 
+// uiContent marker for the summary message written by session compaction
+export const COMPACT_MESSAGE_UI_CONTENT = 'Conversation compacted';
+
+/**
+ * Check if a message is the summary that replaced compacted history
+ */
+export function isCompactMessage(message: NormalizedMessage): boolean {
+  return (
+    message.role === 'user' && message.uiContent === COMPACT_MESSAGE_UI_CONTENT
+  );
+}
+
 /**
  * Type guard to check if a message is a tool result message
  */
@@ -85,37 +100,34 @@ export function extractToolResultParts(
   return [];
 }
 
+/**
+ * Index the tool_result parts of a message list by tool_use id
+ * Built once per list so each message can look up its results directly.
+ */
+export function buildToolResultIndex(
+  messages: NormalizedMessage[],
+): ToolResultIndex {
+  const index: ToolResultIndex = new Map();
+  for (const message of messages) {
+    for (const result of extractToolResultParts(message)) {
+      index.set(result.id, result);
+    }
+  }
+  return index;
+}
+
 /**
  * Pair tool_use parts with their corresponding tool_result parts
- * from subsequent messages
  */
 export function pairToolsWithResults(
   assistantMsg: NormalizedMessage,
-  subsequentMsgs: NormalizedMessage[],
+  toolResults: ToolResultIndex,
 ): ToolPair[] {
-  const toolUseParts = extractToolUseParts(assistantMsg);
-
-  if (toolUseParts.length === 0) {
-    return [];
-  }
-
-  // Collect all tool results from subsequent messages
-  const allToolResults: ToolResultPart[] = [];
-  for (const msg of subsequentMsgs) {
-    const results = extractToolResultParts(msg);
-    allToolResults.push(...results);
-  }
-
   // Pair each tool_use with its result (if available)
-  return toolUseParts.map((toolUse) => {
-    const toolResult = allToolResults.find(
-      (result) => result.id === toolUse.id,
-    );
-    return {
-      toolUse,
-      toolResult,
-    };
-  });
+  return extractToolUseParts(assistantMsg).map((toolUse) => ({
+    toolUse,
+    toolResult: toolResults.get(toolUse.id),
+  }));
 }
 
 /**
@@ -131,7 +143,10 @@ export function allToolsComplete(
     return true; // No tools, so complete
   }
 
-  const pairs = pairToolsWithResults(assistantMsg, subsequentMsgs);
+  const pairs = pairToolsWithResults(
+    assistantMsg,
+    buildToolResultIndex(subsequentMsgs),
+  );
   return pairs.every((pair) => pair.toolResult !== undefined);
 }
 
@@ -258,3 +273,95 @@ export function shouldHideMessage(message: NormalizedMessage): boolean {
 
   return false;
 }
+
+/**
+ * Extract content value handling both string and inputKey reference formats
+ */
+function extractValue(
+  value: any,
+  input: Record<string, any>,
+): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value && typeof value === 'object' && 'inputKey' in value) {
+    return input[value.inputKey];
+  }
+  return undefined;
+}
+
+/**
+ * File contents before and after an edit or write tool call
+ */
+export function getDiffContents(input: Record<string, any>): {
+  originalContent: string;
+  newContent: string;
+  filePath: string;
+} {
+  return {
+    originalContent:
+      extractValue(input.old_string || input.originalContent, input) || '',
+    newContent: extractValue(input.new_string || input.content, input) || '',
+    filePath: input.file_path || input.filePath || 'file',
+  };
+}
+
+/**
+ * Hunks of the patch an edit or write tool reports, numbered against the
+ * whole file. Null when the result has no patch that parses.
+ */
+export function getResultDiffHunks(
+  result: ToolResult,
+): StructuredPatchHunk[] | null {
+  const display = result.returnDisplay;
+  if (
+    !display ||
+    typeof display !== 'object' ||
+    display.type !== 'diff_viewer' ||
+    !display.diff
+  ) {
+    return null;
+  }
+  try {
+    const hunks = parsePatch(display.diff).flatMap((patch) => patch.hunks);
+    return hunks.length > 0 ? hunks : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Todos of a todo tool call, in the shape TodoItem renders
+ */
+export function getTodoItems(input: Record<string, any>): TodoItemProps[] {
+  return (input.todos || []).map(
+    (todo: any): TodoItemProps => ({
+      id: todo.id,
+      content: todo.content || todo.text,
+      status: todo.status || (todo.completed ? 'completed' : 'pending'),
+      priority: todo.priority || 'medium',
+    }),
+  );
+}
+
+/**
+ * Extract text from tool result
+ */
+export function getToolResultText(result: ToolResult): string {
+  if (typeof result.returnDisplay === 'string') {
+    return result.returnDisplay;
+  }
+
+  if (typeof result.llmContent === 'string') {
+    return result.llmContent;
+  }
+
+  if (Array.isArray(result.llmContent)) {
+    return result.llmContent
+      .filter((part) => part.type === 'text')
+      .map((part) => (part as TextPart).text)
+      .join('\n');
+  }
+
+  return JSON.stringify(result, null, 2);
+}
@@ -1,3 +1,5 @@
+import type { ReactNode } from 'react';
+import type { StructuredPatchHunk } from 'diff';
 import type {
   NormalizedMessage,
   ToolUsePart,
@@ -12,6 +14,11 @@ export interface ToolPair {
   toolResult?: ToolResultPart;
 }
 
+/**
+ * Tool results keyed by the id of the tool_use they answer
+ */
+export type ToolResultIndex = Map<string, ToolResultPart>;
+
 /**
  * Result of splitting messages into completed and pending sections
  */
@@ -25,7 +32,9 @@ export interface SplitMessages {
  */
 export interface MessageRenderProps {
   message: NormalizedMessage;
-  allMessages: NormalizedMessage[];
+  toolResults: ToolResultIndex;
+  // Exported transcripts show what each tool was called with
+  showToolInputs?: boolean;
 }
 
 /**
@@ -35,4 +44,14 @@ export interface DiffViewerProps {
   originalContent: string;
   newContent: string;
   filePath: string;
+  // Hunks of an existing patch, shown instead of diffing the two contents.
+  // Unchanged lines between them come from originalContent when it holds
+  // the whole file.
+  hunks?: StructuredPatchHunk[];
+  // Unchanged lines shown around each change, the rest is collapsed
+  contextLines?: number;
+  // Layout shown first, the viewer has its own unified/split toggle
+  defaultView?: 'unified' | 'split';
+  // Controls shown in each hunk header, e.g. stage or discard buttons
+  renderHunkActions?: (hunk: StructuredPatchHunk) => ReactNode;
 }
@@ -0,0 +1,266 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HugeiconsIcon } from '@hugeicons/react';
+import { RefreshIcon } from '@hugeicons/core-free-icons';
+import type { BackendLogLine, BackendStatus } from '../../../shared/types';
+import {
+  useStore,
+  DEFAULT_BACKEND_URL,
+  EMBEDDED_BACKEND_ENDPOINT,
+} from '../../store';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Spinner } from '../ui/spinner';
+import { toastManager } from '../ui/toast';
+
+// Matches the number of lines the main process keeps
+const MAX_LOG_LINES = 1000;
+
+const STATE_COLORS: Record<BackendStatus['state'], string> = {
+  running: '#10b981',
+  starting: '#f59e0b',
+  stopping: '#f59e0b',
+  crashed: '#ef4444',
+  failed: '#ef4444',
+  stopped: '#9ca3af',
+};
+
+const LOG_COLORS: Record<BackendLogLine['stream'], string> = {
+  stdout: 'var(--text-secondary)',
+  stderr: '#ef4444',
+  system: 'var(--text-tertiary)',
+};
+
+// Log lines carry no id, number them as they arrive to key the rows
+interface KeyedLogLine extends BackendLogLine {
+  id: number;
+}
+
+let nextLogLineId = 0;
+
+function keyLogLine(line: BackendLogLine): KeyedLogLine {
+  return { ...line, id: nextLogLineId++ };
+}
+
+export const BackendPanel = () => {
+  const backendStatus = useStore((state) => state.backendStatus);
+  const activeEndpoint = useStore((state) => state.activeEndpoint);
+  const setActiveEndpoint = useStore((state) => state.setActiveEndpoint);
+
+  const [command, setCommand] = useState('');
+  const [enabled, setEnabled] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRestarting, setIsRestarting] = useState(false);
+  const [logs, setLogs] = useState<KeyedLogLine[]>([]);
+  const logsRef = useRef<HTMLDivElement>(null);
+
+  const isAvailable = !!window.electron?.backendGetConfig;
+
+  useEffect(() => {
+    if (!window.electron?.backendGetConfig) return;
+
+    window.electron
+      .backendGetConfig()
+      .then((config) => {
+        setCommand(config.command);
+        setEnabled(config.enabled);
+      })
+      .catch((error) => console.error('Failed to load backend config:', error));
+
+    window.electron
+      .backendGetLogs()
+      .then((lines) => setLogs(lines.map(keyLogLine)))
+      .catch((error) => console.error('Failed to load backend logs:', error));
+
+    return window.electron.onBackendLog((line) => {
+      setLogs((prev) => [...prev, keyLogLine(line)].slice(-MAX_LOG_LINES));
+    });
+  }, []);
+
+  // Follow the output like a terminal
+  useEffect(() => {
+    const el = logsRef.current;
+    if (el && logs.length > 0) {
+      el.scrollTop = el.scrollHeight;
+    }
+  }, [logs]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!window.electron?.backendSetConfig || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      await window.electron.backendSetConfig({ enabled, command });
+      // Follow the embedded backend when it is turned on, and leave it
+      // when it is turned off so the app does not wait on a dead endpoint
+      if (enabled && activeEndpoint !== EMBEDDED_BACKEND_ENDPOINT) {
+        await setActiveEndpoint(EMBEDDED_BACKEND_ENDPOINT);
+      } else if (!enabled && activeEndpoint === EMBEDDED_BACKEND_ENDPOINT) {
+        await setActiveEndpoint(DEFAULT_BACKEND_URL);
+      }
+    } catch (error) {
+      toastManager.add({
+        title: 'Save Failed',
+        description: (error as Error).message,
+        type: 'error',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestart = async () => {
+    if (!window.electron?.backendRestart || isRestarting) return;
+
+    setIsRestarting(true);
+    try {
+      await window.electron.backendRestart();
+    } catch (error) {
+      toastManager.add({
+        title: 'Restart Failed',
+        description: (error as Error).message,
+        type: 'error',
+      });
+    } finally {
+      setIsRestarting(false);
+    }
+  };
+
+  if (!isAvailable) {
+    return (
+      <div>
+        <h1
+          className="text-2xl font-semibold mb-6"
+          style={{ color: 'var(--text-primary)' }}
+        >
+          Backend
+        </h1>
+        <div className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+          The embedded backend is only available in the desktop app.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1
+          className="text-2xl font-semibold"
+          style={{ color: 'var(--text-primary)' }}
+        >
+          Backend
+        </h1>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          onClick={handleRestart}
+          disabled={!backendStatus?.enabled || isRestarting}
+        >
+          {isRestarting ? (
+            <Spinner className="h-3.5 w-3.5" />
+          ) : (
+            <HugeiconsIcon icon={RefreshIcon} size={14} strokeWidth={1.5} />
+          )}
+          Restart
+        </Button>
+      </div>
+
+      {backendStatus && (
+        <div
+          className="flex items-center gap-3 py-3 text-sm"
+          style={{ borderBottom: '1px solid var(--border-subtle)' }}
+        >
+          <span
+            className="h-2 w-2 rounded-full flex-shrink-0"
+            style={{ backgroundColor: STATE_COLORS[backendStatus.state] }}
+          />
+          <span className="capitalize" style={{ color: 'var(--text-primary)' }}>
+            {backendStatus.state}
+          </span>
+          <span className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+            {[
+              backendStatus.port && `port ${backendStatus.port}`,
+              backendStatus.pid && `pid ${backendStatus.pid}`,
+              `${backendStatus.restarts} restarts`,
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </span>
+          {backendStatus.lastError && (
+            <span
+              className="ml-auto text-xs truncate"
+              style={{ color: '#ef4444' }}
+            >
+              {backendStatus.lastError}
+            </span>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleSave} className="py-4 space-y-3">
+        <label
+          className="flex items-center gap-2 text-sm"
+          style={{ color: 'var(--text-primary)' }}
+        >
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+          Start the backend with the app
+        </label>
+        <div className="flex gap-2">
+          <Input
+            size="sm"
+            className="font-mono"
+            placeholder="neovate server --quiet --port {port}"
+            value={command}
+            onChange={(e) => setCommand(e.target.value)}
+          />
+          <Button type="submit" size="sm" disabled={isSaving}>
+            {isSaving && <Spinner className="h-3.5 w-3.5" />}
+            Save
+          </Button>
+        </div>
+        <div className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+          {'{port}'} is replaced with a free port, which is also passed in the
+          PORT environment variable. Crashes are restarted with backoff.
+        </div>
+      </form>
+
+      <div
+        className="text-sm font-medium mb-2"
+        style={{ color: 'var(--text-primary)' }}
+      >
+        Logs
+      </div>
+      <div
+        ref={logsRef}
+        className="h-80 overflow-y-auto rounded-md p-2 font-mono text-xs"
+        style={{
+          backgroundColor: 'var(--bg-surface)',
+          border: '1px solid var(--border-subtle)',
+        }}
+      >
+        {logs.length === 0 ? (
+          <div style={{ color: 'var(--text-tertiary)' }}>No output yet</div>
+        ) : (
+          logs.map((line) => (
+            <div
+              key={line.id}
+              className="whitespace-pre-wrap break-all"
+              style={{ color: LOG_COLORS[line.stream] }}
+            >
+              <span style={{ color: 'var(--text-tertiary)' }}>
+                {new Date(line.timestamp).toLocaleTimeString()}{' '}
+              </span>
+              {line.text}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { HugeiconsIcon } from '@hugeicons/react';
+import {
+  DeleteIcon,
+  PlusSignIcon,
+  RefreshIcon,
+} from '@hugeicons/core-free-icons';
+import { useStore, EMBEDDED_BACKEND_ENDPOINT } from '../../store';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { toastManager } from '../ui/toast';
+import { CONNECTION_STATE_COLORS, describeEndpoint } from '../ConnectionStatus';
+
+/**
+ * Check that an endpoint is a WebSocket URL
+ */
+function isWebSocketUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'ws:' || url.protocol === 'wss:';
+  } catch {
+    return false;
+  }
+}
+
+export const ConnectionPanel = () => {
+  const backendEndpoints = useStore((state) => state.backendEndpoints);
+  const activeEndpoint = useStore((state) => state.activeEndpoint);
+  const connectionState = useStore((state) => state.state);
+  const lastError = useStore((state) => state.connectionHealth.lastError);
+  const backendStatus = useStore((state) => state.backendStatus);
+  const setActiveEndpoint = useStore((state) => state.setActiveEndpoint);
+  const addBackendEndpoint = useStore((state) => state.addBackendEndpoint);
+  const removeBackendEndpoint = useStore(
+    (state) => state.removeBackendEndpoint,
+  );
+  const reconnect = useStore((state) => state.reconnect);
+
+  const [newEndpoint, setNewEndpoint] = useState('');
+
+  // The embedded backend is only offered inside the desktop app
+  const endpoints = backendStatus
+    ? [EMBEDDED_BACKEND_ENDPOINT, ...backendEndpoints]
+    : backendEndpoints;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const url = newEndpoint.trim();
+    if (!url) return;
+
+    if (!isWebSocketUrl(url)) {
+      toastManager.add({
+        title: 'Invalid Endpoint',
+        description: 'Use a ws:// or wss:// URL',
+        type: 'error',
+      });
+      return;
+    }
+
+    addBackendEndpoint(url);
+    setNewEndpoint('');
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1
+          className="text-2xl font-semibold"
+          style={{ color: 'var(--text-primary)' }}
+        >
+          Connection
+        </h1>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          onClick={() => reconnect()}
+        >
+          <HugeiconsIcon icon={RefreshIcon} size={14} strokeWidth={1.5} />
+          Reconnect
+        </Button>
+      </div>
+
+      <div className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
+        Backend endpoints the app can connect to. Switching the active endpoint
+        reconnects immediately.
+      </div>
+
+      <div className="space-y-0">
+        {endpoints.map((endpoint) => {
+          const isActive = endpoint === activeEndpoint;
+          const isEmbedded = endpoint === EMBEDDED_BACKEND_ENDPOINT;
+          return (
+            <div
+              key={endpoint}
+              className="py-3 flex items-center gap-3"
+              style={{ borderBottom: '1px solid var(--border-subtle)' }}
+            >
+              <span
+                className="h-2 w-2 rounded-full flex-shrink-0"
+                style={{
+                  backgroundColor: isActive
+                    ? CONNECTION_STATE_COLORS[connectionState]
+                    : 'transparent',
+                }}
+                title={isActive ? connectionState : undefined}
+              />
+              <div className="flex-1 min-w-0">
+                <div
+                  className="text-sm font-mono truncate"
+                  style={{ color: 'var(--text-primary)' }}
+                >
+                  {describeEndpoint(endpoint, backendStatus)}
+                </div>
+                {isEmbedded && !backendStatus?.enabled && (
+                  <div
+                    className="text-xs mt-0.5"
+                    style={{ color: 'var(--text-tertiary)' }}
+                  >
+                    Enable it in Backend settings first
+                  </div>
+                )}
+                {isActive && lastError && connectionState !== 'connected' && (
+                  <div className="text-xs mt-0.5" style={{ color: '#ef4444' }}>
+                    {lastError}
+                  </div>
+                )}
+              </div>
+              {isActive ? (
+                <span
+                  className="text-xs px-1.5 rounded"
+                  style={{
+                    backgroundColor: 'var(--bg-surface)',
+                    color: 'var(--text-secondary)',
+                  }}
+                >
+                  Active
+                </span>
+              ) : (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isEmbedded && !backendStatus?.enabled}
+                    onClick={() => setActiveEndpoint(endpoint)}
+                  >
+                    Use
+                  </Button>
+                  {!isEmbedded && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeBackendEndpoint(endpoint)}
+                      title="Remove endpoint"
+                    >
+                      <HugeiconsIcon
+                        icon={DeleteIcon}
+                        size={14}
+                        strokeWidth={1.5}
+                      />
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <form onSubmit={handleAdd} className="mt-4 flex gap-2">
+        <Input
+          size="sm"
+          className="font-mono"
+          placeholder="ws://localhost:1024/ws"
+          value={newEndpoint}
+          onChange={(e) => setNewEndpoint(e.target.value)}
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          disabled={!newEndpoint.trim()}
+        >
+          <HugeiconsIcon icon={PlusSignIcon} size={14} strokeWidth={1.5} />
+          Add
+        </Button>
+      </form>
+    </div>
+  );
+};
@@ -1,18 +1,479 @@
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { HugeiconsIcon } from '@hugeicons/react';
+import {
+  ArrowDown01Icon,
+  ArrowUp01Icon,
+  DeleteIcon,
+  PlusSignIcon,
+  RefreshIcon,
+} from '@hugeicons/core-free-icons';
+import { useStore } from '../../store';
+import type { HandlerOutput } from '../../nodeBridge.types';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Spinner } from '../ui/spinner';
+import { toastManager } from '../ui/toast';
+
+type McpListData = HandlerOutput<'mcp.list'>['data'];
+type McpServerStatus = McpListData['activeServers'][string]['status'];
+type McpScope = 'global' | 'project';
+type McpTransport = 'stdio' | 'http' | 'sse';
+
+// A server entry under mcpServers, launched locally or reached over http
+type McpServerConfig =
+  | {
+      type?: 'stdio';
+      command: string;
+      args?: string[];
+      env?: Record<string, string>;
+    }
+  | {
+      type: 'http' | 'sse';
+      url: string;
+      headers?: Record<string, string>;
+    };
+
+// How often server status is refreshed while the panel is open
+const STATUS_POLL_INTERVAL = 3000;
+
+// Global config is not tied to a project, any cwd works
+const GLOBAL_CWD = '/tmp';
+
+const STATUS_COLORS: Record<McpServerStatus, string> = {
+  connected: '#10b981',
+  connecting: '#f59e0b',
+  pending: '#f59e0b',
+  failed: '#ef4444',
+  disconnected: '#9ca3af',
+};
+
+interface McpServerRow {
+  name: string;
+  scope: McpScope;
+  config: McpServerConfig;
+  status: McpServerStatus;
+  error?: string;
+  tools: string[];
+}
+
+/**
+ * Merge configured servers with their live status, project servers
+ * override global servers of the same name
+ */
+function buildServerRows(data: McpListData): McpServerRow[] {
+  const rows: Record<string, McpServerRow> = {};
+  const addServers = (
+    servers: Record<string, McpServerConfig>,
+    scope: McpScope,
+  ) => {
+    for (const [name, config] of Object.entries(servers || {})) {
+      const active = data.activeServers?.[name];
+      rows[name] = {
+        name,
+        scope,
+        config,
+        status: active?.status || 'disconnected',
+        error: active?.error,
+        tools: active?.tools || [],
+      };
+    }
+  };
+  addServers(data.globalServers, 'global');
+  addServers(data.projectServers, 'project');
+  return Object.values(rows).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Describe how a server is launched or reached
+ */
+function describeServer(config: McpServerConfig) {
+  if ('url' in config) return config.url;
+  return [config.command, ...(config.args || [])].filter(Boolean).join(' ');
+}
 
 export const MCPPanel = () => {
+  const request = useStore((state) => state.request);
+  const selectedWorkspaceId = useStore((state) => state.selectedWorkspaceId);
+  const workspaces = useStore((state) => state.workspaces);
+  const selectedRepoPath = useStore((state) => state.selectedRepoPath);
+
+  // Project scope follows the selected workspace, falling back to its repo
+  const projectCwd =
+    (selectedWorkspaceId && workspaces[selectedWorkspaceId]?.worktreePath) ||
+    selectedRepoPath;
+  const cwd = projectCwd || GLOBAL_CWD;
+
+  const [servers, setServers] = useState<McpServerRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [reconnecting, setReconnecting] = useState<Record<string, boolean>>({});
+  const [showAddForm, setShowAddForm] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await request('mcp.list', { cwd });
+      if (response.success) {
+        setServers(buildServerRows(response.data));
+      }
+    } catch (error) {
+      console.error('Failed to load MCP servers:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [request, cwd]);
+
+  // Poll for status changes while the panel is mounted
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, STATUS_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  const handleReconnect = async (name: string) => {
+    setReconnecting((prev) => ({ ...prev, [name]: true }));
+    try {
+      const response = await request('mcp.reconnect', {
+        cwd,
+        serverName: name,
+      });
+      if (!response.success) {
+        toastManager.add({
+          title: 'Reconnect Failed',
+          description: response.error || `Could not reconnect ${name}`,
+          type: 'error',
+        });
+      }
+      await refresh();
+    } catch (error) {
+      console.error('Failed to reconnect MCP server:', error);
+    } finally {
+      setReconnecting((prev) => ({ ...prev, [name]: false }));
+    }
+  };
+
+  const handleRemove = async (server: McpServerRow) => {
+    try {
+      const response = await request('config.remove', {
+        cwd: server.scope === 'project' && projectCwd ? projectCwd : cwd,
+        isGlobal: server.scope === 'global',
+        key: `mcpServers.${server.name}`,
+      });
+      if (!response.success) {
+        throw new Error(`Could not remove ${server.name}`);
+      }
+      await refresh();
+    } catch (error) {
+      toastManager.add({
+        title: 'Remove Failed',
+        description: (error as Error).message,
+        type: 'error',
+      });
+    }
+  };
+
+  const handleAdd = async (
+    name: string,
+    scope: McpScope,
+    config: McpServerConfig,
+  ) => {
+    const response = await request('config.set', {
+      cwd,
+      isGlobal: scope === 'global',
+      key: `mcpServers.${name}`,
+      value: JSON.stringify(config),
+    });
+    if (!response.success) {
+      throw new Error(`Could not add ${name}`);
+    }
+    setShowAddForm(false);
+    await refresh();
+  };
+
   return (
     <div>
-      <h1
-        className="text-2xl font-semibold mb-6"
-        style={{ color: 'var(--text-primary)' }}
-      >
-        MCP
-      </h1>
-
-      <div className="text-sm" style={{ color: 'var(--text-secondary)' }}>
-        MCP configuration coming soon...
+      <div className="flex items-center justify-between mb-6">
+        <h1
+          className="text-2xl font-semibold"
+          style={{ color: 'var(--text-primary)' }}
+        >
+          MCP
+        </h1>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          onClick={() => setShowAddForm(!showAddForm)}
+        >
+          <HugeiconsIcon icon={PlusSignIcon} size={14} strokeWidth={1.5} />
+          Add Server
+        </Button>
       </div>
+
+      {showAddForm && (
+        <AddServerForm
+          canUseProjectScope={!!projectCwd}
+          onAdd={handleAdd}
+          onCancel={() => setShowAddForm(false)}
+        />
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Spinner className="h-6 w-6" />
+        </div>
+      ) : servers.length === 0 ? (
+        <div className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+          No MCP servers configured.
+        </div>
+      ) : (
+        <div className="space-y-0">
+          {servers.map((server) => {
+            const isExpanded = expanded[server.name] ?? false;
+            return (
+              <div
+                key={server.name}
+                className="py-3"
+                style={{ borderBottom: '1px solid var(--border-subtle)' }}
+              >
+                <div className="flex items-center gap-3">
+                  <span
+                    className="h-2 w-2 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: STATUS_COLORS[server.status] }}
+                    title={server.status}
+                  />
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left"
+                    onClick={() =>
+                      setExpanded((prev) => ({
+                        ...prev,
+                        [server.name]: !isExpanded,
+                      }))
+                    }
+                  >
+                    <div className="flex items-center gap-2">
+                      <span
+                        className="text-sm font-medium"
+                        style={{ color: 'var(--text-primary)' }}
+                      >
+                        {server.name}
+                      </span>
+                      <span
+                        className="text-xs px-1.5 rounded capitalize"
+                        style={{
+                          backgroundColor: 'var(--bg-surface)',
+                          color: 'var(--text-secondary)',
+                        }}
+                      >
+                        {server.scope}
+                      </span>
+                      <span
+                        className="text-xs"
+                        style={{ color: 'var(--text-tertiary)' }}
+                      >
+                        {server.tools.length} tools
+                      </span>
+                      <HugeiconsIcon
+                        icon={isExpanded ? ArrowUp01Icon : ArrowDown01Icon}
+                        size={12}
+                        style={{ color: 'var(--text-tertiary)' }}
+                      />
+                    </div>
+                    <div
+                      className="text-xs truncate font-mono mt-0.5"
+                      style={{ color: 'var(--text-tertiary)' }}
+                    >
+                      {describeServer(server.config)}
+                    </div>
+                    {server.error && (
+                      <div
+                        className="text-xs mt-0.5"
+                        style={{ color: '#ef4444' }}
+                      >
+                        {server.error}
+                      </div>
+                    )}
+                  </button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => handleReconnect(server.name)}
+                    disabled={reconnecting[server.name]}
+                  >
+                    {reconnecting[server.name] ? (
+                      <Spinner className="h-3.5 w-3.5" />
+                    ) : (
+                      <HugeiconsIcon
+                        icon={RefreshIcon}
+                        size={14}
+                        strokeWidth={1.5}
+                      />
+                    )}
+                    Reconnect
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(server)}
+                    title="Remove server"
+                  >
+                    <HugeiconsIcon
+                      icon={DeleteIcon}
+                      size={14}
+                      strokeWidth={1.5}
+                    />
+                  </Button>
+                </div>
+
+                {isExpanded && (
+                  <div className="ml-5 mt-2 flex flex-wrap gap-1">
+                    {server.tools.length === 0 ? (
+                      <span
+                        className="text-xs"
+                        style={{ color: 'var(--text-tertiary)' }}
+                      >
+                        No tools available
+                      </span>
+                    ) : (
+                      server.tools.map((tool) => (
+                        <span
+                          key={tool}
+                          className="text-xs font-mono px-1.5 py-0.5 rounded"
+                          style={{
+                            backgroundColor: 'var(--bg-surface)',
+                            color: 'var(--text-secondary)',
+                          }}
+                        >
+                          {tool}
+                        </span>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 };
+
+/**
+ * Form for adding a stdio or remote MCP server
+ */
+const AddServerForm = ({
+  canUseProjectScope,
+  onAdd,
+  onCancel,
+}: {
+  canUseProjectScope: boolean;
+  onAdd: (
+    name: string,
+    scope: McpScope,
+    config: McpServerConfig,
+  ) => Promise<void>;
+  onCancel: () => void;
+}) => {
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<McpScope>('global');
+  const [transport, setTransport] = useState<McpTransport>('stdio');
+  const [target, setTarget] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canSave = name.trim().length > 0 && target.trim().length > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave || isSaving) return;
+
+    const config: McpServerConfig =
+      transport === 'stdio'
+        ? (() => {
+            const [command, ...args] = target.trim().split(/\s+/);
+            return { command, args };
+          })()
+        : { type: transport, url: target.trim() };
+
+    setIsSaving(true);
+    try {
+      await onAdd(name.trim(), scope, config);
+    } catch (error) {
+      toastManager.add({
+        title: 'Add Failed',
+        description: (error as Error).message,
+        type: 'error',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectStyle = {
+    backgroundColor: 'var(--bg-surface)',
+    color: 'var(--text-primary)',
+    border: '1px solid var(--border-subtle)',
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mb-6 p-4 rounded-lg space-y-3"
+      style={{
+        backgroundColor: 'var(--bg-surface)',
+        border: '1px solid var(--border-subtle)',
+      }}
+    >
+      <div className="flex gap-2">
+        <Input
+          size="sm"
+          placeholder="Server name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <select
+          value={transport}
+          onChange={(e) => setTransport(e.target.value as McpTransport)}
+          className="text-sm rounded-md px-2"
+          style={selectStyle}
+        >
+          <option value="stdio">stdio</option>
+          <option value="http">http</option>
+          <option value="sse">sse</option>
+        </select>
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value as McpScope)}
+          className="text-sm rounded-md px-2"
+          style={selectStyle}
+        >
+          <option value="global">Global</option>
+          <option value="project" disabled={!canUseProjectScope}>
+            Project
+          </option>
+        </select>
+      </div>
+      <Input
+        size="sm"
+        className="font-mono"
+        placeholder={
+          transport === 'stdio'
+            ? 'npx -y @modelcontextprotocol/server-filesystem .'
+            : 'https://example.com/mcp'
+        }
+        value={target}
+        onChange={(e) => setTarget(e.target.value)}
+      />
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={!canSave || isSaving}>
+          {isSaving && <Spinner className="h-3.5 w-3.5" />}
+          Add
+        </Button>
+      </div>
+    </form>
+  );
+};
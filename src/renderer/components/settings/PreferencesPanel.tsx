@@ -2,8 +2,9 @@ import { useState } from 'react';
 import { HugeiconsIcon } from '@hugeicons/react';
 import { RefreshIcon } from '@hugeicons/core-free-icons';
 import { Button } from '../ui/button';
-import { useStore } from '../../store';
+import { useStore, DEFAULT_AUTO_COMPACT_THRESHOLD } from '../../store';
 import { Spinner } from '../ui/spinner';
+import { Input } from '../ui/input';
 
 type ThemeValue = 'light' | 'dark' | 'system';
 
@@ -91,12 +92,38 @@ export const PreferencesPanel = () => {
   const setGlobalConfig = useStore((state) => state.setGlobalConfig);
 
   const theme = getGlobalConfigValue<ThemeValue>('desktop.theme', 'system');
+  const autoCompact = getGlobalConfigValue<boolean>(
+    'desktop.autoCompact',
+    false,
+  );
+  const autoCompactThreshold = getGlobalConfigValue<number>(
+    'desktop.autoCompactThreshold',
+    DEFAULT_AUTO_COMPACT_THRESHOLD,
+  );
 
   const handleThemeChange = async (newTheme: ThemeValue) => {
     if (newTheme === theme || isConfigSaving) return;
     await setGlobalConfig('desktop.theme', newTheme);
   };
 
+  const handleAutoCompactChange = async (enabled: boolean) => {
+    if (enabled === autoCompact || isConfigSaving) return;
+    await setGlobalConfig('desktop.autoCompact', enabled);
+  };
+
+  const handleThresholdChange = async (value: string) => {
+    const threshold = Number.parseInt(value, 10);
+    if (
+      Number.isNaN(threshold) ||
+      threshold < 1 ||
+      threshold > 90 ||
+      threshold === autoCompactThreshold
+    ) {
+      return;
+    }
+    await setGlobalConfig('desktop.autoCompactThreshold', threshold);
+  };
+
   const handleSendFeedback = () => {
     // Placeholder - will be implemented later
     alert('Not implemented yet');
@@ -159,6 +186,51 @@ export const PreferencesPanel = () => {
           </div>
         </SettingsRow>
 
+        {/* Auto Compact */}
+        <SettingsRow
+          title="Auto Compact"
+          description="Summarize older history when free context space drops below the threshold"
+        >
+          <div className="flex items-center gap-3">
+            <div
+              className="flex gap-1 p-1 rounded-lg"
+              style={{ backgroundColor: 'var(--bg-surface)' }}
+            >
+              <ThemeOption
+                label="Off"
+                isActive={!autoCompact}
+                onClick={() => handleAutoCompactChange(false)}
+                disabled={isConfigSaving}
+              />
+              <ThemeOption
+                label="On"
+                isActive={!!autoCompact}
+                onClick={() => handleAutoCompactChange(true)}
+                disabled={isConfigSaving}
+              />
+            </div>
+            <div className="flex items-center gap-1.5">
+              <Input
+                key={autoCompactThreshold}
+                type="number"
+                size="sm"
+                min={1}
+                max={90}
+                className="w-16"
+                defaultValue={autoCompactThreshold}
+                disabled={!autoCompact || isConfigSaving}
+                onBlur={(e) => handleThresholdChange(e.target.value)}
+              />
+              <span
+                className="text-sm"
+                style={{ color: 'var(--text-secondary)' }}
+              >
+                % free
+              </span>
+            </div>
+          </div>
+        </SettingsRow>
+
         {/* Feedback */}
         <SettingsRow
           title="Feedback"
@@ -4,6 +4,8 @@ import {
   ArrowLeftIcon,
   SettingsIcon,
   CodeIcon,
+  Plug01Icon,
+  ServerStack01Icon,
 } from '@hugeicons/core-free-icons';
 import { useStore } from '../../store';
 import type { SettingsMenuId } from './SettingsPage';
@@ -17,6 +19,8 @@ interface MenuItem {
 const menuItems: MenuItem[] = [
   { id: 'preferences', label: 'Preferences', icon: SettingsIcon },
   { id: 'mcp', label: 'MCP', icon: CodeIcon },
+  { id: 'connection', label: 'Connection', icon: Plug01Icon },
+  { id: 'backend', label: 'Backend', icon: ServerStack01Icon },
 ];
 
 export const SettingsMenu = ({
@@ -2,8 +2,10 @@ import React, { useState } from 'react';
 import { SettingsMenu } from './SettingsMenu';
 import { PreferencesPanel } from './PreferencesPanel';
 import { MCPPanel } from './MCPPanel';
+import { ConnectionPanel } from './ConnectionPanel';
+import { BackendPanel } from './BackendPanel';
 
-export type SettingsMenuId = 'preferences' | 'mcp';
+export type SettingsMenuId = 'preferences' | 'mcp' | 'connection' | 'backend';
 
 export const SettingsPage = () => {
   const [activeMenu, setActiveMenu] = useState<SettingsMenuId>('preferences');
@@ -24,6 +26,8 @@ export const SettingsPage = () => {
         <div className="max-w-2xl">
           {activeMenu === 'preferences' && <PreferencesPanel />}
           {activeMenu === 'mcp' && <MCPPanel />}
+          {activeMenu === 'connection' && <ConnectionPanel />}
+          {activeMenu === 'backend' && <BackendPanel />}
         </div>
       </div>
     </div>
@@ -2,3 +2,5 @@ export { SettingsPage } from './SettingsPage';
 export { SettingsMenu } from './SettingsMenu';
 export { PreferencesPanel } from './PreferencesPanel';
 export { MCPPanel } from './MCPPanel';
+export { ConnectionPanel } from './ConnectionPanel';
+export { BackendPanel } from './BackendPanel';
@@ -0,0 +1,14 @@
+'use client';
+
+import { ContextMenu as ContextMenuPrimitive } from '@base-ui-components/react/context-menu';
+
+// Popup and items are the regular menu parts, positioned at the pointer
+const ContextMenu = ContextMenuPrimitive.Root;
+
+function ContextMenuTrigger(props: ContextMenuPrimitive.Trigger.Props) {
+  return (
+    <ContextMenuPrimitive.Trigger data-slot="context-menu-trigger" {...props} />
+  );
+}
+
+export { ContextMenu, ContextMenuTrigger };
@@ -6,6 +6,7 @@ export * from './button';
 export * from './checkbox-group';
 export * from './checkbox';
 export * from './combobox';
+export * from './context-menu';
 export * from './dialog';
 export * from './empty';
 export * from './field';
@@ -2,6 +2,9 @@
 // export { useWorkspaceChangesContext } from '../components/WorkspaceChanges';
 // export { useTerminalContext } from '../components/Terminal';
 export { useStoreConnection } from './useStoreConnection';
+export { useGitWatcher } from './useGitWatcher';
+export { useRemoteSync } from './useRemoteSync';
+export { useVirtualList } from './useVirtualList';
 
 // ChatInput hooks
 export { useInputState } from './useInputState';
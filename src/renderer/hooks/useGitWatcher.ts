@@ -0,0 +1,65 @@
+import { useEffect, useMemo } from 'react';
+import { useStore } from '../store';
+
+/**
+ * Custom hook that keeps workspace git state live while it is visible.
+ * Watches the worktrees of expanded repos and of the selected workspace in the
+ * main process and writes changes back through `updateWorkspace`.
+ */
+export function useGitWatcher() {
+  const workspaces = useStore((state) => state.workspaces);
+  const openRepos = useStore((state) => state.openRepoAccordions);
+  const selectedWorkspaceId = useStore((state) => state.selectedWorkspaceId);
+
+  // Joined so that unrelated workspace updates don't restart the watchers
+  const watchedKey = useMemo(() => {
+    const paths = new Set<string>();
+    for (const workspace of Object.values(workspaces)) {
+      if (
+        openRepos.includes(workspace.repoPath) ||
+        workspace.id === selectedWorkspaceId
+      ) {
+        paths.add(workspace.worktreePath);
+      }
+    }
+    return [...paths].sort().join('\n');
+  }, [workspaces, openRepos, selectedWorkspaceId]);
+
+  useEffect(() => {
+    if (!window.electron?.onGitState) return;
+
+    return window.electron.onGitState(({ cwd, state }) => {
+      const { workspaces, updateWorkspace } = useStore.getState();
+      for (const workspace of Object.values(workspaces)) {
+        const current = workspace.gitState;
+        if (
+          workspace.worktreePath !== cwd ||
+          (current.currentCommit === state.currentCommit &&
+            current.isDirty === state.isDirty &&
+            current.pendingChanges.join('\n') ===
+              state.pendingChanges.join('\n'))
+        ) {
+          continue;
+        }
+        updateWorkspace(workspace.id, {
+          gitState: { ...current, ...state },
+        });
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    const api = window.electron;
+    if (!watchedKey || !api?.gitWatch) return;
+
+    const paths = watchedKey.split('\n');
+    for (const path of paths) {
+      api.gitWatch(path);
+    }
+    return () => {
+      for (const path of paths) {
+        api.gitUnwatch(path);
+      }
+    };
+  }, [watchedKey]);
+}
@@ -1,4 +1,4 @@
-import { useCallback, useState, useRef } from 'react';
+import { useCallback, useMemo, useState, useRef } from 'react';
 import { useInputState } from './useInputState';
 import { useFileSuggestion } from './useFileSuggestion';
 import { useSlashCommands, type SlashCommand } from './useSlashCommands';
@@ -6,9 +6,28 @@ import { usePasteManager } from './usePasteManager';
 import { useImagePasteManager } from './useImagePasteManager';
 import { useDoublePress } from './useDoublePress';
 import { toastManager } from '../components/ui/toast';
+import { useStore } from '../store';
 
 const LARGE_PASTE_THRESHOLD = 800;
 
+// Most matches shown by the Ctrl+R history search
+const MAX_HISTORY_SEARCH_RESULTS = 50;
+
+/**
+ * Find history entries containing the query, newest first
+ */
+function searchHistory(history: string[], query: string): string[] {
+  const needle = query.trim().toLowerCase();
+  const matches: string[] = [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (!needle || history[i].toLowerCase().includes(needle)) {
+      matches.push(history[i]);
+      if (matches.length >= MAX_HISTORY_SEARCH_RESULTS) break;
+    }
+  }
+  return matches;
+}
+
 interface UseInputHandlersProps {
   sessionId: string | null;
   workspaceId: string | null;
@@ -31,6 +50,8 @@ export function useInputHandlers({
   isProcessing,
 }: UseInputHandlersProps) {
   const inputState = useInputState(sessionId, workspaceId);
+  const executeBashCommand = useStore((state) => state.executeBashCommand);
+  const addMemory = useStore((state) => state.addMemory);
   const { value, cursorPosition, mode } = inputState.state;
 
   const {
@@ -39,6 +60,7 @@ export function useInputHandlers({
     draftInput,
     planMode,
     thinkingEnabled,
+    memoryScope,
     setHistoryIndex,
     setDraftInput,
     addToHistory,
@@ -55,6 +77,40 @@ export function useInputHandlers({
   const [forceTabTrigger, setForceTabTrigger] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  // Ctrl+R search over prompts sent from this app, the input text is used as
+  // the query while open
+  const [historySearchIndex, setHistorySearchIndex] = useState<number | null>(
+    null,
+  );
+  const isHistorySearchOpen = historySearchIndex !== null;
+  const historyMatches = useMemo(
+    () => (isHistorySearchOpen ? searchHistory(history, value) : []),
+    [isHistorySearchOpen, history, value],
+  );
+
+  const openHistorySearch = useCallback(() => {
+    if (isHistorySearchOpen) {
+      // Repeated Ctrl+R steps to the next older match
+      setHistorySearchIndex((index) =>
+        Math.min((index ?? 0) + 1, Math.max(historyMatches.length - 1, 0)),
+      );
+      return;
+    }
+    if (history.length === 0) return;
+    setDraftInput(value);
+    setHistorySearchIndex(0);
+  }, [isHistorySearchOpen, historyMatches, history, value, setDraftInput]);
+
+  const closeHistorySearch = useCallback(
+    (accepted: string | null) => {
+      setHistorySearchIndex(null);
+      const next = accepted ?? draftInput;
+      inputState.setValue(next);
+      inputState.setCursorPosition(next.length);
+    },
+    [draftInput, inputState],
+  );
+
   const fileSuggestion = useFileSuggestion({
     value,
     cursorPosition,
@@ -131,11 +187,44 @@ export function useInputHandlers({
       return;
     }
 
-    // In memory mode or bash mode, show alert instead of submitting
-    if (mode === 'memory' || mode === 'bash') {
-      alert(
-        `${mode.charAt(0).toUpperCase() + mode.slice(1)} mode is not implemented yet`,
-      );
+    // Bash mode runs the command in the workspace instead of prompting
+    if (mode === 'bash') {
+      const command = trimmed.slice(1).trim();
+      if (!command) return;
+      addToHistory(trimmed);
+      inputState.reset();
+      executeBashCommand(command).catch((error) => {
+        toastManager.add({
+          type: 'error',
+          title: 'Command failed',
+          description: (error as Error).message,
+        });
+      });
+      return;
+    }
+
+    // Memory mode writes the rule to AGENTS.md instead of prompting
+    if (mode === 'memory') {
+      const rule = trimmed.slice(1).trim();
+      if (!rule) return;
+      addToHistory(trimmed);
+      inputState.reset();
+      addMemory(workspaceId, rule, memoryScope)
+        .then(() => {
+          // The backend does not say which file it wrote the rule to
+          toastManager.add({
+            type: 'success',
+            title: 'Memory saved',
+            description: `Saved to ${memoryScope} memory`,
+          });
+        })
+        .catch((error) => {
+          toastManager.add({
+            type: 'error',
+            title: 'Failed to save memory',
+            description: (error as Error).message,
+          });
+        });
       return;
     }
 
@@ -159,6 +248,10 @@ export function useInputHandlers({
     planMode,
     isProcessing,
     mode,
+    executeBashCommand,
+    addMemory,
+    memoryScope,
+    workspaceId,
   ]);
 
   const handleHistoryUp = useCallback(() => {
@@ -238,6 +331,32 @@ export function useInputHandlers({
     (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
       const textarea = e.currentTarget;
 
+      // History search captures navigation keys while open
+      if (historySearchIndex !== null) {
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          closeHistorySearch(null);
+          return;
+        }
+        if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+          e.preventDefault();
+          closeHistorySearch(historyMatches[historySearchIndex] ?? null);
+          return;
+        }
+        if (e.key === 'ArrowUp') {
+          e.preventDefault();
+          setHistorySearchIndex(Math.max(historySearchIndex - 1, 0));
+          return;
+        }
+        if (e.key === 'ArrowDown') {
+          e.preventDefault();
+          setHistorySearchIndex(
+            Math.min(historySearchIndex + 1, historyMatches.length - 1),
+          );
+          return;
+        }
+      }
+
       // Escape handling
       if (e.key === 'Escape') {
         e.preventDefault();
@@ -385,6 +504,10 @@ export function useInputHandlers({
             e.preventDefault();
             handleHistoryUp();
             break;
+          case 'r':
+            e.preventDefault();
+            openHistorySearch();
+            break;
         }
         return;
       }
@@ -455,6 +578,11 @@ export function useInputHandlers({
       toggleThinking,
       isAtFirstLine,
       isAtLastLine,
+      isHistorySearchOpen,
+      historySearchIndex,
+      historyMatches,
+      openHistorySearch,
+      closeHistorySearch,
     ],
   );
 
@@ -508,12 +636,17 @@ export function useInputHandlers({
       inputState.setCursorPosition(e.target.selectionStart);
       setHistoryIndex(null);
 
+      // A new query restarts the search at the newest match
+      if (isHistorySearchOpen) {
+        setHistorySearchIndex(0);
+      }
+
       // Reset tab trigger if @ appears or value is empty
       if (newValue.includes('@') || newValue.trim() === '') {
         setForceTabTrigger(false);
       }
     },
-    [inputState, setHistoryIndex],
+    [inputState, setHistoryIndex, isHistorySearchOpen],
   );
 
   const onSelect = useCallback(
@@ -534,22 +667,28 @@ export function useInputHandlers({
       onChange,
       onSelect,
     },
-    suggestions: {
-      type:
-        slashCommands.suggestions.length > 0
-          ? ('slash' as const)
-          : fileSuggestion.matchedPaths.length > 0
-            ? ('file' as const)
-            : null,
-      items:
-        slashCommands.suggestions.length > 0
-          ? slashCommands.suggestions
-          : fileSuggestion.matchedPaths,
-      selectedIndex:
-        slashCommands.suggestions.length > 0
-          ? slashCommands.selectedIndex
-          : fileSuggestion.selectedIndex,
-    },
+    suggestions: isHistorySearchOpen
+      ? {
+          type: 'history' as const,
+          items: historyMatches,
+          selectedIndex: historySearchIndex,
+        }
+      : {
+          type:
+            slashCommands.suggestions.length > 0
+              ? ('slash' as const)
+              : fileSuggestion.matchedPaths.length > 0
+                ? ('file' as const)
+                : null,
+          items:
+            slashCommands.suggestions.length > 0
+              ? slashCommands.suggestions
+              : fileSuggestion.matchedPaths,
+          selectedIndex:
+            slashCommands.suggestions.length > 0
+              ? slashCommands.selectedIndex
+              : fileSuggestion.selectedIndex,
+        },
     imageManager,
     // Thinking state setters for external updates (e.g., model change)
     thinkingEnabled,
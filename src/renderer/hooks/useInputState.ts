@@ -6,6 +6,7 @@ import {
   type InputMode,
   type PlanMode,
   type ThinkingLevel,
+  type MemoryScope,
 } from '../store';
 
 export interface InputState {
@@ -141,6 +142,17 @@ export function useInputState(
     [sessionId, setSessionInput],
   );
 
+  // Memory mode scope
+  const memoryScope = sessionInput.memoryScope;
+
+  const toggleMemoryScope = useCallback(() => {
+    if (sessionId) {
+      const newScope: MemoryScope =
+        memoryScope === 'project' ? 'global' : 'project';
+      setSessionInput(sessionId, { memoryScope: newScope });
+    }
+  }, [sessionId, memoryScope, setSessionInput]);
+
   // Pasted text and image maps
   const pastedTextMap = sessionInput.pastedTextMap;
   const pastedImageMap = sessionInput.pastedImageMap;
@@ -183,6 +195,9 @@ export function useInputState(
     toggleThinking,
     setThinkingEnabled,
     setThinking,
+    // Memory scope
+    memoryScope,
+    toggleMemoryScope,
     // Pasted maps
     pastedTextMap,
     pastedImageMap,
@@ -0,0 +1,29 @@
+import { useEffect, useMemo } from 'react';
+import { useStore } from '../store';
+
+/**
+ * Custom hook that tracks remote sync status of every added repo.
+ * The main process fetches tracked repos in the background and reports
+ * ahead/behind counts, which are applied through `applyRemoteSync`.
+ */
+export function useRemoteSync() {
+  const repos = useStore((state) => state.repos);
+  const applyRemoteSync = useStore((state) => state.applyRemoteSync);
+
+  // Joined so that unrelated repo updates don't retrack
+  const trackedKey = useMemo(
+    () => Object.keys(repos).sort().join('\n'),
+    [repos],
+  );
+
+  useEffect(() => {
+    if (!window.electron?.onGitSync) return;
+    return window.electron.onGitSync(applyRemoteSync);
+  }, [applyRemoteSync]);
+
+  useEffect(() => {
+    window.electron?.gitTrackRemotes?.(
+      trackedKey ? trackedKey.split('\n') : [],
+    );
+  }, [trackedKey]);
+}
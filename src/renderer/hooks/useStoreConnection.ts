@@ -4,12 +4,14 @@ import { useStore } from '../store';
 /**
  * Custom hook to establish store WebSocket connection on mount.
  * Connects exactly once when the component mounts and returns the current connection state.
+ * The store initializes itself the first time the connection opens, so a backend
+ * that starts after the app is still picked up by the transport's retries.
  *
  * @returns The current connection state: 'disconnected' | 'connecting' | 'connected' | 'error'
  */
 export function useStoreConnection() {
   const connect = useStore((state) => state.connect);
-  const initialize = useStore((state) => state.initialize);
+  const watchBackend = useStore((state) => state.watchBackend);
   const connectionState = useStore((state) => state.state);
   const hasInitialized = useRef(false);
 
@@ -23,12 +25,9 @@ export function useStoreConnection() {
     hasInitialized.current = true;
     console.log('useStoreConnection: Initializing');
 
-    const init = async () => {
-      await connect();
-      await initialize();
-    };
-    init();
-  }, [connect, initialize]);
+    // Know the embedded backend's port before picking an endpoint
+    watchBackend().finally(() => connect());
+  }, [connect, watchBackend]);
 
   return connectionState;
 }
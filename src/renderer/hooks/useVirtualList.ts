@@ -0,0 +1,200 @@
+import {
+  useCallback,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  type UIEvent,
+} from 'react';
+import {
+  computeOffsets,
+  findRowAt,
+  findVisibleRange,
+} from '../lib/virtualList';
+
+// Rows rendered beyond each edge of the viewport, in pixels
+const OVERSCAN_PX = 800;
+
+interface UseVirtualListOptions {
+  keys: string[];
+  estimatedHeight: number;
+  // Distance from the bottom within which new rows keep the list scrolled down
+  stickToBottomThreshold: number;
+  // Changing it, e.g. switching sessions, scrolls back to the bottom
+  resetKey: string | null;
+}
+
+/**
+ * Custom hook that windows a scrollable list of variable-height rows.
+ * Rows are measured with a ResizeObserver after they render. The list follows
+ * new rows while scrolled near the bottom, and otherwise keeps the first
+ * visible row in place when rows above it are measured or prepended.
+ *
+ * @returns Props for the scroll container, the rows to render with the
+ * padding that stands in for the others, a ref callback for each row and a
+ * function that scrolls a row to the top
+ */
+export function useVirtualList({
+  keys,
+  estimatedHeight,
+  stickToBottomThreshold,
+  resetKey,
+}: UseVirtualListOptions) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [heights, setHeights] = useState(() => new Map<string, number>());
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+
+  // The first visible row and its distance from the top of the viewport
+  const anchorRef = useRef<{ key: string; offset: number } | null>(null);
+  const isAtBottomRef = useRef(true);
+  const prevResetKeyRef = useRef(resetKey);
+
+  const offsets = useMemo(
+    () => computeOffsets(keys, heights, estimatedHeight),
+    [keys, heights, estimatedHeight],
+  );
+
+  const recordAnchor = useCallback(
+    (scrollTop: number) => {
+      if (keys.length === 0) {
+        anchorRef.current = null;
+        return;
+      }
+      const index = findRowAt(offsets, scrollTop);
+      anchorRef.current = {
+        key: keys[index],
+        offset: offsets[index] - scrollTop,
+      };
+    },
+    [keys, offsets],
+  );
+
+  const getObserver = useCallback(() => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver((entries) => {
+        setHeights((current) => {
+          let next = current;
+          for (const entry of entries) {
+            const key = (entry.target as HTMLElement).dataset.virtualKey;
+            if (key === undefined) continue;
+            const height =
+              entry.borderBoxSize?.[0]?.blockSize ??
+              entry.target.getBoundingClientRect().height;
+            if (next.get(key) !== height) {
+              // Copied once per batch of measurements
+              if (next === current) next = new Map(current);
+              next.set(key, height);
+            }
+          }
+          return next;
+        });
+      });
+    }
+    return observerRef.current;
+  }, []);
+
+  const measureRow = useCallback(
+    (element: HTMLElement | null) => {
+      if (!element) return;
+      const observer = getObserver();
+      observer.observe(element);
+      return () => observer.unobserve(element);
+    },
+    [getObserver],
+  );
+
+  const onScroll = useCallback(
+    (event: UIEvent<HTMLDivElement>) => {
+      const { scrollTop, scrollHeight, clientHeight } = event.currentTarget;
+      isAtBottomRef.current =
+        scrollHeight - scrollTop - clientHeight < stickToBottomThreshold;
+      recordAnchor(scrollTop);
+      setViewport({ scrollTop, height: clientHeight });
+    },
+    [recordAnchor, stickToBottomThreshold],
+  );
+
+  // Scroll a row to the top, it stays anchored there as rows get measured
+  const scrollToKey = useCallback(
+    (key: string) => {
+      const container = scrollRef.current;
+      const index = keys.indexOf(key);
+      if (!container || index === -1) return false;
+
+      isAtBottomRef.current = false;
+      anchorRef.current = { key, offset: 0 };
+      container.scrollTop = offsets[index];
+      setViewport({
+        scrollTop: container.scrollTop,
+        height: container.clientHeight,
+      });
+      return true;
+    },
+    [keys, offsets],
+  );
+
+  // Follow the viewport's size, e.g. when the window or input area resizes
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(() => {
+      setViewport({
+        scrollTop: container.scrollTop,
+        height: container.clientHeight,
+      });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useLayoutEffect(() => () => observerRef.current?.disconnect(), []);
+
+  // Restore the scroll position after rows were added, removed or measured
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+
+    if (prevResetKeyRef.current !== resetKey) {
+      prevResetKeyRef.current = resetKey;
+      isAtBottomRef.current = true;
+    }
+
+    const anchor = anchorRef.current;
+    const anchorIndex = anchor ? keys.indexOf(anchor.key) : -1;
+    if (isAtBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+    } else if (anchor && anchorIndex !== -1) {
+      const target = offsets[anchorIndex] - anchor.offset;
+      if (Math.abs(container.scrollTop - target) > 1) {
+        container.scrollTop = target;
+      }
+    }
+
+    recordAnchor(container.scrollTop);
+    setViewport((current) =>
+      current.scrollTop === container.scrollTop &&
+      current.height === container.clientHeight
+        ? current
+        : { scrollTop: container.scrollTop, height: container.clientHeight },
+    );
+  }, [keys, offsets, resetKey, recordAnchor]);
+
+  const { start, end } = findVisibleRange(
+    offsets,
+    viewport.scrollTop - OVERSCAN_PX,
+    viewport.scrollTop + viewport.height + OVERSCAN_PX,
+  );
+
+  return {
+    scrollRef,
+    onScroll,
+    measureRow,
+    scrollToKey,
+    start,
+    end,
+    paddingTop: offsets[start] ?? 0,
+    paddingBottom: (offsets[keys.length] ?? 0) - (offsets[end] ?? 0),
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { structuredPatch } from 'diff';
+import { buildFileTree, buildHunkPatch } from './gitChanges';
+
+describe('buildHunkPatch', () => {
+  it('should emit a single hunk with a/ and b/ prefixed paths', () => {
+    const { hunks } = structuredPatch(
+      'src/app.ts',
+      'src/app.ts',
+      'a\nb\nc\nd\ne\nf\ng\nh\ni\nj\nk\nl\n',
+      'a\nB\nc\nd\ne\nf\ng\nh\ni\nj\nk\nL\n',
+    );
+    expect(hunks).toHaveLength(2);
+
+    const patch = buildHunkPatch('src/app.ts', hunks[1]);
+
+    expect(patch).toContain('--- a/src/app.ts\n+++ b/src/app.ts\n');
+    expect(patch).toContain('-l\n+L');
+    expect(patch).not.toContain('+B');
+  });
+});
+
+describe('buildFileTree', () => {
+  it('should nest files under directories, directories first', () => {
+    const tree = buildFileTree(['b.ts', 'src/z.ts', 'src/lib/a.ts', 'a.ts']);
+
+    expect(tree.map((node) => node.name)).toEqual(['src', 'a.ts', 'b.ts']);
+    const src = tree[0].children ?? [];
+    expect(src.map((node) => node.path)).toEqual(['src/lib', 'src/z.ts']);
+    expect(src[0].children?.[0]).toEqual({
+      name: 'a.ts',
+      path: 'src/lib/a.ts',
+      children: null,
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { formatPatch, type StructuredPatchHunk } from 'diff';
+
+/**
+ * Unified patch for a single hunk, in the a/ b/ form `git apply` expects
+ */
+export function buildHunkPatch(
+  filePath: string,
+  hunk: StructuredPatchHunk,
+): string {
+  return formatPatch({
+    oldFileName: `a/${filePath}`,
+    newFileName: `b/${filePath}`,
+    oldHeader: undefined,
+    newHeader: undefined,
+    hunks: [hunk],
+  });
+}
+
+export interface FileTreeNode {
+  name: string;
+  // Path relative to the worktree root
+  path: string;
+  children: FileTreeNode[] | null;
+}
+
+/**
+ * Build a directory tree from relative file paths
+ * Directories come before files, both sorted by name.
+ */
+export function buildFileTree(paths: string[]): FileTreeNode[] {
+  const roots: FileTreeNode[] = [];
+
+  for (const filePath of paths) {
+    const parts = filePath.split('/').filter(Boolean);
+    let children = roots;
+    parts.forEach((name, index) => {
+      const isFile = index === parts.length - 1;
+      let child = children.find((item) => item.name === name);
+      if (!child) {
+        child = {
+          name,
+          path: parts.slice(0, index + 1).join('/'),
+          children: isFile ? null : [],
+        };
+        children.push(child);
+      }
+      children = child.children ?? [];
+    });
+  }
+
+  const sort = (nodes: FileTreeNode[]) => {
+    nodes.sort((a, b) => {
+      if (!!a.children !== !!b.children) return a.children ? -1 : 1;
+      return a.name.localeCompare(b.name);
+    });
+    for (const node of nodes) {
+      if (node.children) sort(node.children);
+    }
+    return nodes;
+  };
+
+  return sort(roots);
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SearchIndex,
+  buildSnippet,
+  tokenize,
+  type SearchDocument,
+} from './searchIndex';
+
+function messageDocument(
+  uuid: string,
+  text: string,
+  timestamp = 0,
+): SearchDocument {
+  return {
+    id: `message:s1:${uuid}`,
+    kind: 'message',
+    repoPath: '/repo',
+    workspaceId: 'w1',
+    sessionId: 's1',
+    messageUuid: uuid,
+    title: 'Fix login',
+    text,
+    timestamp,
+  };
+}
+
+describe('tokenize', () => {
+  it('should split on punctuation and lowercase words', () => {
+    expect(tokenize('Read src/Store.tsx, line_42!')).toEqual([
+      'read',
+      'src',
+      'store',
+      'tsx',
+      'line_42',
+    ]);
+  });
+});
+
+describe('SearchIndex', () => {
+  it('should match every term by prefix and rank newer documents first', () => {
+    const index = new SearchIndex();
+    index.upsert(messageDocument('a', 'Refactor the websocket transport', 1));
+    index.upsert(messageDocument('b', 'The websocket reconnects slowly', 2));
+    index.upsert(messageDocument('c', 'Unrelated text', 3));
+
+    const results = index.search('websock trans');
+    expect(results.map((result) => result.document.messageUuid)).toEqual(['a']);
+
+    expect(
+      index.search('websocket').map((result) => result.document.messageUuid),
+    ).toEqual(['b', 'a']);
+  });
+
+  it('should skip unchanged documents and forget removed ones', () => {
+    const index = new SearchIndex();
+    expect(index.upsert(messageDocument('a', 'first draft'))).toBe(true);
+    expect(index.upsert(messageDocument('a', 'first draft'))).toBe(false);
+    expect(index.upsert(messageDocument('a', 'second draft'))).toBe(true);
+    expect(index.search('first')).toEqual([]);
+
+    expect(index.removeWhere((doc) => doc.sessionId === 's1')).toEqual([
+      'message:s1:a',
+    ]);
+    expect(index.search('draft')).toEqual([]);
+    expect(index.size).toBe(0);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('should center on the first match and mark every term', () => {
+    const text = `${'padding '.repeat(20)}the Login form fails on login`;
+    const snippet = buildSnippet(text, ['login']);
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(
+      snippet.highlights.map(([start, end]) => snippet.text.slice(start, end)),
+    ).toEqual(['Login', 'login']);
+  });
+});
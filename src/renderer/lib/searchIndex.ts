@@ -0,0 +1,263 @@
+/**
+ * In-memory full-text index over repos, workspaces, sessions and messages
+ * Terms are matched by prefix, so results update while the query is typed.
+ */
+
+export type SearchDocumentKind = 'repo' | 'workspace' | 'session' | 'message';
+
+export interface SearchDocument {
+  id: string;
+  kind: SearchDocumentKind;
+  repoPath: string;
+  workspaceId: string | null;
+  sessionId: string | null;
+  messageUuid: string | null;
+  // Message titles name their session and are shown but not searched
+  title: string;
+  text: string;
+  // Milliseconds since the epoch, newer documents win ties
+  timestamp: number;
+}
+
+export interface SearchSnippet {
+  text: string;
+  // Start and end offsets of matched terms within the snippet text
+  highlights: [number, number][];
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  snippet: SearchSnippet;
+}
+
+const DEFAULT_LIMIT = 50;
+const SNIPPET_RADIUS = 60;
+
+// Entities rank above messages matching equally well
+const KIND_BOOST: Record<SearchDocumentKind, number> = {
+  repo: 3,
+  workspace: 2,
+  session: 1.5,
+  message: 1,
+};
+
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+/**
+ * Lowercased words and numbers in a text
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+export function messageDocumentId(sessionId: string, messageUuid: string) {
+  return `message:${sessionId}:${messageUuid}`;
+}
+
+/**
+ * Cut a window of text around the first matched term and locate every term
+ * inside it
+ */
+export function buildSnippet(text: string, terms: string[]): SearchSnippet {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+
+  let first = -1;
+  for (const term of terms) {
+    const index = lower.indexOf(term);
+    if (index !== -1 && (first === -1 || index < first)) {
+      first = index;
+    }
+  }
+
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(
+    flat.length,
+    Math.max(first, 0) + SNIPPET_RADIUS * 2 + 20,
+  );
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < flat.length ? '…' : '';
+  const snippet = prefix + flat.slice(start, end) + suffix;
+  const snippetLower = snippet.toLowerCase();
+
+  const highlights: [number, number][] = [];
+  for (const term of terms) {
+    let index = snippetLower.indexOf(term);
+    while (index !== -1) {
+      highlights.push([index, index + term.length]);
+      index = snippetLower.indexOf(term, index + term.length);
+    }
+  }
+  highlights.sort((a, b) => a[0] - b[0]);
+
+  // Merge overlaps so each character is highlighted once
+  const merged: [number, number][] = [];
+  for (const range of highlights) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return { text: snippet, highlights: merged };
+}
+
+export class SearchIndex {
+  private documents = new Map<string, SearchDocument>();
+  private postings = new Map<string, Set<string>>();
+  private tokensByDocument = new Map<string, string[]>();
+  private sortedTokens: string[] | null = null;
+
+  get size() {
+    return this.documents.size;
+  }
+
+  getDocuments(): SearchDocument[] {
+    return [...this.documents.values()];
+  }
+
+  get(id: string) {
+    return this.documents.get(id);
+  }
+
+  /**
+   * Add or replace a document
+   * @returns false when an identical document was already indexed
+   */
+  upsert(document: SearchDocument): boolean {
+    const existing = this.documents.get(document.id);
+    if (
+      existing &&
+      existing.title === document.title &&
+      existing.text === document.text &&
+      existing.timestamp === document.timestamp
+    ) {
+      return false;
+    }
+    if (existing) this.remove(document.id);
+
+    const searchable =
+      document.kind === 'message'
+        ? document.text
+        : `${document.title} ${document.text}`;
+    const tokens = [...new Set(tokenize(searchable))];
+    this.documents.set(document.id, document);
+    this.tokensByDocument.set(document.id, tokens);
+    for (const token of tokens) {
+      let ids = this.postings.get(token);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(token, ids);
+        this.sortedTokens = null;
+      }
+      ids.add(document.id);
+    }
+    return true;
+  }
+
+  remove(id: string): boolean {
+    if (!this.documents.delete(id)) return false;
+    for (const token of this.tokensByDocument.get(id) ?? []) {
+      const ids = this.postings.get(token);
+      if (!ids) continue;
+      ids.delete(id);
+      if (ids.size === 0) {
+        this.postings.delete(token);
+        this.sortedTokens = null;
+      }
+    }
+    this.tokensByDocument.delete(id);
+    return true;
+  }
+
+  /**
+   * Remove every document matching a predicate
+   * @returns Ids of the removed documents
+   */
+  removeWhere(predicate: (document: SearchDocument) => boolean): string[] {
+    const removed: string[] = [];
+    for (const document of this.documents.values()) {
+      if (predicate(document)) removed.push(document.id);
+    }
+    for (const id of removed) this.remove(id);
+    return removed;
+  }
+
+  /**
+   * Ids of documents containing a token that starts with the term
+   */
+  private matchPrefix(term: string): Map<string, number> {
+    if (!this.sortedTokens) {
+      this.sortedTokens = [...this.postings.keys()].sort();
+    }
+    const tokens = this.sortedTokens;
+
+    // Binary search for the first token not below the term
+    let low = 0;
+    let high = tokens.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (tokens[middle] < term) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    // Exact matches score higher than longer words sharing the prefix
+    const scores = new Map<string, number>();
+    for (let i = low; i < tokens.length && tokens[i].startsWith(term); i++) {
+      const weight = tokens[i] === term ? 1 : term.length / tokens[i].length;
+      for (const id of this.postings.get(tokens[i]) ?? []) {
+        scores.set(id, Math.max(scores.get(id) ?? 0, weight));
+      }
+    }
+    return scores;
+  }
+
+  /**
+   * Documents containing every term of the query, best matches first
+   */
+  search(query: string, limit = DEFAULT_LIMIT): SearchResult[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    let scores: Map<string, number> | null = null;
+    for (const term of terms) {
+      const matches = this.matchPrefix(term);
+      if (!scores) {
+        scores = matches;
+        continue;
+      }
+      const next = new Map<string, number>();
+      for (const [id, score] of scores) {
+        const weight = matches.get(id);
+        if (weight !== undefined) next.set(id, score + weight);
+      }
+      scores = next;
+      if (scores.size === 0) break;
+    }
+
+    const results: SearchResult[] = [];
+    for (const [id, score] of scores ?? []) {
+      const document = this.documents.get(id);
+      if (!document) continue;
+      results.push({
+        document,
+        score: score * KIND_BOOST[document.kind],
+        snippet: { text: '', highlights: [] },
+      });
+    }
+
+    results.sort(
+      (a, b) =>
+        b.score - a.score || b.document.timestamp - a.document.timestamp,
+    );
+    return results.slice(0, limit).map((result) => ({
+      ...result,
+      snippet: buildSnippet(result.document.text, terms),
+    }));
+  }
+}
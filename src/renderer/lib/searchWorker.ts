@@ -0,0 +1,266 @@
+import {
+  SearchIndex,
+  type SearchDocument,
+  type SearchResult,
+} from './searchIndex';
+
+/**
+ * Web worker that owns the search index
+ * Documents are kept in IndexedDB so the index survives restarts without
+ * refetching every session, and writes are batched off the UI thread.
+ */
+
+export type SearchWorkerRequest =
+  // Repo, workspace and session documents, replacing the previous set
+  | { type: 'replaceEntities'; documents: SearchDocument[] }
+  // Message documents of one session, appended or replacing the indexed ones
+  | {
+      type: 'indexSession';
+      sessionId: string;
+      modified: number;
+      documents: SearchDocument[];
+      replace: boolean;
+    }
+  | { type: 'search'; requestId: number; query: string };
+
+export type SearchWorkerResponse =
+  // Session modified times the persisted index was built from
+  | { type: 'ready'; sessionStamps: Record<string, number> }
+  | { type: 'results'; requestId: number; results: SearchResult[] };
+
+const DB_NAME = 'search-index';
+const DB_VERSION = 1;
+const DOCUMENTS_STORE = 'documents';
+const SESSIONS_STORE = 'sessions';
+
+// Delay before pending changes are written, so bursts share a transaction
+const FLUSH_DELAY = 1000;
+
+const index = new SearchIndex();
+const sessionStamps = new Map<string, number>();
+
+const pendingPuts = new Map<string, SearchDocument>();
+const pendingDeletes = new Set<string>();
+const pendingStamps = new Map<string, number | null>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+    request.result.createObjectStore(SESSIONS_STORE, {
+      keyPath: 'sessionId',
+    });
+  };
+  return requestToPromise(request);
+}
+
+/**
+ * Load the persisted index, starting empty when it cannot be read
+ */
+async function load(): Promise<IDBDatabase | null> {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(
+      [DOCUMENTS_STORE, SESSIONS_STORE],
+      'readonly',
+    );
+    const [documents, sessions] = await Promise.all([
+      requestToPromise<SearchDocument[]>(
+        transaction.objectStore(DOCUMENTS_STORE).getAll(),
+      ),
+      requestToPromise<{ sessionId: string; modified: number }[]>(
+        transaction.objectStore(SESSIONS_STORE).getAll(),
+      ),
+    ]);
+    for (const document of documents) {
+      index.upsert(document);
+    }
+    for (const session of sessions) {
+      sessionStamps.set(session.sessionId, session.modified);
+    }
+    return db;
+  } catch (error) {
+    console.error('Failed to load search index:', error);
+    return null;
+  }
+}
+
+const dbPromise = load();
+
+function scheduleFlush() {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flush();
+  }, FLUSH_DELAY);
+}
+
+async function flush() {
+  const db = await dbPromise;
+  if (!db) return;
+
+  const transaction = db.transaction(
+    [DOCUMENTS_STORE, SESSIONS_STORE],
+    'readwrite',
+  );
+  const documents = transaction.objectStore(DOCUMENTS_STORE);
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  for (const id of pendingDeletes) {
+    documents.delete(id);
+  }
+  for (const document of pendingPuts.values()) {
+    documents.put(document);
+  }
+  for (const [sessionId, modified] of pendingStamps) {
+    if (modified === null) {
+      sessions.delete(sessionId);
+    } else {
+      sessions.put({ sessionId, modified });
+    }
+  }
+  pendingDeletes.clear();
+  pendingPuts.clear();
+  pendingStamps.clear();
+  transaction.onerror = () => {
+    console.error('Failed to save search index:', transaction.error);
+  };
+}
+
+function putDocument(document: SearchDocument) {
+  if (!index.upsert(document)) return;
+  pendingDeletes.delete(document.id);
+  pendingPuts.set(document.id, document);
+  scheduleFlush();
+}
+
+function deleteDocuments(ids: string[]) {
+  for (const id of ids) {
+    pendingPuts.delete(id);
+    pendingDeletes.add(id);
+  }
+  if (ids.length > 0) scheduleFlush();
+}
+
+function setSessionStamp(sessionId: string, modified: number | null) {
+  if (modified === null) {
+    sessionStamps.delete(sessionId);
+  } else {
+    sessionStamps.set(sessionId, modified);
+  }
+  pendingStamps.set(sessionId, modified);
+  scheduleFlush();
+}
+
+function replaceEntities(documents: SearchDocument[]) {
+  const entityIds = new Set(documents.map((document) => document.id));
+  const workspaceIds = new Set<string>();
+  const sessionIds = new Set<string>();
+  const workspacesWithSessions = new Set<string>();
+  for (const document of documents) {
+    if (document.kind === 'workspace' && document.workspaceId) {
+      workspaceIds.add(document.workspaceId);
+    }
+    if (document.kind === 'session' && document.sessionId) {
+      sessionIds.add(document.sessionId);
+      if (document.workspaceId)
+        workspacesWithSessions.add(document.workspaceId);
+    }
+  }
+
+  // Messages outlive their session only while the session list is unknown
+  const removed = index.removeWhere((document) => {
+    if (document.kind !== 'message') return !entityIds.has(document.id);
+    if (document.sessionId && sessionIds.has(document.sessionId)) return false;
+    return (
+      !document.workspaceId ||
+      !workspaceIds.has(document.workspaceId) ||
+      workspacesWithSessions.has(document.workspaceId)
+    );
+  });
+  deleteDocuments(removed);
+
+  // Drop the modified times of sessions whose documents are all gone
+  const indexedSessionIds = new Set(
+    index.getDocuments().map((document) => document.sessionId),
+  );
+  for (const sessionId of sessionStamps.keys()) {
+    if (!sessionIds.has(sessionId) && !indexedSessionIds.has(sessionId)) {
+      setSessionStamp(sessionId, null);
+    }
+  }
+
+  for (const document of documents) {
+    putDocument(document);
+  }
+}
+
+function indexSession(
+  sessionId: string,
+  modified: number,
+  documents: SearchDocument[],
+  replace: boolean,
+) {
+  if (replace) {
+    const ids = new Set(documents.map((document) => document.id));
+    deleteDocuments(
+      index.removeWhere(
+        (document) =>
+          document.kind === 'message' &&
+          document.sessionId === sessionId &&
+          !ids.has(document.id),
+      ),
+    );
+  }
+  for (const document of documents) {
+    putDocument(document);
+  }
+  setSessionStamp(sessionId, modified);
+}
+
+function respond(response: SearchWorkerResponse) {
+  self.postMessage(response);
+}
+
+dbPromise.then(() => {
+  respond({
+    type: 'ready',
+    sessionStamps: Object.fromEntries(sessionStamps),
+  });
+});
+
+self.addEventListener(
+  'message',
+  async (event: MessageEvent<SearchWorkerRequest>) => {
+    // Requests sent during loading wait for it, in the order they arrived
+    await dbPromise;
+    const request = event.data;
+    switch (request.type) {
+      case 'replaceEntities':
+        replaceEntities(request.documents);
+        break;
+      case 'indexSession':
+        indexSession(
+          request.sessionId,
+          request.modified,
+          request.documents,
+          request.replace,
+        );
+        break;
+      case 'search':
+        respond({
+          type: 'results',
+          requestId: request.requestId,
+          results: index.search(request.query),
+        });
+        break;
+    }
+  },
+);
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { applyChunk, createStreamingMessage } from './streamingMessage';
+
+describe('applyChunk', () => {
+  it('should merge text and reasoning deltas into consecutive parts', () => {
+    const chunks = [
+      { type: 'reasoning-delta', id: 'r1', delta: 'Let me ' },
+      { type: 'reasoning-delta', id: 'r1', delta: 'check.' },
+      { type: 'text-delta', id: 't1', delta: 'Hello' },
+      { type: 'text-delta', textDelta: ' world' },
+      { type: 'finish' },
+    ];
+    const message = chunks.reduce(
+      applyChunk,
+      createStreamingMessage('session-1', 'parent-1'),
+    );
+
+    expect(message.uuid).toBe('streaming-session-1');
+    expect(message.parentUuid).toBe('parent-1');
+    expect(message.text).toBe('Hello world');
+    expect(message.content).toEqual([
+      { type: 'reasoning', text: 'Let me check.' },
+      { type: 'text', text: 'Hello world' },
+    ]);
+  });
+
+  it('should show a tool use when it starts and fill its input on the call', () => {
+    const started = applyChunk(createStreamingMessage('session-1', null), {
+      type: 'tool-input-start',
+      id: 'call-1',
+      toolName: 'read',
+    });
+    expect(started.content).toEqual([
+      { type: 'tool_use', id: 'call-1', name: 'read', input: {} },
+    ]);
+
+    const called = applyChunk(started, {
+      type: 'tool-call',
+      toolCallId: 'call-1',
+      toolName: 'read',
+      input: '{"file_path":"a.ts"}',
+    });
+    expect(called.content).toEqual([
+      {
+        type: 'tool_use',
+        id: 'call-1',
+        name: 'read',
+        input: { file_path: 'a.ts' },
+      },
+    ]);
+  });
+
+  it('should return the same message for chunks without content', () => {
+    const message = createStreamingMessage('session-1', null);
+
+    expect(applyChunk(message, { type: 'stream-start' })).toBe(message);
+    expect(applyChunk(message, { type: 'text-delta', delta: '' })).toBe(
+      message,
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import type {
+  AssistantMessage,
+  NormalizedMessage,
+  ReasoningPart,
+  TextPart,
+  ToolUsePart,
+} from '../client/types/message';
+
+/**
+ * Assistant message assembled from `chunk` events while it streams
+ * It is shown until the backend sends the final `message` event.
+ */
+export type StreamingMessage = NormalizedMessage & AssistantMessage;
+
+type StreamingPart = TextPart | ReasoningPart | ToolUsePart;
+
+export function createStreamingMessage(
+  sessionId: string,
+  parentUuid: string | null,
+): StreamingMessage {
+  return {
+    type: 'message',
+    role: 'assistant',
+    uuid: `streaming-${sessionId}`,
+    parentUuid,
+    timestamp: new Date().toISOString(),
+    content: [],
+    text: '',
+    model: '',
+    usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+  };
+}
+
+/**
+ * Text carried by a delta chunk, providers name the field differently
+ */
+function readDelta(chunk: Record<string, unknown>): string {
+  const delta = chunk.delta ?? chunk.textDelta ?? chunk.text;
+  return typeof delta === 'string' ? delta : '';
+}
+
+/**
+ * Tool input arrives as a JSON string or an already parsed object
+ */
+function readToolInput(value: unknown): Record<string, unknown> {
+  if (typeof value === 'string') {
+    try {
+      return readToolInput(JSON.parse(value));
+    } catch {
+      return {};
+    }
+  }
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function appendText(
+  parts: StreamingPart[],
+  type: 'text' | 'reasoning',
+  text: string,
+): StreamingPart[] {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    return [...parts.slice(0, -1), { type, text: last.text + text }];
+  }
+  return [...parts, { type, text }];
+}
+
+function upsertToolUse(parts: StreamingPart[], part: ToolUsePart) {
+  const index = parts.findIndex(
+    (existing) => existing.type === 'tool_use' && existing.id === part.id,
+  );
+  if (index === -1) return [...parts, part];
+  return parts.map((existing, i) => (i === index ? part : existing));
+}
+
+/**
+ * Apply one stream chunk to a streaming message
+ * Returns the same message for chunks that add nothing visible, such as
+ * start and finish markers, so callers can skip re-rendering.
+ */
+export function applyChunk(
+  message: StreamingMessage,
+  chunk: unknown,
+): StreamingMessage {
+  if (!chunk || typeof chunk !== 'object') return message;
+  const data = chunk as Record<string, unknown>;
+  const parts = (
+    Array.isArray(message.content) ? message.content : []
+  ) as StreamingPart[];
+
+  switch (data.type) {
+    case 'text-delta':
+    case 'text': {
+      const text = readDelta(data);
+      if (!text) return message;
+      return {
+        ...message,
+        content: appendText(parts, 'text', text),
+        text: message.text + text,
+      };
+    }
+    case 'reasoning-delta':
+    case 'reasoning': {
+      const text = readDelta(data);
+      if (!text) return message;
+      return { ...message, content: appendText(parts, 'reasoning', text) };
+    }
+    // The tool name is known before its input has streamed
+    case 'tool-input-start':
+    case 'tool-call-streaming-start': {
+      const id = String(data.id ?? data.toolCallId ?? '');
+      if (
+        !id ||
+        parts.some((part) => part.type === 'tool_use' && part.id === id)
+      ) {
+        return message;
+      }
+      return {
+        ...message,
+        content: [
+          ...parts,
+          { type: 'tool_use', id, name: String(data.toolName), input: {} },
+        ],
+      };
+    }
+    case 'tool-call': {
+      const id = String(data.toolCallId ?? data.id ?? '');
+      if (!id) return message;
+      return {
+        ...message,
+        content: upsertToolUse(parts, {
+          type: 'tool_use',
+          id,
+          name: String(data.toolName),
+          input: readToolInput(data.input ?? data.args),
+        }),
+      };
+    }
+    default:
+      return message;
+  }
+}
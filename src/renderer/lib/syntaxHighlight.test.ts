@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { getLanguage, highlightLine } from './syntaxHighlight';
+
+describe('highlightLine', () => {
+  it('should tokenize keywords, strings, numbers and comments', () => {
+    const tokens = highlightLine(
+      "const name = 'a\\'b' + 42; // note",
+      getLanguage('src/app.tsx'),
+    );
+
+    expect(tokens).toEqual([
+      { type: 'keyword', text: 'const' },
+      { type: 'plain', text: ' name = ' },
+      { type: 'string', text: "'a\\'b'" },
+      { type: 'plain', text: ' + ' },
+      { type: 'number', text: '42' },
+      { type: 'plain', text: '; ' },
+      { type: 'comment', text: '// note' },
+    ]);
+  });
+
+  it('should leave unknown languages as plain text', () => {
+    expect(getLanguage('README')).toBeNull();
+    expect(highlightLine('if x', null)).toEqual([
+      { type: 'plain', text: 'if x' },
+    ]);
+  });
+});
@@ -0,0 +1,416 @@
+/**
+ * Lightweight, line-based syntax highlighting for diffs
+ * Diff lines are shown out of order, so each line is tokenized on its own
+ * and only keywords, strings, comments and numbers are recognized.
+ */
+
+export type SyntaxTokenType =
+  | 'keyword'
+  | 'string'
+  | 'comment'
+  | 'number'
+  | 'plain';
+
+export interface SyntaxToken {
+  type: SyntaxTokenType;
+  text: string;
+}
+
+interface Grammar {
+  keywords: Set<string>;
+  lineComments: string[];
+  blockComment: [string, string] | null;
+  quotes: string[];
+}
+
+const C_LIKE_KEYWORDS = [
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'default',
+  'do',
+  'else',
+  'enum',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'if',
+  'import',
+  'new',
+  'null',
+  'private',
+  'protected',
+  'public',
+  'return',
+  'static',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'void',
+  'while',
+];
+
+const GRAMMARS: Record<string, Grammar> = {
+  javascript: {
+    keywords: new Set([
+      ...C_LIKE_KEYWORDS,
+      'as',
+      'async',
+      'await',
+      'declare',
+      'delete',
+      'export',
+      'from',
+      'function',
+      'implements',
+      'in',
+      'instanceof',
+      'interface',
+      'let',
+      'namespace',
+      'of',
+      'readonly',
+      'super',
+      'type',
+      'typeof',
+      'undefined',
+      'var',
+      'yield',
+    ]),
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"', '`'],
+  },
+  python: {
+    keywords: new Set([
+      'and',
+      'as',
+      'assert',
+      'async',
+      'await',
+      'break',
+      'class',
+      'continue',
+      'def',
+      'del',
+      'elif',
+      'else',
+      'except',
+      'False',
+      'finally',
+      'for',
+      'from',
+      'global',
+      'if',
+      'import',
+      'in',
+      'is',
+      'lambda',
+      'None',
+      'nonlocal',
+      'not',
+      'or',
+      'pass',
+      'raise',
+      'return',
+      'self',
+      'True',
+      'try',
+      'while',
+      'with',
+      'yield',
+    ]),
+    lineComments: ['#'],
+    blockComment: null,
+    quotes: ["'", '"'],
+  },
+  go: {
+    keywords: new Set([
+      ...C_LIKE_KEYWORDS,
+      'chan',
+      'defer',
+      'fallthrough',
+      'func',
+      'go',
+      'goto',
+      'interface',
+      'map',
+      'nil',
+      'package',
+      'range',
+      'select',
+      'struct',
+      'type',
+      'var',
+    ]),
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"', '`'],
+  },
+  rust: {
+    keywords: new Set([
+      ...C_LIKE_KEYWORDS,
+      'as',
+      'crate',
+      'dyn',
+      'fn',
+      'impl',
+      'in',
+      'let',
+      'loop',
+      'match',
+      'mod',
+      'move',
+      'mut',
+      'pub',
+      'ref',
+      'self',
+      'Self',
+      'struct',
+      'super',
+      'trait',
+      'type',
+      'unsafe',
+      'use',
+      'where',
+    ]),
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"'],
+  },
+  c: {
+    keywords: new Set([
+      ...C_LIKE_KEYWORDS,
+      'abstract',
+      'auto',
+      'bool',
+      'char',
+      'double',
+      'final',
+      'float',
+      'fun',
+      'implements',
+      'int',
+      'interface',
+      'long',
+      'namespace',
+      'override',
+      'package',
+      'short',
+      'signed',
+      'sizeof',
+      'struct',
+      'template',
+      'typedef',
+      'typename',
+      'union',
+      'unsigned',
+      'using',
+      'val',
+      'var',
+    ]),
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+  },
+  ruby: {
+    keywords: new Set([
+      'begin',
+      'class',
+      'def',
+      'do',
+      'else',
+      'elsif',
+      'end',
+      'ensure',
+      'false',
+      'if',
+      'module',
+      'nil',
+      'require',
+      'rescue',
+      'return',
+      'self',
+      'true',
+      'unless',
+      'until',
+      'when',
+      'while',
+      'yield',
+    ]),
+    lineComments: ['#'],
+    blockComment: null,
+    quotes: ["'", '"'],
+  },
+  shell: {
+    keywords: new Set([
+      'case',
+      'do',
+      'done',
+      'elif',
+      'else',
+      'esac',
+      'export',
+      'fi',
+      'for',
+      'function',
+      'if',
+      'in',
+      'local',
+      'return',
+      'then',
+      'while',
+    ]),
+    lineComments: ['#'],
+    blockComment: null,
+    quotes: ["'", '"'],
+  },
+  css: {
+    keywords: new Set(['important', 'media', 'import', 'keyframes']),
+    lineComments: [],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+  },
+  yaml: {
+    keywords: new Set(['true', 'false', 'null', 'yes', 'no']),
+    lineComments: ['#'],
+    blockComment: null,
+    quotes: ["'", '"'],
+  },
+  json: {
+    keywords: new Set(['true', 'false', 'null']),
+    lineComments: [],
+    blockComment: null,
+    quotes: ['"'],
+  },
+};
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  mts: 'javascript',
+  cts: 'javascript',
+  py: 'python',
+  go: 'go',
+  rs: 'rust',
+  c: 'c',
+  h: 'c',
+  cc: 'c',
+  cpp: 'c',
+  hpp: 'c',
+  java: 'c',
+  kt: 'c',
+  cs: 'c',
+  swift: 'c',
+  rb: 'ruby',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  css: 'css',
+  scss: 'css',
+  less: 'css',
+  yml: 'yaml',
+  yaml: 'yaml',
+  toml: 'yaml',
+  json: 'json',
+  jsonc: 'javascript',
+};
+
+/**
+ * Language used to highlight a file, null when the extension is unknown
+ */
+export function getLanguage(filePath: string): string | null {
+  const extension = filePath.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_LANGUAGES[extension] || null;
+}
+
+/**
+ * Split a line into highlighted tokens
+ * Lines that look like the middle of a block comment are treated as one.
+ */
+export function highlightLine(
+  line: string,
+  language: string | null,
+): SyntaxToken[] {
+  const grammar = language ? GRAMMARS[language] : undefined;
+  if (!grammar) {
+    return [{ type: 'plain', text: line }];
+  }
+
+  if (grammar.blockComment && /^\s*\*/.test(line)) {
+    return [{ type: 'comment', text: line }];
+  }
+
+  const tokens: SyntaxToken[] = [];
+  const push = (type: SyntaxTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  while (i < line.length) {
+    const rest = line.slice(i);
+
+    if (grammar.lineComments.some((marker) => rest.startsWith(marker))) {
+      push('comment', rest);
+      break;
+    }
+
+    if (grammar.blockComment && rest.startsWith(grammar.blockComment[0])) {
+      const close = rest.indexOf(
+        grammar.blockComment[1],
+        grammar.blockComment[0].length,
+      );
+      const end =
+        close === -1 ? rest.length : close + grammar.blockComment[1].length;
+      push('comment', rest.slice(0, end));
+      i += end;
+      continue;
+    }
+
+    const quote = grammar.quotes.find((marker) => rest.startsWith(marker));
+    if (quote) {
+      let end = 1;
+      while (end < rest.length && rest[end] !== quote) {
+        end += rest[end] === '\\' ? 2 : 1;
+      }
+      end = Math.min(end + 1, rest.length);
+      push('string', rest.slice(0, end));
+      i += end;
+      continue;
+    }
+
+    const number = rest.match(/^\d[\d_.xXa-fA-F]*/);
+    if (number && !/[\w$]/.test(line[i - 1] || '')) {
+      push('number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    const word = rest.match(/^[A-Za-z_$][\w$]*/);
+    if (word) {
+      push(grammar.keywords.has(word[0]) ? 'keyword' : 'plain', word[0]);
+      i += word[0].length;
+      continue;
+    }
+
+    push('plain', line[i]);
+    i += 1;
+  }
+
+  return tokens;
+}
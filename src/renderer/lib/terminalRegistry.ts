@@ -0,0 +1,135 @@
+import { Terminal as XTerm } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import type { StoreApi } from 'zustand';
+import type { Store } from '../store';
+
+// xterm instances live outside React so their scrollback survives
+// unmounting when the user switches between workspaces
+interface TerminalInstance {
+  xterm: XTerm;
+  fitAddon: FitAddon;
+  element: HTMLDivElement;
+  opened: boolean;
+}
+
+const instances = new Map<string, TerminalInstance>();
+// Closed terminals, output still in flight for them is dropped
+const disposedIds = new Set<string>();
+let unsubscribers: Array<() => void> | null = null;
+
+const TERMINAL_THEME = {
+  background: '#1e1e1e',
+  foreground: '#d4d4d4',
+  cursor: '#d4d4d4',
+  selectionBackground: '#264f78',
+};
+
+function getOrCreateInstance(id: string): TerminalInstance {
+  const existing = instances.get(id);
+  if (existing) return existing;
+
+  const xterm = new XTerm({
+    fontFamily: 'Menlo, Monaco, "Courier New", monospace',
+    fontSize: 12,
+    cursorBlink: true,
+    scrollback: 5000,
+    theme: TERMINAL_THEME,
+  });
+  const fitAddon = new FitAddon();
+  xterm.loadAddon(fitAddon);
+
+  // Forward keystrokes and size changes to the pty
+  xterm.onData((data) => window.electron?.terminalWrite(id, data));
+  xterm.onResize(({ cols, rows }) =>
+    window.electron?.terminalResize(id, cols, rows),
+  );
+
+  const element = document.createElement('div');
+  element.style.width = '100%';
+  element.style.height = '100%';
+
+  const instance = { xterm, fitAddon, element, opened: false };
+  instances.set(id, instance);
+  return instance;
+}
+
+/**
+ * Subscribe once to pty output and exit events from the main process
+ * Exit codes are recorded so closed shells show as exited in their tab.
+ */
+export function setupTerminalEvents(store: StoreApi<Store>) {
+  if (unsubscribers || !window.electron) return;
+
+  unsubscribers = [
+    window.electron.onTerminalData(({ id, data }) => {
+      if (disposedIds.has(id)) return;
+      getOrCreateInstance(id).xterm.write(data);
+    }),
+    window.electron.onTerminalExit(({ id, exitCode }) => {
+      instances
+        .get(id)
+        ?.xterm.write(
+          `\r\n\x1b[90m[Process exited with code ${exitCode}]\x1b[0m\r\n`,
+        );
+      store.setState((state) => {
+        const terminalsByWorkspace = { ...state.terminalsByWorkspace };
+        for (const [workspaceId, tabs] of Object.entries(
+          terminalsByWorkspace,
+        )) {
+          if (tabs.some((tab) => tab.id === id)) {
+            terminalsByWorkspace[workspaceId] = tabs.map((tab) =>
+              tab.id === id ? { ...tab, exitCode } : tab,
+            );
+          }
+        }
+        return { terminalsByWorkspace };
+      });
+    }),
+  ];
+}
+
+/**
+ * Mount a terminal into a host element, opening it on first use
+ */
+export function attachTerminal(id: string, host: HTMLElement) {
+  const instance = getOrCreateInstance(id);
+  host.appendChild(instance.element);
+  if (!instance.opened) {
+    instance.xterm.open(instance.element);
+    instance.opened = true;
+  }
+  fitTerminal(id);
+  instance.xterm.focus();
+}
+
+/**
+ * Remove a terminal from the DOM while keeping its buffer
+ */
+export function detachTerminal(id: string) {
+  instances.get(id)?.element.remove();
+}
+
+/**
+ * Fit a terminal to its host element, which also resizes the pty
+ */
+export function fitTerminal(id: string) {
+  const instance = instances.get(id);
+  if (!instance?.opened || !instance.element.isConnected) return;
+  try {
+    instance.fitAddon.fit();
+  } catch {
+    // The host can be hidden or zero sized while layout settles
+  }
+}
+
+/**
+ * Dispose a terminal's xterm instance once its tab is closed
+ */
+export function disposeTerminal(id: string) {
+  disposedIds.add(id);
+  const instance = instances.get(id);
+  if (!instance) return;
+  instance.element.remove();
+  instance.xterm.dispose();
+  instances.delete(id);
+}
@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest';
+import type { NormalizedMessage } from '../client/types/message';
+import {
+  createTranscript,
+  getReplayDelay,
+  getTranscriptFileName,
+  parseTranscript,
+  transcriptToMarkdown,
+} from './transcript';
+
+const session = {
+  sessionId: 'session-1',
+  summary: 'Fix the login form',
+  created: 0,
+  modified: 0,
+  messageCount: 3,
+};
+
+const workspace = {
+  id: 'workspace-1',
+  repoPath: '/repo',
+  branch: 'fix-login',
+  worktreePath: '/repo/.worktrees/fix-login',
+  gitState: { currentCommit: '', isDirty: false, pendingChanges: [] },
+  metadata: { createdAt: 0, description: '', status: 'active' as const },
+  context: { activeFiles: [] },
+};
+
+const messages: NormalizedMessage[] = [
+  {
+    type: 'message',
+    role: 'user',
+    uuid: 'u1',
+    parentUuid: null,
+    timestamp: '2025-01-01T00:00:00.000Z',
+    content: 'Fix the login form',
+  },
+  {
+    type: 'message',
+    role: 'assistant',
+    uuid: 'a1',
+    parentUuid: 'u1',
+    timestamp: '2025-01-01T00:00:01.000Z',
+    content: [
+      { type: 'reasoning', text: 'The submit handler is wrong.' },
+      { type: 'text', text: 'Updating the handler.' },
+      {
+        type: 'tool_use',
+        id: 'call-1',
+        name: 'edit',
+        input: {
+          file_path: 'login.ts',
+          old_string: 'submit()',
+          new_string: 'await submit()',
+        },
+      },
+    ],
+    text: 'Updating the handler.',
+    model: 'test-model',
+    usage: { inputTokens: 1200, outputTokens: 30, totalTokens: 1230 },
+  },
+  {
+    type: 'message',
+    role: 'user',
+    uuid: 'r1',
+    parentUuid: 'a1',
+    timestamp: '2025-01-01T00:00:02.000Z',
+    content: [
+      {
+        type: 'tool_result',
+        id: 'call-1',
+        name: 'edit',
+        input: {},
+        result: {
+          llmContent: 'Edited login.ts',
+          returnDisplay: { type: 'diff_viewer', diff: '' },
+        },
+      },
+    ],
+  },
+];
+
+describe('transcriptToMarkdown', () => {
+  it('should render tool calls with their diff and usage under the assistant message', () => {
+    const markdown = transcriptToMarkdown(
+      createTranscript(session, workspace, messages, {
+        includeReasoning: false,
+      }),
+    );
+
+    expect(markdown).toContain('# Fix the login form');
+    expect(markdown).toContain('- Workspace: `fix-login` (/repo)');
+    expect(markdown).toContain('Updating the handler.');
+    expect(markdown).toContain('#### edit');
+    expect(markdown).toContain('-submit()\n+await submit()');
+    expect(markdown).toContain('_test-model · 1,200 in · 30 out_');
+    expect(markdown).not.toContain('The submit handler is wrong.');
+  });
+
+  it('should export the patch the tool reported when there is one', () => {
+    const diff =
+      '--- login.ts\n+++ login.ts\n@@ -12,1 +12,1 @@\n-submit()\n+await submit()\n';
+    const reported: NormalizedMessage[] = [
+      ...messages.slice(0, 2),
+      {
+        type: 'message',
+        role: 'user',
+        uuid: 'r1',
+        parentUuid: 'a1',
+        timestamp: '2025-01-01T00:00:02.000Z',
+        content: [
+          {
+            type: 'tool_result',
+            id: 'call-1',
+            name: 'edit',
+            input: {},
+            result: {
+              llmContent: 'Edited login.ts',
+              returnDisplay: { type: 'diff_viewer', diff },
+            },
+          },
+        ],
+      },
+    ];
+    const markdown = transcriptToMarkdown(
+      createTranscript(session, workspace, reported, {
+        includeReasoning: false,
+      }),
+    );
+
+    expect(markdown).toContain('@@ -12,1 +12,1 @@');
+  });
+
+  it('should include reasoning when asked to', () => {
+    const markdown = transcriptToMarkdown(
+      createTranscript(session, workspace, messages, {
+        includeReasoning: true,
+      }),
+    );
+
+    expect(markdown).toContain(
+      '> **Thought**\n>\n> The submit handler is wrong.',
+    );
+  });
+});
+
+describe('getTranscriptFileName', () => {
+  it('should slugify the session summary', () => {
+    const transcript = createTranscript(session, null, [], {
+      includeReasoning: false,
+    });
+
+    expect(getTranscriptFileName(transcript, 'markdown')).toBe(
+      'fix-the-login-form.md',
+    );
+  });
+});
+
+describe('parseTranscript', () => {
+  it('should import valid messages and report each rejected entry', () => {
+    const exported = createTranscript(session, workspace, messages, {
+      includeReasoning: true,
+    });
+    const text = JSON.stringify({
+      ...exported,
+      messages: [
+        ...exported.messages,
+        { ...messages[0] },
+        { ...messages[0], uuid: 'u2', role: 'bot' },
+        {
+          ...messages[1],
+          uuid: 'a2',
+          content: [{ type: 'tool_use', id: 'call-2', name: 'read' }],
+        },
+        'not a message',
+      ],
+    });
+
+    const result = parseTranscript(text, 'import.json');
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.transcript.session.summary).toBe('Fix the login form');
+    expect(result.transcript.messages.map((message) => message.uuid)).toEqual([
+      'u1',
+      'a1',
+      'r1',
+    ]);
+    expect(result.rejected).toEqual([
+      { index: 3, uuid: 'u1', reason: 'uuid is used by an earlier message' },
+      {
+        index: 4,
+        uuid: 'u2',
+        reason: 'role must be one of user, assistant, system, tool',
+      },
+      { index: 5, uuid: 'a2', reason: 'content[0].input must be an object' },
+      { index: 6, uuid: null, reason: 'entry must be an object' },
+    ]);
+  });
+
+  it('should accept a bare message array and refuse other documents', () => {
+    const result = parseTranscript(JSON.stringify(messages), 'login.json');
+    expect(result.success && result.transcript.session.summary).toBe(
+      'login.json',
+    );
+
+    expect(parseTranscript('{', 'x.json').success).toBe(false);
+    expect(parseTranscript('{"sessions": []}', 'x.json').success).toBe(false);
+  });
+});
+
+describe('getReplayDelay', () => {
+  it('should follow the recorded gap within bounds and scale by speed', () => {
+    expect(getReplayDelay(messages[0], messages[1], 1)).toBe(1000);
+    expect(getReplayDelay(messages[0], messages[1], 2)).toBe(500);
+    expect(getReplayDelay(undefined, messages[0], 1)).toBe(150);
+    expect(
+      getReplayDelay(
+        messages[0],
+        { ...messages[1], timestamp: '2025-01-01T01:00:00.000Z' },
+        1,
+      ),
+    ).toBe(3000);
+  });
+});
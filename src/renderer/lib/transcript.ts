@@ -0,0 +1,547 @@
+import { structuredPatch } from 'diff';
+import type { SessionData, WorkspaceData } from '../client/types/entities';
+import type {
+  DiffViewerReturnDisplay,
+  NormalizedMessage,
+  ToolResult,
+  ToolUsePart,
+} from '../client/types/message';
+import {
+  buildToolResultIndex,
+  extractImageParts,
+  extractReasoningParts,
+  extractTextParts,
+  getDiffContents,
+  getMessageText,
+  getTodoItems,
+  getToolResultText,
+  isCompactMessage,
+  isToolResultMessage,
+  pairToolsWithResults,
+  shouldHideMessage,
+} from '../components/messages/messageHelpers';
+import type { ToolPair } from '../components/messages/types';
+
+/**
+ * Session transcripts for sharing outside the app
+ * The JSON form carries the raw messages, Markdown and HTML render them the
+ * way the message list does.
+ */
+
+export type TranscriptFormat = 'markdown' | 'html' | 'json';
+
+export const TRANSCRIPT_VERSION = 1;
+
+export interface SessionTranscript {
+  version: number;
+  exportedAt: string;
+  session: Pick<SessionData, 'sessionId' | 'summary' | 'created' | 'modified'>;
+  workspace: Pick<WorkspaceData, 'repoPath' | 'branch'> | null;
+  messages: NormalizedMessage[];
+}
+
+export interface TranscriptOptions {
+  // Reasoning is often long and rarely useful to reviewers
+  includeReasoning: boolean;
+}
+
+const FILE_EXTENSIONS: Record<TranscriptFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json',
+};
+
+/**
+ * Drop reasoning parts from assistant messages
+ */
+function withoutReasoning(message: NormalizedMessage): NormalizedMessage {
+  if (message.role !== 'assistant' || !Array.isArray(message.content)) {
+    return message;
+  }
+  return {
+    ...message,
+    content: message.content.filter((part) => part.type !== 'reasoning'),
+  };
+}
+
+export function createTranscript(
+  session: SessionData,
+  workspace: WorkspaceData | null,
+  messages: NormalizedMessage[],
+  options: TranscriptOptions,
+): SessionTranscript {
+  return {
+    version: TRANSCRIPT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      sessionId: session.sessionId,
+      summary: session.summary,
+      created: session.created,
+      modified: session.modified,
+    },
+    workspace: workspace
+      ? { repoPath: workspace.repoPath, branch: workspace.branch }
+      : null,
+    messages: options.includeReasoning
+      ? messages
+      : messages.map(withoutReasoning),
+  };
+}
+
+export function getTranscriptTitle(transcript: SessionTranscript): string {
+  return transcript.session.summary || 'Untitled session';
+}
+
+/**
+ * File name for an exported transcript, e.g. "fix-login-bug.md"
+ */
+export function getTranscriptFileName(
+  transcript: SessionTranscript,
+  format: TranscriptFormat,
+): string {
+  const slug =
+    getTranscriptTitle(transcript)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || transcript.session.sessionId;
+  return `${slug}.${FILE_EXTENSIONS[format]}`;
+}
+
+/**
+ * Model and token counts of an assistant message, e.g. "claude · 1,200 in · 300 out"
+ */
+export function formatUsage(message: NormalizedMessage): string | null {
+  if (message.role !== 'assistant' || !message.usage) return null;
+  const { usage } = message;
+  const parts = [
+    message.model,
+    `${usage.inputTokens.toLocaleString('en-US')} in`,
+    `${usage.outputTokens.toLocaleString('en-US')} out`,
+  ];
+  if (usage.cacheReadInputTokens) {
+    parts.push(
+      `${usage.cacheReadInputTokens.toLocaleString('en-US')} cache read`,
+    );
+  }
+  return parts.filter(Boolean).join(' · ');
+}
+
+/**
+ * Fence a block so backticks inside it cannot close it early
+ */
+function fence(content: string, language = ''): string {
+  const longestRun = Math.max(
+    2,
+    ...(content.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${content.replace(/\n$/, '')}\n${marker}`;
+}
+
+function quote(content: string): string {
+  return content
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+/**
+ * The patch the tool reported, or one rebuilt from the edit's snippets when
+ * the result has none
+ */
+function formatDiff(
+  input: ToolUsePart['input'],
+  display: DiffViewerReturnDisplay,
+): string {
+  if (display.diff.trim()) {
+    return fence(display.diff, 'diff');
+  }
+  const { originalContent, newContent, filePath } = getDiffContents(input);
+  const patch = structuredPatch(
+    filePath,
+    filePath,
+    originalContent,
+    newContent,
+  );
+  const lines = [`--- ${filePath}`, `+++ ${filePath}`];
+  for (const hunk of patch.hunks) {
+    lines.push(
+      `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+      // Skip "\ No newline at end of file", edits are usually fragments
+      ...hunk.lines.filter((line) => !line.startsWith('\\')),
+    );
+  }
+  return fence(lines.join('\n'), 'diff');
+}
+
+function formatToolResult(pair: ToolPair, result: ToolResult): string {
+  if (result.isError) {
+    return `**Error**\n\n${fence(getToolResultText(result))}`;
+  }
+  const display = result.returnDisplay;
+  if (display && typeof display === 'object') {
+    if (display.type === 'diff_viewer') {
+      return formatDiff(pair.toolUse.input, display);
+    }
+    if (display.type === 'todo_read' || display.type === 'todo_write') {
+      return getTodoItems(pair.toolUse.input)
+        .map(
+          (todo) =>
+            `- [${todo.status === 'completed' ? 'x' : ' '}] ${todo.content}${
+              todo.status === 'in_progress' ? ' _(in progress)_' : ''
+            }`,
+        )
+        .join('\n');
+    }
+  }
+  return fence(getToolResultText(result));
+}
+
+function formatToolPair(pair: ToolPair): string {
+  const { toolUse, toolResult } = pair;
+  const heading = [
+    `#### ${toolUse.displayName || toolUse.name}`,
+    toolUse.description ? ` — ${toolUse.description}` : '',
+  ].join('');
+  const sections = [
+    heading,
+    fence(JSON.stringify(toolUse.input, null, 2), 'json'),
+  ];
+  sections.push(
+    toolResult ? formatToolResult(pair, toolResult.result) : '_(no result)_',
+  );
+  return sections.join('\n\n');
+}
+
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+}
+
+/**
+ * Render a transcript as Markdown, tool calls are shown with their inputs
+ * and results under the assistant message that made them
+ */
+export function transcriptToMarkdown(transcript: SessionTranscript): string {
+  const { messages, session, workspace } = transcript;
+  const toolResults = buildToolResultIndex(messages);
+
+  const header = [`# ${getTranscriptTitle(transcript)}`, ''];
+  if (workspace) {
+    header.push(`- Workspace: \`${workspace.branch}\` (${workspace.repoPath})`);
+  }
+  header.push(
+    `- Session: \`${session.sessionId}\``,
+    `- Exported: ${formatTimestamp(transcript.exportedAt)}`,
+  );
+
+  const sections = [header.join('\n')];
+  for (const message of messages) {
+    if (shouldHideMessage(message) || isToolResultMessage(message)) continue;
+
+    if (isCompactMessage(message)) {
+      sections.push(
+        `_Earlier history summarized_\n\n${quote(getMessageText(message))}`,
+      );
+      continue;
+    }
+
+    const time = formatTimestamp(message.timestamp);
+    if (message.role === 'user') {
+      const images = extractImageParts(message).length;
+      sections.push(
+        [
+          `### User · ${time}`,
+          getMessageText(message),
+          images > 0
+            ? `_${images} image${images > 1 ? 's' : ''} attached_`
+            : '',
+        ]
+          .filter(Boolean)
+          .join('\n\n'),
+      );
+    } else if (message.role === 'assistant') {
+      const parts = [`### Assistant · ${time}`];
+      for (const reasoning of extractReasoningParts(message)) {
+        parts.push(quote(`**Thought**\n\n${reasoning.text}`));
+      }
+      const text = extractTextParts(message)
+        .map((part) => part.text)
+        .join('\n\n');
+      if (text) parts.push(text);
+      for (const pair of pairToolsWithResults(message, toolResults)) {
+        parts.push(formatToolPair(pair));
+      }
+      const usage = formatUsage(message);
+      if (usage) parts.push(`_${usage}_`);
+      sections.push(parts.join('\n\n'));
+    } else if (message.role === 'system') {
+      sections.push(`### System · ${time}\n\n${getMessageText(message)}`);
+    }
+  }
+
+  return `${sections.join('\n\n---\n\n')}\n`;
+}
+
+// A transcript entry that failed validation and was left out of an import
+export interface RejectedEntry {
+  index: number;
+  uuid: string | null;
+  reason: string;
+}
+
+export type TranscriptParseResult =
+  | { success: true; transcript: SessionTranscript; rejected: RejectedEntry[] }
+  | { success: false; error: string };
+
+type PartType =
+  | 'text'
+  | 'image'
+  | 'reasoning'
+  | 'tool_use'
+  | 'tool_result'
+  | 'tool-result';
+
+const ROLES = ['user', 'assistant', 'system', 'tool'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkStrings(
+  record: Record<string, unknown>,
+  keys: string[],
+  path: string,
+): string | null {
+  const key = keys.find((key) => typeof record[key] !== 'string');
+  return key ? `${path}.${key} must be a string` : null;
+}
+
+function checkToolResult(value: unknown, path: string): string | null {
+  if (!isRecord(value)) return `${path} must be an object`;
+  if (
+    typeof value.llmContent !== 'string' &&
+    !Array.isArray(value.llmContent)
+  ) {
+    return `${path}.llmContent must be a string or an array`;
+  }
+  return null;
+}
+
+function checkPart(
+  part: unknown,
+  path: string,
+  allowed: PartType[],
+): string | null {
+  if (!isRecord(part)) return `${path} must be an object`;
+  const type = part.type as PartType;
+  if (!allowed.includes(type)) {
+    return `${path}.type must be one of ${allowed.join(', ')}`;
+  }
+  switch (type) {
+    case 'text':
+    case 'reasoning':
+      return checkStrings(part, ['text'], path);
+    case 'image':
+      return checkStrings(part, ['data', 'mimeType'], path);
+    case 'tool_use':
+      return (
+        checkStrings(part, ['id', 'name'], path) ??
+        (isRecord(part.input) ? null : `${path}.input must be an object`)
+      );
+    case 'tool_result':
+      return (
+        checkStrings(part, ['id', 'name'], path) ??
+        checkToolResult(part.result, `${path}.result`)
+      );
+    case 'tool-result':
+      return (
+        checkStrings(part, ['toolCallId', 'toolName'], path) ??
+        checkToolResult(part.result, `${path}.result`)
+      );
+  }
+}
+
+function checkContent(
+  content: unknown,
+  allowed: PartType[],
+  allowString: boolean,
+): string | null {
+  if (allowString && typeof content === 'string') return null;
+  if (!Array.isArray(content)) {
+    return allowString
+      ? 'content must be a string or an array'
+      : 'content must be an array';
+  }
+  for (let i = 0; i < content.length; i++) {
+    const reason = checkPart(content[i], `content[${i}]`, allowed);
+    if (reason) return reason;
+  }
+  return null;
+}
+
+function checkUsage(usage: unknown): string | null {
+  if (usage === undefined) return null;
+  if (!isRecord(usage)) return 'usage must be an object';
+  const key = ['inputTokens', 'outputTokens', 'totalTokens'].find(
+    (key) => typeof usage[key] !== 'number',
+  );
+  return key ? `usage.${key} must be a number` : null;
+}
+
+/**
+ * Check an entry against the NormalizedMessage shape
+ * @returns Why the entry is invalid, or null when it can be rendered
+ */
+export function validateTranscriptMessage(value: unknown): string | null {
+  if (!isRecord(value)) return 'entry must be an object';
+  if (value.type !== 'message') return 'type must be "message"';
+  if (typeof value.uuid !== 'string' || !value.uuid) {
+    return 'uuid must be a non-empty string';
+  }
+  if (value.parentUuid !== null && typeof value.parentUuid !== 'string') {
+    return 'parentUuid must be a string or null';
+  }
+  if (
+    typeof value.timestamp !== 'string' ||
+    Number.isNaN(Date.parse(value.timestamp))
+  ) {
+    return 'timestamp must be an ISO date string';
+  }
+
+  switch (value.role) {
+    case 'system':
+      return typeof value.content === 'string'
+        ? null
+        : 'content must be a string';
+    case 'user':
+      return checkContent(
+        value.content,
+        ['text', 'image', 'tool_result'],
+        true,
+      );
+    case 'assistant':
+      return (
+        checkContent(value.content, ['text', 'reasoning', 'tool_use'], true) ??
+        (value.model !== undefined && typeof value.model !== 'string'
+          ? 'model must be a string'
+          : null) ??
+        checkUsage(value.usage)
+      );
+    case 'tool':
+      return checkContent(value.content, ['tool-result'], false);
+    default:
+      return `role must be one of ${ROLES.join(', ')}`;
+  }
+}
+
+/**
+ * Parse an exported transcript, or a bare array of messages
+ * Invalid entries are left out and reported, the rest is imported.
+ * @param fallbackTitle Summary for bare message arrays, e.g. the file name
+ */
+export function parseTranscript(
+  text: string,
+  fallbackTitle: string,
+): TranscriptParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return {
+      success: false,
+      error: `Not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  let entries: unknown[];
+  let envelope: Partial<SessionTranscript> = {};
+  if (Array.isArray(data)) {
+    entries = data;
+  } else if (isRecord(data) && Array.isArray(data.messages)) {
+    if (typeof data.version === 'number' && data.version > TRANSCRIPT_VERSION) {
+      return {
+        success: false,
+        error: `Transcript version ${data.version} is newer than this app supports`,
+      };
+    }
+    entries = data.messages;
+    envelope = data as Partial<SessionTranscript>;
+  } else {
+    return {
+      success: false,
+      error: 'Expected an exported transcript or an array of messages',
+    };
+  }
+
+  const messages: NormalizedMessage[] = [];
+  const rejected: RejectedEntry[] = [];
+  const seen = new Set<string>();
+  entries.forEach((entry, index) => {
+    const uuid =
+      isRecord(entry) && typeof entry.uuid === 'string' ? entry.uuid : null;
+    let reason = validateTranscriptMessage(entry);
+    if (!reason && uuid && seen.has(uuid)) {
+      reason = 'uuid is used by an earlier message';
+    }
+    if (reason) {
+      rejected.push({ index, uuid, reason });
+      return;
+    }
+    seen.add(uuid as string);
+    messages.push(entry as NormalizedMessage);
+  });
+
+  const session = isRecord(envelope.session) ? envelope.session : null;
+  const timestamps = messages.map((message) => Date.parse(message.timestamp));
+  return {
+    success: true,
+    rejected,
+    transcript: {
+      version: TRANSCRIPT_VERSION,
+      exportedAt:
+        typeof envelope.exportedAt === 'string'
+          ? envelope.exportedAt
+          : new Date().toISOString(),
+      session: {
+        sessionId:
+          typeof session?.sessionId === 'string' ? session.sessionId : '',
+        summary:
+          typeof session?.summary === 'string' && session.summary
+            ? session.summary
+            : fallbackTitle,
+        created: timestamps.length > 0 ? Math.min(...timestamps) : Date.now(),
+        modified: timestamps.length > 0 ? Math.max(...timestamps) : Date.now(),
+      },
+      workspace: isRecord(envelope.workspace)
+        ? (envelope.workspace as SessionTranscript['workspace'])
+        : null,
+      messages,
+    },
+  };
+}
+
+// Bounds of the pause between replayed messages, before applying the speed
+const MIN_REPLAY_DELAY = 150;
+const MAX_REPLAY_DELAY = 3000;
+
+/**
+ * Pause before showing the next message in a replay
+ * Follows the recorded gap between the messages, clamped so slow turns do
+ * not stall the replay and bursts stay visible.
+ */
+export function getReplayDelay(
+  previous: NormalizedMessage | undefined,
+  next: NormalizedMessage,
+  speed: number,
+): number {
+  const gap = previous
+    ? Date.parse(next.timestamp) - Date.parse(previous.timestamp)
+    : 0;
+  const delay = Math.min(
+    MAX_REPLAY_DELAY,
+    Math.max(MIN_REPLAY_DELAY, Number.isFinite(gap) ? gap : 0),
+  );
+  return delay / speed;
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { computeOffsets, findRowAt, findVisibleRange } from './virtualList';
+
+describe('computeOffsets', () => {
+  it('should use measured heights and estimate the rest', () => {
+    const heights = new Map([
+      ['a', 10],
+      ['c', 30],
+    ]);
+
+    expect(computeOffsets(['a', 'b', 'c'], heights, 100)).toEqual([
+      0, 10, 110, 140,
+    ]);
+  });
+});
+
+describe('findVisibleRange', () => {
+  const offsets = computeOffsets(['a', 'b', 'c', 'd'], new Map(), 100);
+
+  it('should return the rows overlapping the range', () => {
+    expect(findRowAt(offsets, 150)).toBe(1);
+    expect(findVisibleRange(offsets, 150, 250)).toEqual({ start: 1, end: 3 });
+  });
+
+  it('should clamp ranges outside the list', () => {
+    expect(findVisibleRange(offsets, -500, 50)).toEqual({ start: 0, end: 1 });
+    expect(findVisibleRange(offsets, 350, 5000)).toEqual({ start: 3, end: 4 });
+    expect(findVisibleRange([0], 0, 100)).toEqual({ start: 0, end: 0 });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Layout math for windowed lists with rows of varying height
+ * Rows that were never rendered use an estimated height until measured.
+ */
+
+/**
+ * Top offset of every row, followed by the total height
+ */
+export function computeOffsets(
+  keys: string[],
+  heights: Map<string, number>,
+  estimatedHeight: number,
+): number[] {
+  const offsets = new Array<number>(keys.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < keys.length; i++) {
+    offsets[i + 1] = offsets[i] + (heights.get(keys[i]) ?? estimatedHeight);
+  }
+  return offsets;
+}
+
+/**
+ * Index of the row that contains a vertical position
+ */
+export function findRowAt(offsets: number[], position: number): number {
+  const rowCount = offsets.length - 1;
+  let low = 0;
+  let high = rowCount - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (offsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return Math.max(0, low);
+}
+
+/**
+ * Rows overlapping the range from top to bottom, end is exclusive
+ */
+export function findVisibleRange(
+  offsets: number[],
+  top: number,
+  bottom: number,
+): { start: number; end: number } {
+  const rowCount = offsets.length - 1;
+  if (rowCount === 0) return { start: 0, end: 0 };
+  return {
+    start: findRowAt(offsets, top),
+    end: Math.min(rowCount, findRowAt(offsets, bottom) + 1),
+  };
+}
@@ -1,24 +1,70 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import './index.css';
-import { useStore } from './store';
-import { hydrateStore, setupPersistence } from './persistence';
-import { ToastProvider } from './components/ui/toast';
+import { useStore, requestLog } from './store';
+import {
+  hydrateStore,
+  setupPersistence,
+  type HydrateResult,
+} from './persistence';
+import { setupWindowSync } from './windowSync';
+import { setupSearchIndex } from './search';
+import { setupTerminalEvents } from './lib/terminalRegistry';
+import { ToastProvider, toastManager } from './components/ui/toast';
+import { BridgeInspector } from './components/BridgeInspector';
+
+/**
+ * Tell the user when their saved state could not be read as is
+ * Rendered inside ToastProvider so the toast has a listener.
+ */
+function StoreRecoveryNotice({ result }: { result: HydrateResult }) {
+  useEffect(() => {
+    if (!result.corrupted) return;
+    const id = toastManager.add(
+      result.recoveredFrom
+        ? {
+            title: 'Restored from Backup',
+            description: `Saved state was corrupt, restored ${result.recoveredFrom}. Recent changes may be missing.`,
+            type: 'warning',
+          }
+        : {
+            title: 'Saved State Lost',
+            description:
+              'Saved state was corrupt and no backup could be read, starting fresh.',
+            type: 'error',
+          },
+    );
+    return () => toastManager.close(id);
+  }, [result]);
+
+  return null;
+}
 
 // Hydrate store from persisted state before rendering
 (async () => {
-  await hydrateStore(useStore);
+  const hydrateResult = await hydrateStore(useStore);
 
   // Render the app
   ReactDOM.createRoot(document.getElementById('root')!).render(
     <React.StrictMode>
       <ToastProvider position="bottom-right">
         <App />
+        <StoreRecoveryNotice result={hydrateResult} />
+        {requestLog && <BridgeInspector requestLog={requestLog} />}
       </ToastProvider>
     </React.StrictMode>,
   );
 
   // Setup automatic persistence after rendering
   setupPersistence(useStore);
+
+  // Share repos and workspaces with the app's other windows
+  setupWindowSync(useStore);
+
+  // Index sessions and messages for the search palette
+  setupSearchIndex(useStore);
+
+  // Route pty output to terminal tabs
+  setupTerminalEvents(useStore);
 })();
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { migratePersistedState, PERSISTED_STATE_VERSION } from './persistence';
+import { DEFAULT_BACKEND_URL } from './store';
+
+describe('migratePersistedState', () => {
+  it('should upgrade unversioned state to the current version', () => {
+    const migrated = migratePersistedState({
+      repos: { '/repo': { path: '/repo', name: 'repo' } },
+      workspaces: { ws: { id: 'ws', repoPath: '/repo' } },
+    });
+
+    expect(migrated.version).toBe(PERSISTED_STATE_VERSION);
+    expect(migrated).toMatchObject({
+      repos: {
+        '/repo': { workspaceIds: [], gitRemote: { syncStatus: 'unknown' } },
+      },
+      workspaces: { ws: { gitState: { pendingChanges: [] } } },
+    });
+  });
+
+  it('should keep existing entity fields when filling defaults', () => {
+    const migrated = migratePersistedState({
+      repos: {
+        '/repo': {
+          path: '/repo',
+          workspaceIds: ['ws'],
+          gitRemote: { defaultBranch: 'main', syncStatus: 'ahead' },
+        },
+      },
+    });
+
+    expect(migrated.repos).toEqual({
+      '/repo': expect.objectContaining({
+        workspaceIds: ['ws'],
+        gitRemote: {
+          originUrl: null,
+          defaultBranch: 'main',
+          syncStatus: 'ahead',
+        },
+      }),
+    });
+  });
+
+  it('should add empty history and drafts to version 1 state', () => {
+    const migrated = migratePersistedState({ version: 1, repos: {} });
+
+    expect(migrated.historyByWorkspace).toEqual({});
+    expect(migrated.windows).toMatchObject({ main: { inputDrafts: {} } });
+  });
+
+  it('should default the backend endpoint for version 2 state', () => {
+    const migrated = migratePersistedState({ version: 2, repos: {} });
+
+    expect(migrated.activeEndpoint).toBe(DEFAULT_BACKEND_URL);
+    expect(migrated.backendEndpoints).toEqual([DEFAULT_BACKEND_URL]);
+  });
+
+  it('should keep a configured backend endpoint', () => {
+    const migrated = migratePersistedState({
+      version: 2,
+      backendEndpoints: ['ws://remote:1024/ws'],
+      activeEndpoint: 'ws://remote:1024/ws',
+    });
+
+    expect(migrated.activeEndpoint).toBe('ws://remote:1024/ws');
+    expect(migrated.backendEndpoints).toEqual(['ws://remote:1024/ws']);
+  });
+
+  it('should move version 3 UI state into the main window', () => {
+    const migrated = migratePersistedState({
+      version: 3,
+      repos: {},
+      selectedRepoPath: '/repo',
+      selectedWorkspaceId: 'ws',
+      sidebarCollapsed: true,
+      inputDrafts: { s1: { value: 'draft' } },
+    });
+
+    expect(migrated.selectedWorkspaceId).toBeUndefined();
+    expect(migrated.windows).toEqual({
+      main: {
+        selectedRepoPath: '/repo',
+        selectedWorkspaceId: 'ws',
+        selectedSessionId: null,
+        sidebarCollapsed: true,
+        openRepoAccordions: [],
+        expandedSessionGroups: {},
+        inputDrafts: { s1: { value: 'draft' } },
+      },
+    });
+  });
+
+  it('should leave state from a newer version untouched', () => {
+    const state = { version: PERSISTED_STATE_VERSION + 1, repos: {} };
+
+    expect(migratePersistedState(state)).toBe(state);
+  });
+});
@@ -1,4 +1,17 @@
 import type { StoreApi } from 'zustand';
+import type {
+  RepoData,
+  SessionData,
+  WorkspaceData,
+} from './client/types/entities';
+import {
+  DEFAULT_BACKEND_URL,
+  defaultSessionInputState,
+  MAX_WORKSPACE_HISTORY,
+  type SessionInputState,
+  type Store,
+} from './store';
+import { getInitialWorkspaceId, getWindowId } from './windowSync';
 
 // Declare electron API on window object
 declare global {
@@ -11,17 +24,239 @@ declare global {
   }
 }
 
+// Bump when the persisted shape changes and add a migration below
+export const PERSISTED_STATE_VERSION = 4;
+
 // Define the persistable state shape
 interface PersistedState {
-  repos: Record<string, any>;
-  workspaces: Record<string, any>;
+  version: number;
+  repos: Record<string, RepoData>;
+  workspaces: Record<string, WorkspaceData>;
+  sessions: Record<string, SessionData[]>;
+  historyByWorkspace: Record<string, string[]>;
+  backendEndpoints: string[];
+  activeEndpoint: string;
+  // UI state of each window, keyed by window id
+  windows: Record<string, PersistedWindowState>;
+}
+
+// Selection and layout of a single window
+interface PersistedWindowState {
   selectedRepoPath: string | null;
   selectedWorkspaceId: string | null;
   selectedSessionId: string | null;
-  sessions: Record<string, any>;
   sidebarCollapsed: boolean;
   openRepoAccordions: string[];
   expandedSessionGroups: Record<string, boolean>;
+  inputDrafts: Record<string, InputDraft>;
+}
+
+// Unsent input of a session, restored into inputBySession on launch
+type InputDraft = Pick<
+  SessionInputState,
+  'value' | 'pastedTextMap' | 'pastedImageMap'
+>;
+
+/**
+ * Collect sessions with unsent input, empty inputs are not stored
+ */
+function getInputDrafts(
+  inputBySession: Record<string, SessionInputState>,
+): Record<string, InputDraft> {
+  const drafts: Record<string, InputDraft> = {};
+  for (const [sessionId, input] of Object.entries(inputBySession)) {
+    if (!input.value.trim()) continue;
+    drafts[sessionId] = {
+      value: input.value,
+      pastedTextMap: input.pastedTextMap,
+      pastedImageMap: input.pastedImageMap,
+    };
+  }
+  return drafts;
+}
+
+/**
+ * Rebuild session input state from persisted drafts
+ */
+function restoreInputDrafts(
+  drafts: Record<string, InputDraft>,
+): Record<string, SessionInputState> {
+  const inputBySession: Record<string, SessionInputState> = {};
+  for (const [sessionId, draft] of Object.entries(drafts)) {
+    if (typeof draft?.value !== 'string') continue;
+    inputBySession[sessionId] = {
+      ...defaultSessionInputState,
+      value: draft.value,
+      cursorPosition: draft.value.length,
+      pastedTextMap: draft.pastedTextMap || {},
+      pastedImageMap: draft.pastedImageMap || {},
+    };
+  }
+  return inputBySession;
+}
+
+/**
+ * Object fields of persisted state, anything else reads as empty
+ */
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function asStringArray(value: unknown): string[] | undefined {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : undefined;
+}
+
+type Migration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+// migrations[n] upgrades a version n state to version n + 1
+const migrations: Record<number, Migration> = {
+  // Files written before versioning, fill in entity fields added since
+  0: (state) => ({
+    ...state,
+    repos: Object.fromEntries(
+      Object.entries(asRecord(state.repos)).map(([path, value]) => {
+        const repo = asRecord(value);
+        return [
+          path,
+          {
+            ...repo,
+            workspaceIds: asStringArray(repo.workspaceIds) ?? [],
+            metadata: { lastAccessed: 0, ...asRecord(repo.metadata) },
+            gitRemote: {
+              originUrl: null,
+              defaultBranch: null,
+              syncStatus: 'unknown',
+              ...asRecord(repo.gitRemote),
+            },
+          },
+        ];
+      }),
+    ),
+    workspaces: Object.fromEntries(
+      Object.entries(asRecord(state.workspaces)).map(([id, value]) => {
+        const workspace = asRecord(value);
+        return [
+          id,
+          {
+            ...workspace,
+            gitState: {
+              currentCommit: '',
+              isDirty: false,
+              pendingChanges: [],
+              ...asRecord(workspace.gitState),
+            },
+            context: { activeFiles: [], ...asRecord(workspace.context) },
+          },
+        ];
+      }),
+    ),
+  }),
+  // Prompt history and unsent drafts started being persisted
+  1: (state) => ({
+    ...state,
+    historyByWorkspace: state.historyByWorkspace || {},
+    inputDrafts: state.inputDrafts || {},
+  }),
+  // Backend endpoints became configurable
+  2: (state) => ({
+    ...state,
+    backendEndpoints: state.backendEndpoints || [DEFAULT_BACKEND_URL],
+    activeEndpoint: state.activeEndpoint || DEFAULT_BACKEND_URL,
+  }),
+  // Windows got their own UI state, the single window became 'main'
+  3: ({
+    selectedRepoPath = null,
+    selectedWorkspaceId = null,
+    selectedSessionId = null,
+    sidebarCollapsed = false,
+    openRepoAccordions = [],
+    expandedSessionGroups = {},
+    inputDrafts = {},
+    ...state
+  }) => ({
+    ...state,
+    windows: {
+      main: {
+        selectedRepoPath,
+        selectedWorkspaceId,
+        selectedSessionId,
+        sidebarCollapsed,
+        openRepoAccordions,
+        expandedSessionGroups,
+        inputDrafts,
+      },
+    },
+  }),
+};
+
+/**
+ * Run the migration chain from the state's version up to the current one
+ * State written by a newer app version is returned as is, dropping it
+ * would let the next save overwrite the user's data.
+ */
+export function migratePersistedState(
+  state: Record<string, unknown>,
+): Record<string, unknown> {
+  let version = typeof state.version === 'number' ? state.version : 0;
+  if (version > PERSISTED_STATE_VERSION) {
+    console.warn(
+      `Persisted state version ${version} is newer than ${PERSISTED_STATE_VERSION}, loading without migration`,
+    );
+    return state;
+  }
+
+  let migrated = state;
+  while (version < PERSISTED_STATE_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration from persisted state version ${version}`);
+    }
+    migrated = migrate(migrated);
+    version += 1;
+  }
+  return { ...migrated, version };
+}
+
+/**
+ * Narrow migrated state to the persisted shape, dropping malformed fields
+ * Entities are taken as they are, migrations filled in their fields.
+ */
+function readPersistedState(
+  state: Record<string, unknown>,
+): Partial<Omit<PersistedState, 'version'>> {
+  const historyByWorkspace: Record<string, string[]> = {};
+  for (const [workspaceId, history] of Object.entries(
+    asRecord(state.historyByWorkspace),
+  )) {
+    const entries = asStringArray(history);
+    if (entries) historyByWorkspace[workspaceId] = entries;
+  }
+
+  return {
+    repos: asRecord(state.repos) as Record<string, RepoData>,
+    workspaces: asRecord(state.workspaces) as Record<string, WorkspaceData>,
+    sessions: asRecord(state.sessions) as Record<string, SessionData[]>,
+    historyByWorkspace,
+    backendEndpoints: asStringArray(state.backendEndpoints),
+    activeEndpoint:
+      typeof state.activeEndpoint === 'string'
+        ? state.activeEndpoint
+        : undefined,
+    windows: asRecord(state.windows) as Record<string, PersistedWindowState>,
+  };
+}
+
+// Outcome of hydrating the store, used to tell the user about recovery
+export interface HydrateResult {
+  success: boolean;
+  // Backup file restored because store.json could not be read
+  recoveredFrom: string | null;
+  // store.json was unreadable, with or without a backup to fall back to
+  corrupted: boolean;
 }
 
 // Debounce helper
@@ -62,20 +297,30 @@ function debounce<T extends (...args: any[]) => void>(
  * Set up automatic persistence of store state to local file system
  * @param store The Zustand store instance
  */
-export function setupPersistence(store: StoreApi<any>): void {
+export function setupPersistence(store: StoreApi<Store>): void {
   // Extract only persistable state (exclude runtime objects)
   const getPersistableState = (): PersistedState => {
     const state = store.getState();
     return {
+      version: PERSISTED_STATE_VERSION,
       repos: state.repos || {},
       workspaces: state.workspaces || {},
-      selectedRepoPath: state.selectedRepoPath || null,
-      selectedWorkspaceId: state.selectedWorkspaceId || null,
-      selectedSessionId: state.selectedSessionId || null,
       sessions: state.sessions || {},
-      sidebarCollapsed: state.sidebarCollapsed || false,
-      openRepoAccordions: state.openRepoAccordions || [],
-      expandedSessionGroups: state.expandedSessionGroups || {},
+      historyByWorkspace: state.historyByWorkspace || {},
+      backendEndpoints: state.backendEndpoints || [DEFAULT_BACKEND_URL],
+      activeEndpoint: state.activeEndpoint || DEFAULT_BACKEND_URL,
+      // The main process merges this with the other windows' entries
+      windows: {
+        [getWindowId()]: {
+          selectedRepoPath: state.selectedRepoPath || null,
+          selectedWorkspaceId: state.selectedWorkspaceId || null,
+          selectedSessionId: state.selectedSessionId || null,
+          sidebarCollapsed: state.sidebarCollapsed || false,
+          openRepoAccordions: state.openRepoAccordions || [],
+          expandedSessionGroups: state.expandedSessionGroups || {},
+          inputDrafts: getInputDrafts(state.inputBySession || {}),
+        },
+      },
     };
   };
 
@@ -107,30 +352,50 @@ export function setupPersistence(store: StoreApi<any>): void {
 /**
  * Load persisted state and hydrate the store
  * @param store The Zustand store instance
- * @returns true if hydration succeeded, false otherwise
+ * @returns Whether hydration succeeded and whether a backup was used
  */
-export async function hydrateStore(store: StoreApi<any>): Promise<boolean> {
+export async function hydrateStore(
+  store: StoreApi<Store>,
+): Promise<HydrateResult> {
+  let recoveredFrom: string | null = null;
+  let corrupted = false;
   try {
     // @ts-ignore
-    const persistedState = await window.electron.loadStore();
+    const loaded = await window.electron.loadStore();
+    recoveredFrom = loaded.recoveredFrom;
+    corrupted = loaded.corrupted;
 
     // No persisted state - fresh start
-    if (!persistedState) {
-      return true;
+    if (!loaded.state) {
+      return { success: true, recoveredFrom, corrupted };
     }
 
+    const persistedState = readPersistedState(
+      migratePersistedState(loaded.state),
+    );
+
     // Validate and sanitize loaded state
     const {
       repos = {},
       workspaces = {},
-      selectedRepoPath = null,
-      selectedWorkspaceId = null,
-      selectedSessionId = null,
       sessions = {},
+      historyByWorkspace = {},
+      backendEndpoints = [DEFAULT_BACKEND_URL],
+      activeEndpoint = DEFAULT_BACKEND_URL,
+      windows = {},
+    } = persistedState;
+
+    // A window opened for a workspace starts on it, with the repo expanded
+    const initialWorkspace = workspaces[getInitialWorkspaceId() ?? ''];
+    const {
+      selectedRepoPath = initialWorkspace?.repoPath ?? null,
+      selectedWorkspaceId = initialWorkspace?.id ?? null,
+      selectedSessionId = null,
       sidebarCollapsed = false,
-      openRepoAccordions = [],
+      openRepoAccordions = initialWorkspace ? [initialWorkspace.repoPath] : [],
       expandedSessionGroups = {},
-    } = persistedState;
+      inputDrafts = {},
+    } = windows[getWindowId()] || {};
 
     // Validate selections exist in loaded entities
     let validatedRepoPath = selectedRepoPath;
@@ -171,6 +436,18 @@ export async function hydrateStore(store: StoreApi<any>): Promise<boolean> {
         sidebarCollapsed,
         openRepoAccordions,
         expandedSessionGroups,
+        historyByWorkspace: Object.fromEntries(
+          Object.entries(historyByWorkspace).map(([workspaceId, history]) => [
+            workspaceId,
+            history.slice(-MAX_WORKSPACE_HISTORY),
+          ]),
+        ),
+        inputBySession: restoreInputDrafts(inputDrafts),
+        // Keep the active endpoint selectable even if the list was edited by hand
+        backendEndpoints: backendEndpoints.includes(activeEndpoint)
+          ? backendEndpoints
+          : [...backendEndpoints, activeEndpoint],
+        activeEndpoint,
 
         selectedRepoPath: validatedRepoPath,
         selectedWorkspaceId: validatedWorkspaceId,
@@ -183,9 +460,9 @@ export async function hydrateStore(store: StoreApi<any>): Promise<boolean> {
     );
 
     console.log('Store hydrated successfully from persisted state');
-    return true;
+    return { success: true, recoveredFrom, corrupted };
   } catch (error) {
     console.error('Failed to hydrate store:', error);
-    return false;
+    return { success: false, recoveredFrom, corrupted };
   }
 }
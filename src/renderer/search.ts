@@ -0,0 +1,334 @@
+import type { StoreApi } from 'zustand';
+import type { Store } from './store';
+import type { NormalizedMessage } from './client/types/message';
+import type {
+  RepoData,
+  SessionData,
+  WorkspaceData,
+} from './client/types/entities';
+import {
+  getMessageText,
+  isToolResultMessage,
+} from './components/messages/messageHelpers';
+import {
+  messageDocumentId,
+  type SearchDocument,
+  type SearchResult,
+} from './lib/searchIndex';
+import type {
+  SearchWorkerRequest,
+  SearchWorkerResponse,
+} from './lib/searchWorker';
+
+// Pause between sessions fetched to fill the index, keeps the backend responsive
+const BACKFILL_DELAY = 200;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingSearches = new Map<number, (results: SearchResult[]) => void>();
+
+function post(request: SearchWorkerRequest) {
+  worker?.postMessage(request);
+}
+
+/**
+ * Search repos, workspaces, session summaries and message text
+ * Resolves with no results when the index is not running.
+ */
+export function search(query: string): Promise<SearchResult[]> {
+  if (!worker || !query.trim()) return Promise.resolve([]);
+  const requestId = ++nextRequestId;
+  return new Promise((resolve) => {
+    pendingSearches.set(requestId, resolve);
+    post({ type: 'search', requestId, query });
+  });
+}
+
+/**
+ * Strings nested in a tool input, e.g. file paths, commands and patterns
+ */
+function getToolInputText(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (typeof value === 'number') return [String(value)];
+  if (Array.isArray(value)) return value.flatMap(getToolInputText);
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(getToolInputText);
+  }
+  return [];
+}
+
+/**
+ * Searchable text of a message, its text parts followed by tool inputs
+ */
+function getSearchableText(message: NormalizedMessage): string {
+  const lines = [getMessageText(message)];
+  if (Array.isArray(message.content)) {
+    for (const part of message.content) {
+      if (part.type === 'tool_use') {
+        lines.push([part.name, ...getToolInputText(part.input)].join(' '));
+      }
+    }
+  }
+  return lines.join('\n').trim();
+}
+
+function buildMessageDocuments(
+  workspace: WorkspaceData,
+  session: SessionData | undefined,
+  sessionId: string,
+  messages: NormalizedMessage[],
+): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+  for (const message of messages) {
+    // Tool results are shown inside the assistant message that called them
+    if (isToolResultMessage(message)) continue;
+    const text = getSearchableText(message);
+    if (!text) continue;
+    documents.push({
+      id: messageDocumentId(sessionId, message.uuid),
+      kind: 'message',
+      repoPath: workspace.repoPath,
+      workspaceId: workspace.id,
+      sessionId,
+      messageUuid: message.uuid,
+      title: session?.summary || 'Untitled session',
+      text,
+      timestamp: Date.parse(message.timestamp) || 0,
+    });
+  }
+  return documents;
+}
+
+function buildEntityDocuments(
+  repos: Record<string, RepoData>,
+  workspaces: Record<string, WorkspaceData>,
+  sessions: Record<string, SessionData[]>,
+): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+  for (const repo of Object.values(repos)) {
+    documents.push({
+      id: `repo:${repo.path}`,
+      kind: 'repo',
+      repoPath: repo.path,
+      workspaceId: null,
+      sessionId: null,
+      messageUuid: null,
+      title: repo.name,
+      text: repo.path,
+      timestamp: repo.metadata.lastAccessed,
+    });
+  }
+  for (const workspace of Object.values(workspaces)) {
+    documents.push({
+      id: `workspace:${workspace.id}`,
+      kind: 'workspace',
+      repoPath: workspace.repoPath,
+      workspaceId: workspace.id,
+      sessionId: null,
+      messageUuid: null,
+      title: workspace.branch,
+      text: [workspace.metadata.description, workspace.worktreePath]
+        .filter(Boolean)
+        .join('\n'),
+      timestamp: workspace.metadata.createdAt,
+    });
+    for (const session of sessions[workspace.id] ?? []) {
+      documents.push({
+        id: `session:${session.sessionId}`,
+        kind: 'session',
+        repoPath: workspace.repoPath,
+        workspaceId: workspace.id,
+        sessionId: session.sessionId,
+        messageUuid: null,
+        title: session.summary || 'Untitled session',
+        text: session.summary,
+        timestamp: session.modified,
+      });
+    }
+  }
+  return documents;
+}
+
+/**
+ * Find the workspace a session belongs to
+ */
+function findSession(
+  state: Store,
+  sessionId: string,
+): { workspace: WorkspaceData; session: SessionData } | null {
+  for (const [workspaceId, sessions] of Object.entries(state.sessions)) {
+    const session = sessions.find((entry) => entry.sessionId === sessionId);
+    const workspace = state.workspaces[workspaceId];
+    if (session && workspace) return { workspace, session };
+  }
+  return null;
+}
+
+/**
+ * Keep the search index in a web worker in step with the store
+ * Entities are reindexed when they change, loaded messages are indexed as
+ * they arrive, and sessions changed since they were last indexed are fetched
+ * one at a time in the background.
+ * @param store The Zustand store instance
+ */
+export function setupSearchIndex(store: StoreApi<Store>): void {
+  if (typeof Worker === 'undefined' || worker) return;
+
+  worker = new Worker(new URL('./lib/searchWorker.ts', import.meta.url), {
+    type: 'module',
+  });
+
+  // Modified time of each session when its messages were last indexed
+  let sessionStamps: Record<string, number> | null = null;
+  // Last message indexed per loaded session, so appends only send the tail
+  const indexedMessages = new Map<
+    string,
+    { count: number; lastUuid: string }
+  >();
+  let backfilling = false;
+
+  const indexEntities = (state: Store) => {
+    post({
+      type: 'replaceEntities',
+      documents: buildEntityDocuments(
+        state.repos,
+        state.workspaces,
+        state.sessions,
+      ),
+    });
+  };
+
+  const indexMessages = (
+    sessionId: string,
+    messages: NormalizedMessage[],
+    state: Store,
+  ) => {
+    const found = findSession(state, sessionId);
+    if (!found) return;
+
+    const previous = indexedMessages.get(sessionId);
+    const appended =
+      !!previous &&
+      messages.length >= previous.count &&
+      messages[previous.count - 1]?.uuid === previous.lastUuid;
+    const added = appended ? messages.slice(previous.count) : messages;
+    indexedMessages.set(sessionId, {
+      count: messages.length,
+      lastUuid: messages[messages.length - 1]?.uuid ?? '',
+    });
+    if (appended && added.length === 0) return;
+
+    const modified = found.session.modified;
+    if (sessionStamps) sessionStamps[sessionId] = modified;
+    post({
+      type: 'indexSession',
+      sessionId,
+      modified,
+      documents: buildMessageDocuments(
+        found.workspace,
+        found.session,
+        sessionId,
+        added,
+      ),
+      replace: !appended,
+    });
+  };
+
+  // Fetch and index sessions whose messages changed since they were indexed
+  const backfill = async () => {
+    if (backfilling || !sessionStamps) return;
+    backfilling = true;
+    try {
+      while (store.getState().state === 'connected') {
+        const state = store.getState();
+        const stamps: Record<string, number> = sessionStamps;
+        const stale = Object.entries(state.sessions)
+          .flatMap(([workspaceId, sessions]) =>
+            sessions.map((session) => ({ workspaceId, session })),
+          )
+          .find(
+            ({ workspaceId, session }) =>
+              state.workspaces[workspaceId] &&
+              !state.messages[session.sessionId] &&
+              stamps[session.sessionId] !== session.modified,
+          );
+        if (!stale) break;
+
+        const { session } = stale;
+        const workspace = state.workspaces[stale.workspaceId];
+        // Recorded first so a failing session is not retried in a loop
+        stamps[session.sessionId] = session.modified;
+        try {
+          const response = await state.request('session.messages.list', {
+            cwd: workspace.worktreePath,
+            sessionId: session.sessionId,
+          });
+          if (response.success) {
+            post({
+              type: 'indexSession',
+              sessionId: session.sessionId,
+              modified: session.modified,
+              documents: buildMessageDocuments(
+                workspace,
+                session,
+                session.sessionId,
+                response.data.messages,
+              ),
+              replace: true,
+            });
+          }
+        } catch (error) {
+          console.error('Failed to index session messages:', error);
+        }
+        await new Promise((resolve) => setTimeout(resolve, BACKFILL_DELAY));
+      }
+    } finally {
+      backfilling = false;
+    }
+  };
+
+  worker.addEventListener(
+    'message',
+    (event: MessageEvent<SearchWorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'ready') {
+        sessionStamps = response.sessionStamps;
+        backfill();
+      } else if (response.type === 'results') {
+        pendingSearches.get(response.requestId)?.(response.results);
+        pendingSearches.delete(response.requestId);
+      }
+    },
+  );
+
+  const initial = store.getState();
+  indexEntities(initial);
+  for (const [sessionId, messages] of Object.entries(initial.messages)) {
+    indexMessages(sessionId, messages, initial);
+  }
+
+  store.subscribe((state, prev) => {
+    if (
+      state.repos !== prev.repos ||
+      state.workspaces !== prev.workspaces ||
+      state.sessions !== prev.sessions
+    ) {
+      indexEntities(state);
+    }
+
+    if (state.messages !== prev.messages) {
+      for (const [sessionId, messages] of Object.entries(state.messages)) {
+        if (messages !== prev.messages[sessionId]) {
+          indexMessages(sessionId, messages, state);
+        }
+      }
+    }
+
+    if (
+      (state.state === 'connected' && prev.state !== 'connected') ||
+      state.sessions !== prev.sessions
+    ) {
+      backfill();
+    }
+  });
+}
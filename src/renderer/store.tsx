@@ -2,14 +2,33 @@ import React from 'react';
 import { create } from 'zustand';
 import { WebSocketTransport } from './client/transport/WebSocketTransport';
 import { MessageBus } from './client/messaging/MessageBus';
+import { BridgeError } from './client/messaging/BridgeError';
+import { RequestLog } from './client/messaging/RequestLog';
+import type { RequestOptions } from './client/messaging/types';
+import type {
+  BackendStatus,
+  GitRepoSync,
+  GitSyncOperation,
+  GitSyncResult,
+} from '../shared/types';
 import { randomUUID } from './utils/uuid';
 import { getNestedValue, setNestedValue } from './lib/utils';
+import {
+  applyChunk,
+  createStreamingMessage,
+  type StreamingMessage,
+} from './lib/streamingMessage';
 import type {
   RepoData,
   WorkspaceData,
   SessionData,
 } from './client/types/entities';
-import type { NormalizedMessage } from './client/types/message';
+import type {
+  ApprovalCategory,
+  NormalizedMessage,
+  ToolUse,
+} from './client/types/message';
+import type { ApprovalMode } from './client/types/chat';
 import type {
   HandlerMap,
   HandlerMethod,
@@ -22,6 +41,13 @@ import {
   type CommandEntry,
 } from './slashCommand';
 import { localJSXCommands } from './slash-commands';
+import { disposeTerminal } from './lib/terminalRegistry';
+import {
+  COMPACT_MESSAGE_UI_CONTENT,
+  getMessageText,
+  isToolResultMessage,
+} from './components/messages/messageHelpers';
+import { getReplayDelay, type SessionTranscript } from './lib/transcript';
 
 type WorkspaceId = string;
 type SessionId = string;
@@ -31,6 +57,7 @@ type RepoId = string;
 export type InputMode = 'prompt' | 'bash' | 'memory';
 export type PlanMode = 'normal' | 'plan' | 'brainstorm';
 export type ThinkingLevel = null | 'low' | 'medium' | 'high';
+export type MemoryScope = 'project' | 'global';
 
 // Session-scoped input state
 export interface SessionInputState {
@@ -42,6 +69,7 @@ export interface SessionInputState {
   thinking: ThinkingLevel;
   thinkingEnabled: boolean;
   thinkingInitialized: boolean;
+  memoryScope: MemoryScope;
   pastedTextMap: Record<string, string>;
   pastedImageMap: Record<string, string>;
 }
@@ -55,10 +83,172 @@ const defaultSessionInputState: SessionInputState = {
   thinking: null,
   thinkingEnabled: false,
   thinkingInitialized: false,
+  memoryScope: 'project',
   pastedTextMap: {},
   pastedImageMap: {},
 };
 
+/**
+ * Extract printable text from a utils.tool.executeBash result
+ */
+function getBashOutputText(data: unknown): string {
+  if (typeof data === 'string') return data;
+  if (data && typeof data === 'object') {
+    const { llmContent, returnDisplay } = data as Record<string, unknown>;
+    if (typeof llmContent === 'string') return llmContent;
+    if (typeof returnDisplay === 'string') return returnDisplay;
+  }
+  return data ? JSON.stringify(data, null, 2) : '';
+}
+
+/**
+ * Exit code of a utils.tool.executeBash result, when the backend reports one
+ * The printed output is not parsed, commands can print anything.
+ */
+function getBashExitCode(data: unknown): number | null {
+  if (!data || typeof data !== 'object') return null;
+  const { exitCode } = data as Record<string, unknown>;
+  return typeof exitCode === 'number' && Number.isInteger(exitCode)
+    ? exitCode
+    : null;
+}
+
+/**
+ * Format a bash output as a context block for the next prompt
+ */
+function formatBashOutputContext(output: BashOutput): string {
+  return `Output of \`${output.command}\`:\n\`\`\`\n${output.output}\n\`\`\``;
+}
+
+// Place to navigate to, e.g. from a search result
+export interface RevealLocation {
+  repoPath: string;
+  workspaceId: string | null;
+  sessionId: string | null;
+  messageUuid: string | null;
+}
+
+// Pull request title and body suggested for a workspace
+export interface PullRequestDraft {
+  title: string;
+  description: string;
+}
+
+// Transcript budget sent to utils.quickQuery when drafting a pull request
+const MAX_PR_TRANSCRIPT_LENGTH = 12000;
+
+const PR_DRAFT_SYSTEM_PROMPT = `You write GitHub pull request descriptions from a conversation between a developer and a coding agent.
+Respond with JSON only, in the shape {"title": string, "description": string}.
+The title is a short imperative summary under 72 characters.
+The description is Markdown with a "## Summary" section listing the changes and a "## Testing" section.`;
+
+/**
+ * Flatten session messages into a plain transcript for PR drafting,
+ * keeping the most recent text when it exceeds the budget
+ */
+function buildPullRequestTranscript(messages: NormalizedMessage[]): string {
+  const lines = messages
+    .filter((message) => !isToolResultMessage(message))
+    .map((message) => {
+      const text = getMessageText(message).trim();
+      return text ? `${message.role}: ${text}` : '';
+    })
+    .filter(Boolean);
+  const transcript = lines.join('\n\n');
+  return transcript.length > MAX_PR_TRANSCRIPT_LENGTH
+    ? transcript.slice(-MAX_PR_TRANSCRIPT_LENGTH)
+    : transcript;
+}
+
+/**
+ * Parse a quickQuery answer into a PR draft, falling back to the first
+ * line as title when the model did not answer with JSON
+ */
+function parsePullRequestDraft(
+  text: string,
+  fallbackTitle: string,
+): PullRequestDraft {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+  try {
+    const parsed = JSON.parse(trimmed);
+    return {
+      title: String(parsed.title || fallbackTitle),
+      description: String(parsed.description || ''),
+    };
+  } catch (_error) {
+    const [firstLine = '', ...rest] = trimmed.split('\n');
+    return {
+      title: firstLine.replace(/^#+\s*/, '') || fallbackTitle,
+      description: rest.join('\n').trim(),
+    };
+  }
+}
+
+/**
+ * Find the session a tool call belongs to
+ * Approval requests only carry the tool call, its id matches the tool_use
+ * part streamed or loaded for that session.
+ */
+function findToolCallSession(
+  state: Pick<StoreState, 'streamingMessageBySession' | 'messages'>,
+  callId: string | undefined,
+): string | null {
+  if (!callId) return null;
+  const hasCall = (message: NormalizedMessage) =>
+    Array.isArray(message.content) &&
+    message.content.some(
+      (part) => part.type === 'tool_use' && part.id === callId,
+    );
+
+  for (const [sessionId, message] of Object.entries(
+    state.streamingMessageBySession,
+  )) {
+    if (hasCall(message)) return sessionId;
+  }
+  for (const [sessionId, messages] of Object.entries(state.messages)) {
+    if (messages.some(hasCall)) return sessionId;
+  }
+  return null;
+}
+
+/**
+ * Find the workspace that owns a session
+ * Turns finish in background workspaces too, so the selection cannot be used
+ */
+function findSessionWorkspace(
+  state: Pick<StoreState, 'sessions' | 'workspaces'>,
+  sessionId: string,
+): WorkspaceData | null {
+  for (const [workspaceId, sessions] of Object.entries(state.sessions)) {
+    if (sessions.some((session) => session.sessionId === sessionId)) {
+      return state.workspaces[workspaceId] ?? null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Kill the ptys of deleted workspaces and drop their terminal tabs
+ */
+function removeWorkspaceTerminals(
+  state: Pick<StoreState, 'terminalsByWorkspace' | 'activeTerminalByWorkspace'>,
+  workspaceIds: string[],
+): Pick<StoreState, 'terminalsByWorkspace' | 'activeTerminalByWorkspace'> {
+  const terminalsByWorkspace = { ...state.terminalsByWorkspace };
+  const activeTerminalByWorkspace = { ...state.activeTerminalByWorkspace };
+  for (const workspaceId of workspaceIds) {
+    for (const tab of terminalsByWorkspace[workspaceId] ?? []) {
+      window.electron?.terminalKill(tab.id).catch((error) => {
+        console.error('Failed to kill terminal:', error);
+      });
+      disposeTerminal(tab.id);
+    }
+    delete terminalsByWorkspace[workspaceId];
+    delete activeTerminalByWorkspace[workspaceId];
+  }
+  return { terminalsByWorkspace, activeTerminalByWorkspace };
+}
+
 export function getInputMode(value: string): InputMode {
   if (value.startsWith('!')) return 'bash';
   if (value.startsWith('#')) return 'memory';
@@ -86,6 +276,133 @@ const defaultSessionProcessingState: SessionProcessingState = {
   retryInfo: null,
 };
 
+// Chunks received since the last animation frame, applied in one update so
+// fast streams render at most once per frame
+const pendingChunksBySession = new Map<string, unknown[]>();
+let isChunkFlushScheduled = false;
+
+function requestFrame(callback: () => void) {
+  if (typeof requestAnimationFrame === 'function') {
+    requestAnimationFrame(callback);
+  } else {
+    setTimeout(callback, 16);
+  }
+}
+
+// Sessions imported from a transcript, read-only and never sent to the backend
+export interface ImportedSession {
+  workspaceId: WorkspaceId;
+  session: SessionData;
+  messages: NormalizedMessage[];
+  importedAt: number;
+}
+
+// Progress of an imported session's replay, index is the number shown
+export interface ReplayState {
+  status: 'playing' | 'paused' | 'finished';
+  index: number;
+  speed: number;
+}
+
+// Pending timer of each playing replay
+const replayTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function clearReplayTimer(sessionId: string) {
+  const timer = replayTimers.get(sessionId);
+  if (timer) {
+    clearTimeout(timer);
+    replayTimers.delete(sessionId);
+  }
+}
+
+// Tool approval requests waiting for a user decision
+export type ToolApprovalDecision = 'approve' | 'approve_always' | 'deny';
+
+export interface PendingToolApproval {
+  id: string;
+  // Null when no known session has the tool call
+  sessionId: string | null;
+  toolUse: ToolUse;
+  category?: ApprovalCategory;
+  cwd: string | null;
+  resolve: (result: HandlerOutput<'toolApproval'>) => void;
+}
+
+// Output of a bash-mode (!) command run in the workspace
+export interface BashOutput {
+  id: string;
+  command: string;
+  output: string;
+  status: 'running' | 'success' | 'error';
+  // Null when the backend does not report one
+  exitCode: number | null;
+  timestamp: string;
+  // Attached outputs are sent as context with the next prompt
+  attached: boolean;
+}
+
+// Pseudo-terminal tab backed by a pty in the main process
+export interface TerminalTab {
+  id: string;
+  title: string;
+  exitCode: number | null;
+}
+
+// Prompts kept per workspace for up-arrow and Ctrl+R history
+const MAX_WORKSPACE_HISTORY = 500;
+
+// Default free space percentage that triggers auto compaction
+const DEFAULT_AUTO_COMPACT_THRESHOLD = 15;
+
+// Backend used until the user configures another endpoint
+const DEFAULT_BACKEND_URL = 'ws://localhost:1024/ws';
+
+// Endpoint value that follows the backend started by the main process
+const EMBEDDED_BACKEND_ENDPOINT = 'embedded';
+
+// Timeout for requests not listed in REQUEST_TIMEOUTS
+const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+// Methods that legitimately run long, 0 waits for as long as it takes.
+// Turns and commands report progress through events instead.
+const REQUEST_TIMEOUTS: Partial<Record<HandlerMethod, number>> = {
+  'session.send': 0,
+  'slashCommand.execute': 0,
+  'utils.tool.executeBash': 0,
+  'utils.query': 5 * 60 * 1000,
+  'session.compact': 5 * 60 * 1000,
+  'utils.quickQuery': 2 * 60 * 1000,
+  'utils.summarizeMessage': 2 * 60 * 1000,
+  'project.workspaces.create': 2 * 60 * 1000,
+  'project.workspaces.merge': 2 * 60 * 1000,
+  'project.workspaces.createGithubPR': 2 * 60 * 1000,
+  'project.analyzeContext': 60 * 1000,
+  'mcp.reconnect': 60 * 1000,
+};
+
+// Requests are only recorded for the inspector in development builds
+const requestLog = import.meta.env.DEV ? new RequestLog() : null;
+
+// Health of the active backend connection, shown in the sidebar
+export interface ConnectionHealth {
+  latency: number | null;
+  reconnectAttempts: number;
+  lastError: string | null;
+  lastConnectedAt: number | null;
+}
+
+const defaultConnectionHealth: ConnectionHealth = {
+  latency: null,
+  reconnectAttempts: 0,
+  lastError: null,
+  lastConnectedAt: null,
+};
+
+// Context window breakdown returned by project.analyzeContext
+export type ContextUsage = NonNullable<
+  HandlerOutput<'project.analyzeContext'>['data']
+>;
+
 interface StoreState {
   // WebSocket connection state
   state: 'disconnected' | 'connecting' | 'connected' | 'error';
@@ -93,6 +410,19 @@ interface StoreState {
   messageBus: MessageBus | null;
   initialized: boolean;
 
+  // Configured backend endpoints and the one connected to
+  backendEndpoints: string[];
+  activeEndpoint: string;
+  connectionHealth: ConnectionHealth;
+
+  // Backend supervised by the main process, null outside Electron
+  backendStatus: BackendStatus | null;
+
+  // Remote ahead/behind status by repo path, refreshed by background fetches
+  remoteSyncByRepo: Record<RepoId, GitRepoSync>;
+  // Pull, push or rebase running in a worktree, keyed by its path
+  syncOperationByPath: Record<string, GitSyncOperation>;
+
   // Entity data
   repos: Record<RepoId, RepoData>;
   workspaces: Record<WorkspaceId, WorkspaceData>;
@@ -102,12 +432,44 @@ interface StoreState {
   // Session-scoped processing state
   sessionProcessing: Record<SessionId, SessionProcessingState>;
 
+  // Assistant message streaming in from chunk events, replaced by the final one
+  streamingMessageBySession: Record<SessionId, StreamingMessage>;
+
   // Session-scoped input state
   inputBySession: Record<SessionId, SessionInputState>;
 
-  // Workspace-scoped history
+  // Session-scoped tool approval queue
+  toolApprovalsBySession: Record<SessionId, PendingToolApproval[]>;
+  // Approval requests whose session could not be identified
+  unassignedToolApprovals: PendingToolApproval[];
+
+  // Session-scoped approval mode, as reported by the backend
+  approvalModeBySession: Record<SessionId, ApprovalMode>;
+
+  // Session-scoped context window usage
+  contextUsageBySession: Record<SessionId, ContextUsage>;
+
+  // Sessions with a compaction in flight
+  compactingBySession: Record<SessionId, boolean>;
+
+  // Parent message the next send branches from, set by forking
+  forkParentUuidBySession: Record<SessionId, string | null>;
+
+  // Session-scoped bash-mode command outputs
+  bashOutputsBySession: Record<SessionId, BashOutput[]>;
+
+  // Transcripts imported into workspaces, kept in memory only
+  importedSessions: Record<SessionId, ImportedSession>;
+  replayBySession: Record<SessionId, ReplayState>;
+
+  // Prompts sent from this app per workspace, the CLI's own history is not
+  // read back since the backend has no request for it
   historyByWorkspace: Record<WorkspaceId, string[]>;
 
+  // Workspace-scoped terminals, kept alive across workspace switches
+  terminalsByWorkspace: Record<WorkspaceId, TerminalTab[]>;
+  activeTerminalByWorkspace: Record<WorkspaceId, string | null>;
+
   // UI state
   selectedRepoPath: string | null;
   selectedWorkspaceId: WorkspaceId | null;
@@ -116,6 +478,8 @@ interface StoreState {
   sidebarCollapsed: boolean;
   openRepoAccordions: string[];
   expandedSessionGroups: Record<string, boolean>;
+  // Message to scroll to once its session is shown
+  messageFocusRequest: { sessionId: SessionId; messageUuid: string } | null;
 
   // Config state
   globalConfig: Record<string, any> | null;
@@ -134,12 +498,25 @@ interface StoreActions {
   // WebSocket actions
   connect: () => Promise<void>;
   disconnect: () => Promise<void>;
+  reconnect: () => Promise<void>;
+  setActiveEndpoint: (url: string) => Promise<void>;
+  addBackendEndpoint: (url: string) => void;
+  removeBackendEndpoint: (url: string) => void;
+  measureLatency: () => Promise<void>;
+  watchBackend: () => Promise<void>;
   request: <K extends HandlerMethod>(
     method: K,
     params: HandlerInput<K>,
+    options?: RequestOptions,
   ) => Promise<HandlerOutput<K>>;
   onEvent: <T>(event: string, handler: (data: T) => void) => void;
+  registerHandler: <K extends HandlerMethod>(
+    method: K,
+    handler: (params: HandlerInput<K>) => Promise<HandlerOutput<K>>,
+  ) => void;
   initialize: () => Promise<void>;
+  registerBackendHandlers: () => void;
+  refreshSelectedSession: () => Promise<void>;
   sendMessage: (params: {
     message: string | null;
     planMode: PlanMode;
@@ -162,6 +539,50 @@ interface StoreActions {
   ) => void;
   resetSessionInput: (sessionId: string) => void;
 
+  // Tool approval helpers
+  resolveToolApproval: (
+    sessionId: string | null,
+    decision: ToolApprovalDecision,
+  ) => Promise<void>;
+
+  // Approval mode helpers
+  fetchApprovalMode: (sessionId: string) => Promise<void>;
+  setApprovalMode: (sessionId: string, mode: ApprovalMode) => Promise<void>;
+
+  // Context usage helpers
+  fetchContextUsage: (sessionId: string) => Promise<void>;
+  compactSession: (sessionId: string) => Promise<boolean>;
+
+  // Memory mode helpers
+  addMemory: (
+    workspaceId: string | null,
+    rule: string,
+    scope: MemoryScope,
+  ) => Promise<void>;
+
+  // Bash mode helpers
+  executeBashCommand: (command: string) => Promise<void>;
+  toggleBashOutputAttached: (sessionId: string, outputId: string) => void;
+
+  // Fork and resume helpers
+  forkFromMessage: (sessionId: string, messageUuid: string) => void;
+  resumeSession: (workspaceId: string, sessionId: string) => Promise<boolean>;
+
+  // Pull request helpers
+  generatePullRequestDraft: (workspaceId: string) => Promise<PullRequestDraft>;
+  createPullRequest: (
+    workspaceId: string,
+    params: PullRequestDraft & { baseBranch?: string },
+  ) => Promise<{ prUrl: string; prNumber: number }>;
+
+  // Remote sync helpers
+  applyRemoteSync: (sync: GitRepoSync) => void;
+  runSyncOperation: (
+    cwd: string,
+    operation: Exclude<GitSyncOperation, 'fetch'>,
+    onto?: string,
+  ) => Promise<GitSyncResult>;
+
   // Workspace history helpers
   addToWorkspaceHistory: (workspaceId: string, input: string) => void;
   getWorkspaceHistory: (workspaceId: string) => string[];
@@ -199,6 +620,8 @@ interface StoreActions {
   toggleSidebar: () => void;
   setOpenRepoAccordions: (ids: string[]) => void;
   toggleSessionGroupExpanded: (workspaceId: string) => void;
+  revealLocation: (location: RevealLocation) => void;
+  clearMessageFocusRequest: () => void;
 
   // Config actions
   loadGlobalConfig: () => Promise<void>;
@@ -215,6 +638,23 @@ interface StoreActions {
 
   // Local JSX slash command actions
   setSlashCommandJSX: (sessionId: string, jsx: React.ReactNode | null) => void;
+
+  // Transcript import and replay actions
+  importTranscript: (
+    workspaceId: string,
+    transcript: SessionTranscript,
+  ) => string;
+  removeImportedSession: (sessionId: string) => void;
+  startReplay: (sessionId: string) => void;
+  pauseReplay: (sessionId: string) => void;
+  stepReplay: (sessionId: string) => void;
+  stopReplay: (sessionId: string) => void;
+  setReplaySpeed: (sessionId: string, speed: number) => void;
+
+  // Terminal actions
+  createTerminal: (workspaceId: string) => Promise<string | null>;
+  closeTerminal: (workspaceId: string, terminalId: string) => Promise<void>;
+  setActiveTerminal: (workspaceId: string, terminalId: string | null) => void;
 }
 
 type Store = StoreState & StoreActions;
@@ -226,6 +666,14 @@ const useStore = create<Store>()((set, get) => ({
   messageBus: null,
   initialized: false,
 
+  // Initial connection manager state
+  backendEndpoints: [DEFAULT_BACKEND_URL],
+  activeEndpoint: DEFAULT_BACKEND_URL,
+  connectionHealth: defaultConnectionHealth,
+  backendStatus: null,
+  remoteSyncByRepo: {},
+  syncOperationByPath: {},
+
   // Initial entity data
   repos: {},
   workspaces: {},
@@ -234,12 +682,26 @@ const useStore = create<Store>()((set, get) => ({
 
   // Initial session processing state
   sessionProcessing: {},
+  streamingMessageBySession: {},
 
   // Initial session input state
   inputBySession: {},
 
+  // Initial tool approval queue
+  toolApprovalsBySession: {},
+  unassignedToolApprovals: [],
+  approvalModeBySession: {},
+  contextUsageBySession: {},
+  compactingBySession: {},
+  forkParentUuidBySession: {},
+  bashOutputsBySession: {},
+  importedSessions: {},
+  replayBySession: {},
+
   // Initial workspace history
   historyByWorkspace: {},
+  terminalsByWorkspace: {},
+  activeTerminalByWorkspace: {},
 
   // Initial UI state
   selectedRepoPath: null,
@@ -249,6 +711,7 @@ const useStore = create<Store>()((set, get) => ({
   sidebarCollapsed: false,
   openRepoAccordions: [],
   expandedSessionGroups: {},
+  messageFocusRequest: null,
 
   // Initial config state
   globalConfig: null,
@@ -263,48 +726,127 @@ const useStore = create<Store>()((set, get) => ({
   slashCommandJSXBySession: {},
 
   connect: async () => {
-    const { transport } = get();
-    if (transport?.isConnected()) {
+    const { transport, activeEndpoint, backendStatus } = get();
+    // An existing transport is connected or retrying, reconnect replaces it
+    if (transport) {
       return;
     }
 
+    let url = activeEndpoint;
+    if (activeEndpoint === EMBEDDED_BACKEND_ENDPOINT) {
+      // watchBackend connects once the embedded backend is listening
+      if (backendStatus?.state !== 'running' || !backendStatus.url) {
+        const isStarting =
+          backendStatus?.state === 'starting' ||
+          backendStatus?.state === 'crashed';
+        set({
+          state: isStarting ? 'connecting' : 'error',
+          connectionHealth: {
+            ...get().connectionHealth,
+            lastError: isStarting
+              ? null
+              : backendStatus?.lastError || 'Embedded backend is not running',
+          },
+        });
+        return;
+      }
+      url = backendStatus.url;
+    }
+
     set({ state: 'connecting' });
 
-    try {
-      const newTransport = new WebSocketTransport({
-        url: 'ws://localhost:1024/ws',
-        reconnectInterval: 1000,
-        maxReconnectInterval: 30000,
-        shouldReconnect: true,
+    const newTransport = new WebSocketTransport({
+      url,
+      reconnectInterval: 1000,
+      maxReconnectInterval: 30000,
+      shouldReconnect: true,
+    });
+    const newMessageBus = new MessageBus();
+    newMessageBus.setTransport(newTransport);
+    newMessageBus.setRequestLog(requestLog);
+
+    // A replaced transport can still fire late callbacks, ignore those
+    const isCurrent = () => get().transport === newTransport;
+    let hasOpened = false;
+
+    newTransport.onOpen(() => {
+      if (!isCurrent()) return;
+
+      const isReopen = hasOpened;
+      hasOpened = true;
+      set({
+        state: 'connected',
+        connectionHealth: {
+          ...get().connectionHealth,
+          reconnectAttempts: 0,
+          lastError: null,
+          lastConnectedAt: Date.now(),
+        },
       });
 
-      newTransport.onError(() => {
-        set({ state: 'error' });
-      });
+      if (!get().initialized) {
+        get()
+          .initialize()
+          .catch((error) => console.error('Failed to initialize:', error));
+        return;
+      }
 
-      newTransport.onClose(() => {
-        set({ state: 'disconnected' });
+      // The message bus keeps its handlers across automatic reconnects,
+      // a fresh bus from a manual reconnect needs them registered again
+      if (!isReopen) {
+        get().registerBackendHandlers();
+      }
+      get().refreshSelectedSession();
+      get().measureLatency();
+    });
+
+    newTransport.onError((error) => {
+      if (!isCurrent()) return;
+      set({
+        state: 'error',
+        connectionHealth: {
+          ...get().connectionHealth,
+          lastError: error.message,
+        },
       });
+    });
 
-      const newMessageBus = new MessageBus();
-      newMessageBus.setTransport(newTransport);
+    newTransport.onClose(() => {
+      if (!isCurrent()) return;
+      // Nothing will answer requests sent over the closed socket
+      newMessageBus.cancelPendingRequests();
+      set((state) => ({
+        state: state.state === 'error' ? 'error' : 'disconnected',
+        connectionHealth: {
+          ...state.connectionHealth,
+          latency: null,
+          reconnectAttempts: newTransport.getReconnectAttempts(),
+        },
+      }));
+    });
 
-      // Set the transport and messageBus before connecting
-      set({ transport: newTransport, messageBus: newMessageBus });
+    // Set the transport and messageBus before connecting
+    set({ transport: newTransport, messageBus: newMessageBus });
 
-      // Connect the transport
+    try {
+      // Connect the transport, the open handler updates the state
       await newTransport.connect();
-
-      // Set state to connected after successful connection
-      set({ state: 'connected' });
     } catch (error) {
-      set({ state: 'error' });
+      // The transport keeps retrying in the background
+      console.error(`Failed to connect to ${url}:`, error);
     }
   },
 
   disconnect: async () => {
     const { transport, messageBus } = get();
 
+    // Clear first so callbacks from the closing transport are ignored
+    set({
+      state: 'disconnected',
+      transport: null,
+      messageBus: null,
+    });
+
     if (transport) {
       await transport.close();
     }
@@ -312,150 +854,928 @@ const useStore = create<Store>()((set, get) => ({
     if (messageBus) {
       messageBus.cancelPendingRequests();
     }
+  },
+
+  reconnect: async () => {
+    const { disconnect, connect } = get();
+    await disconnect();
+    set({ connectionHealth: defaultConnectionHealth });
+    await connect();
+  },
+
+  setActiveEndpoint: async (url: string) => {
+    const { activeEndpoint, backendEndpoints, reconnect } = get();
+    if (url === activeEndpoint) return;
 
     set({
-      state: 'disconnected',
-      transport: null,
-      messageBus: null,
+      activeEndpoint: url,
+      backendEndpoints:
+        url === EMBEDDED_BACKEND_ENDPOINT || backendEndpoints.includes(url)
+          ? backendEndpoints
+          : [...backendEndpoints, url],
     });
+    await reconnect();
+  },
+
+  addBackendEndpoint: (url: string) => {
+    const trimmed = url.trim();
+    if (!trimmed) return;
+
+    set((state) => ({
+      backendEndpoints: state.backendEndpoints.includes(trimmed)
+        ? state.backendEndpoints
+        : [...state.backendEndpoints, trimmed],
+    }));
+  },
+
+  removeBackendEndpoint: (url: string) => {
+    // The active endpoint must stay in the list
+    set((state) => ({
+      backendEndpoints:
+        url === state.activeEndpoint
+          ? state.backendEndpoints
+          : state.backendEndpoints.filter((endpoint) => endpoint !== url),
+    }));
+  },
+
+  measureLatency: async () => {
+    const { state, request } = get();
+    if (state !== 'connected') return;
+
+    const startedAt = performance.now();
+    try {
+      await request('config.get', {
+        cwd: '/tmp',
+        isGlobal: true,
+        key: 'desktop.theme',
+      });
+      set((prev) => ({
+        connectionHealth: {
+          ...prev.connectionHealth,
+          latency: Math.round(performance.now() - startedAt),
+        },
+      }));
+    } catch (error) {
+      console.error('Failed to measure backend latency:', error);
+    }
   },
 
   request: async <K extends HandlerMethod>(
     method: K,
     params: HandlerInput<K>,
+    options: RequestOptions = {},
   ): Promise<HandlerOutput<K>> => {
     const { messageBus, state } = get();
 
     if (state !== 'connected' || !messageBus) {
-      throw new Error(
+      throw new BridgeError(
         `Cannot make request when not connected. Current state: ${state}`,
+        { code: 'NOT_CONNECTED', method },
       );
     }
 
-    console.log('[REQUEST]', method, params);
-    const response = await messageBus.request<
-      HandlerInput<K>,
-      HandlerOutput<K>
-    >(method, params);
-    console.log('[RESPONSE]', method, response);
-    return response;
+    return messageBus.request<HandlerInput<K>, HandlerOutput<K>>(
+      method,
+      params,
+      {
+        timeout: REQUEST_TIMEOUTS[method] ?? DEFAULT_REQUEST_TIMEOUT,
+        ...options,
+      },
+    );
+  },
+
+  onEvent: <T,>(event: string, handler: (data: T) => void) => {
+    const { messageBus, state } = get();
+
+    if (state !== 'connected' || !messageBus) {
+      throw new Error(
+        `Cannot subscribe to events when not connected. Current state: ${state}`,
+      );
+    }
+
+    messageBus.onEvent<T>(event, handler);
+  },
+
+  registerHandler: <K extends HandlerMethod>(
+    method: K,
+    handler: (params: HandlerInput<K>) => Promise<HandlerOutput<K>>,
+  ) => {
+    const { messageBus, state } = get();
+
+    if (state !== 'connected' || !messageBus) {
+      throw new Error(
+        `Cannot register handlers when not connected. Current state: ${state}`,
+      );
+    }
+
+    messageBus.registerHandler<HandlerInput<K>, HandlerOutput<K>>(
+      method,
+      handler,
+    );
+  },
+
+  initialize: async () => {
+    const { loadGlobalConfig, initialized } = get();
+
+    // Only initialize once
+    if (initialized) {
+      console.log('Already initialized, skipping');
+      return;
+    }
+
+    await loadGlobalConfig();
+    get().registerBackendHandlers();
+    set({ initialized: true });
+    get().measureLatency();
+  },
+
+  watchBackend: async () => {
+    if (!window.electron?.backendGetStatus) return;
+
+    const handleStatus = (status: BackendStatus) => {
+      set({ backendStatus: status });
+
+      const { activeEndpoint, transport, reconnect, connect } = get();
+      if (activeEndpoint !== EMBEDDED_BACKEND_ENDPOINT) return;
+
+      if (status.state === 'running' && status.url) {
+        // Same port reconnects on its own, a new port needs a new transport
+        if (transport?.getUrl() !== status.url) {
+          reconnect();
+        }
+      } else if (!transport) {
+        // Surface why there is nothing to connect to
+        connect();
+      }
+    };
+
+    window.electron.onBackendStatus(handleStatus);
+    try {
+      set({ backendStatus: await window.electron.backendGetStatus() });
+    } catch (error) {
+      console.error('Failed to get embedded backend status:', error);
+    }
+  },
+
+  registerBackendHandlers: () => {
+    const { onEvent, registerHandler, addMessage } = get();
+
+    onEvent('message', (data: any) => {
+      if (data.message && data.sessionId) {
+        // The normalized message replaces whatever streamed so far
+        pendingChunksBySession.delete(data.sessionId);
+        set((state) => {
+          const { [data.sessionId]: _streamed, ...streamingMessageBySession } =
+            state.streamingMessageBySession;
+          return { streamingMessageBySession };
+        });
+        addMessage(data.sessionId, data.message);
+      }
+    });
+
+    const flushChunks = () => {
+      isChunkFlushScheduled = false;
+      const batches = [...pendingChunksBySession];
+      pendingChunksBySession.clear();
+
+      set((state) => {
+        const streamingMessageBySession = {
+          ...state.streamingMessageBySession,
+        };
+        const sessionProcessing = { ...state.sessionProcessing };
+
+        for (const [sessionId, chunks] of batches) {
+          const sessionMessages = state.messages[sessionId] || [];
+          let message =
+            streamingMessageBySession[sessionId] ||
+            createStreamingMessage(
+              sessionId,
+              sessionMessages[sessionMessages.length - 1]?.uuid ?? null,
+            );
+          for (const chunk of chunks) {
+            message = applyChunk(message, chunk);
+          }
+          // Start and metadata chunks alone leave nothing to show
+          if (message.content.length > 0) {
+            streamingMessageBySession[sessionId] = message;
+          }
+
+          // Increment token count for the session
+          const processing =
+            sessionProcessing[sessionId] || defaultSessionProcessingState;
+          sessionProcessing[sessionId] = {
+            ...processing,
+            processingToken: processing.processingToken + chunks.length,
+          };
+        }
+
+        return { streamingMessageBySession, sessionProcessing };
+      });
+    };
+
+    onEvent('chunk', (data: any) => {
+      if (!data.sessionId) return;
+
+      const chunks = pendingChunksBySession.get(data.sessionId) || [];
+      chunks.push(data.chunk);
+      pendingChunksBySession.set(data.sessionId, chunks);
+
+      if (!isChunkFlushScheduled) {
+        isChunkFlushScheduled = true;
+        requestFrame(flushChunks);
+      }
+    });
+
+    onEvent('streamResult', (data: any) => {
+      console.log('streamResult', data);
+      // Update retry info if present
+      if (data.sessionId && data.retryInfo) {
+        const { setSessionProcessing } = get();
+        setSessionProcessing(data.sessionId, {
+          retryInfo: data.retryInfo,
+        });
+      }
+      // Refresh context usage once the turn has finished
+      if (data.sessionId && !data.retryInfo) {
+        get().fetchContextUsage(data.sessionId);
+      }
+    });
+
+    // Queue tool approval requests until the user answers them
+    registerHandler('toolApproval', async (params) => {
+      // Requests from background sessions must not land on the visible one,
+      // unknown ones are shown without a session instead of guessing
+      const sessionId = findToolCallSession(get(), params.toolUse?.callId);
+      const cwd = sessionId
+        ? (findSessionWorkspace(get(), sessionId)?.worktreePath ?? null)
+        : null;
+
+      return new Promise<HandlerOutput<'toolApproval'>>((resolve) => {
+        const approval: PendingToolApproval = {
+          id: randomUUID(),
+          sessionId,
+          toolUse: params.toolUse,
+          category: params.category,
+          cwd,
+          resolve,
+        };
+        set((state) =>
+          sessionId
+            ? {
+                toolApprovalsBySession: {
+                  ...state.toolApprovalsBySession,
+                  [sessionId]: [
+                    ...(state.toolApprovalsBySession[sessionId] || []),
+                    approval,
+                  ],
+                },
+              }
+            : {
+                unassignedToolApprovals: [
+                  ...state.unassignedToolApprovals,
+                  approval,
+                ],
+              },
+        );
+      });
+    });
+  },
+
+  refreshSelectedSession: async () => {
+    const {
+      selectedWorkspaceId,
+      selectedSessionId,
+      workspaces,
+      request,
+      setMessages,
+      importedSessions,
+    } = get();
+    const workspace = selectedWorkspaceId
+      ? workspaces[selectedWorkspaceId]
+      : null;
+    if (!workspace || !selectedSessionId) return;
+    // Imported sessions do not exist on the backend
+    if (importedSessions[selectedSessionId]) return;
+
+    // Messages streamed while disconnected were never received
+    try {
+      const response = await request('session.messages.list', {
+        cwd: workspace.worktreePath,
+        sessionId: selectedSessionId,
+      });
+      if (response.success) {
+        setMessages(selectedSessionId, response.data.messages);
+      }
+    } catch (error) {
+      console.error('Failed to refresh session after reconnect:', error);
+    }
+  },
+
+  getSessionProcessing: (sessionId: string): SessionProcessingState => {
+    const { sessionProcessing } = get();
+    return sessionProcessing[sessionId] || defaultSessionProcessingState;
+  },
+
+  setSessionProcessing: (
+    sessionId: string,
+    state: Partial<SessionProcessingState>,
+  ) => {
+    // A finished or failed turn leaves no message streaming
+    const isDone = state.status !== undefined && state.status !== 'processing';
+    if (isDone) {
+      pendingChunksBySession.delete(sessionId);
+    }
+
+    set((prev) => {
+      const sessionProcessing = {
+        ...prev.sessionProcessing,
+        [sessionId]: {
+          ...(prev.sessionProcessing[sessionId] ||
+            defaultSessionProcessingState),
+          ...state,
+        },
+      };
+      if (!isDone || !prev.streamingMessageBySession[sessionId]) {
+        return { sessionProcessing };
+      }
+
+      const { [sessionId]: _streamed, ...streamingMessageBySession } =
+        prev.streamingMessageBySession;
+      return { sessionProcessing, streamingMessageBySession };
+    });
+  },
+
+  getSessionInput: (sessionId: string): SessionInputState => {
+    const { inputBySession } = get();
+    return inputBySession[sessionId] || defaultSessionInputState;
+  },
+
+  setSessionInput: (sessionId: string, state: Partial<SessionInputState>) => {
+    set((prev) => ({
+      inputBySession: {
+        ...prev.inputBySession,
+        [sessionId]: {
+          ...(prev.inputBySession[sessionId] || defaultSessionInputState),
+          ...state,
+        },
+      },
+    }));
+  },
+
+  resetSessionInput: (sessionId: string) => {
+    set((prev) => ({
+      inputBySession: {
+        ...prev.inputBySession,
+        [sessionId]: {
+          ...defaultSessionInputState,
+          // but keep thinking and thinkingEnabled
+          thinking: prev.inputBySession[sessionId]?.thinking || null,
+          thinkingEnabled:
+            prev.inputBySession[sessionId]?.thinkingEnabled || false,
+          planMode: prev.inputBySession[sessionId]?.planMode || 'normal',
+          memoryScope: prev.inputBySession[sessionId]?.memoryScope || 'project',
+        },
+      },
+    }));
+  },
+
+  resolveToolApproval: async (
+    sessionId: string | null,
+    decision: ToolApprovalDecision,
+  ) => {
+    const { toolApprovalsBySession, unassignedToolApprovals, request } = get();
+    const current = sessionId
+      ? toolApprovalsBySession[sessionId]?.[0]
+      : unassignedToolApprovals[0];
+    if (!current) return;
+
+    // Dequeue first so a double click cannot answer the same request twice
+    set((state) =>
+      sessionId
+        ? {
+            toolApprovalsBySession: {
+              ...state.toolApprovalsBySession,
+              [sessionId]: (
+                state.toolApprovalsBySession[sessionId] || []
+              ).filter((approval) => approval.id !== current.id),
+            },
+          }
+        : {
+            unassignedToolApprovals: state.unassignedToolApprovals.filter(
+              (approval) => approval.id !== current.id,
+            ),
+          },
+    );
+
+    // Without a session there is nowhere to save the tool to
+    if (decision === 'approve_always' && sessionId && current.cwd) {
+      try {
+        await request('session.config.addApprovalTools', {
+          cwd: current.cwd,
+          sessionId,
+          approvalTool: current.toolUse.name,
+        });
+      } catch (error) {
+        console.error('Failed to save approval tool:', error);
+      }
+    }
+
+    current.resolve({ approved: decision !== 'deny' });
+  },
+
+  fetchApprovalMode: async (sessionId: string) => {
+    const { request } = get();
+    const workspace = findSessionWorkspace(get(), sessionId);
+    if (!workspace) return;
+
+    try {
+      const response = await request('session.initialize', {
+        cwd: workspace.worktreePath,
+        sessionId,
+      });
+      if (response.success) {
+        set((state) => ({
+          approvalModeBySession: {
+            ...state.approvalModeBySession,
+            [sessionId]: response.data.approvalMode,
+          },
+        }));
+      }
+    } catch (error) {
+      console.error('Failed to fetch approval mode:', error);
+    }
+  },
+
+  fetchContextUsage: async (sessionId: string) => {
+    const { request } = get();
+    const workspace = findSessionWorkspace(get(), sessionId);
+    if (!workspace) return;
+
+    try {
+      const response = await request('project.analyzeContext', {
+        cwd: workspace.worktreePath,
+        sessionId,
+      });
+      const usage = response.data;
+      if (response.success && usage) {
+        set((state) => ({
+          contextUsageBySession: {
+            ...state.contextUsageBySession,
+            [sessionId]: usage,
+          },
+        }));
+
+        // Opt-in auto compaction when free space drops below the threshold
+        const { getGlobalConfigValue, compactSession } = get();
+        const autoCompact = getGlobalConfigValue<boolean>(
+          'desktop.autoCompact',
+          false,
+        );
+        const threshold = getGlobalConfigValue<number>(
+          'desktop.autoCompactThreshold',
+          DEFAULT_AUTO_COMPACT_THRESHOLD,
+        ) as number;
+        if (autoCompact && usage.freeSpace.percentage < threshold) {
+          compactSession(sessionId);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to analyze context:', error);
+    }
+  },
+
+  compactSession: async (sessionId: string) => {
+    const {
+      request,
+      messages,
+      compactingBySession,
+      addMessage,
+      fetchContextUsage,
+    } = get();
+    // Auto compaction runs for background sessions as well
+    const workspace = findSessionWorkspace(get(), sessionId);
+    const sessionMessages = messages[sessionId] || [];
+    if (
+      !workspace ||
+      compactingBySession[sessionId] ||
+      sessionMessages.length === 0
+    ) {
+      return false;
+    }
+
+    set((state) => ({
+      compactingBySession: { ...state.compactingBySession, [sessionId]: true },
+    }));
+
+    try {
+      const response = await request('session.compact', {
+        cwd: workspace.worktreePath,
+        sessionId,
+        messages: sessionMessages,
+      });
+      if (!response.success) {
+        throw new Error('Backend failed to compact the session');
+      }
+
+      // The summary starts a new message chain, older history stays on disk
+      const summaryMessage: NormalizedMessage = {
+        type: 'message',
+        role: 'user',
+        content: [{ type: 'text', text: response.data.summary }],
+        uiContent: COMPACT_MESSAGE_UI_CONTENT,
+        uuid: randomUUID(),
+        parentUuid: null,
+        timestamp: new Date().toISOString(),
+      };
+      await request('session.addMessages', {
+        cwd: workspace.worktreePath,
+        sessionId,
+        messages: [summaryMessage],
+      });
+      addMessage(sessionId, summaryMessage);
+      await fetchContextUsage(sessionId);
+      return true;
+    } catch (error) {
+      console.error('Failed to compact session:', error);
+      return false;
+    } finally {
+      set((state) => ({
+        compactingBySession: {
+          ...state.compactingBySession,
+          [sessionId]: false,
+        },
+      }));
+    }
+  },
+
+  addMemory: async (
+    workspaceId: string | null,
+    rule: string,
+    scope: MemoryScope,
+  ) => {
+    const { workspaces, request } = get();
+    const workspace = workspaceId ? workspaces[workspaceId] : null;
+    if (!workspace) {
+      throw new Error('No workspace selected to add memory');
+    }
+
+    const response = await request('project.addMemory', {
+      cwd: workspace.worktreePath,
+      global: scope === 'global',
+      rule,
+    });
+    if (!response.success) {
+      throw new Error('Failed to write memory');
+    }
+  },
+
+  executeBashCommand: async (command: string) => {
+    const { selectedWorkspaceId, workspaces, request, createSession } = get();
+    if (!selectedWorkspaceId) {
+      throw new Error('No workspace selected to run command');
+    }
+    const workspace = workspaces[selectedWorkspaceId];
+    if (!workspace) {
+      throw new Error(`Workspace ${selectedWorkspaceId} not found`);
+    }
+
+    const sessionId = get().selectedSessionId || createSession();
+    const outputId = randomUUID();
+
+    const updateOutput = (updates: Partial<BashOutput>) => {
+      set((state) => ({
+        bashOutputsBySession: {
+          ...state.bashOutputsBySession,
+          [sessionId]: (state.bashOutputsBySession[sessionId] || []).map(
+            (output) =>
+              output.id === outputId ? { ...output, ...updates } : output,
+          ),
+        },
+      }));
+    };
+
+    set((state) => ({
+      bashOutputsBySession: {
+        ...state.bashOutputsBySession,
+        [sessionId]: [
+          ...(state.bashOutputsBySession[sessionId] || []),
+          {
+            id: outputId,
+            command,
+            output: '',
+            status: 'running',
+            exitCode: null,
+            timestamp: new Date().toISOString(),
+            attached: false,
+          },
+        ],
+      },
+    }));
+
+    try {
+      const response = await request('utils.tool.executeBash', {
+        cwd: workspace.worktreePath,
+        command,
+      });
+      const output = getBashOutputText(response.data);
+      const isError = !response.success || !!response.data?.isError;
+      updateOutput({
+        output: output || response.error?.message || '',
+        status: isError ? 'error' : 'success',
+        exitCode: getBashExitCode(response.data),
+      });
+    } catch (error) {
+      updateOutput({
+        output: (error as Error).message,
+        status: 'error',
+      });
+    }
+  },
+
+  toggleBashOutputAttached: (sessionId: string, outputId: string) => {
+    set((state) => ({
+      bashOutputsBySession: {
+        ...state.bashOutputsBySession,
+        [sessionId]: (state.bashOutputsBySession[sessionId] || []).map(
+          (output) =>
+            output.id === outputId
+              ? { ...output, attached: !output.attached }
+              : output,
+        ),
+      },
+    }));
+  },
+
+  forkFromMessage: (sessionId: string, messageUuid: string) => {
+    const { messages, setSessionInput, createSession } = get();
+    const sessionMessages = messages[sessionId] || [];
+    const index = sessionMessages.findIndex((m) => m.uuid === messageUuid);
+    const target = sessionMessages[index];
+    if (!target) return;
+
+    const text = getMessageText(target);
+    const prefill = {
+      value: text,
+      cursorPosition: text.length,
+      historyIndex: null,
+    };
+
+    // The first message has no parent to branch from, so forking it starts
+    // a new session with the same prompt
+    if (!target.parentUuid) {
+      setSessionInput(createSession(), prefill);
+      return;
+    }
+
+    // Drop the forked message and everything after it from the view,
+    // the backend keeps the old branch in the session log
+    set((state) => ({
+      messages: {
+        ...state.messages,
+        [sessionId]: sessionMessages.slice(0, index),
+      },
+      forkParentUuidBySession: {
+        ...state.forkParentUuidBySession,
+        [sessionId]: target.parentUuid,
+      },
+    }));
+    setSessionInput(sessionId, prefill);
   },
 
-  onEvent: <T,>(event: string, handler: (data: T) => void) => {
-    const { messageBus, state } = get();
+  resumeSession: async (workspaceId: string, sessionId: string) => {
+    const { request, workspaces, selectWorkspace, selectSession } = get();
+    const workspace = workspaces[workspaceId];
+    if (!workspace) return false;
 
-    if (state !== 'connected' || !messageBus) {
-      throw new Error(
-        `Cannot subscribe to events when not connected. Current state: ${state}`,
-      );
-    }
+    try {
+      const response = await request('sessions.resume', {
+        cwd: workspace.worktreePath,
+        sessionId,
+      });
+      if (!response.success) {
+        return false;
+      }
 
-    messageBus.onEvent<T>(event, handler);
+      // Drop cached session state so it is fetched again from the backend
+      const resumedId = response.data.sessionId;
+      set((state) => {
+        const { [resumedId]: _mode, ...approvalModeBySession } =
+          state.approvalModeBySession;
+        const { [resumedId]: _usage, ...contextUsageBySession } =
+          state.contextUsageBySession;
+        return { approvalModeBySession, contextUsageBySession };
+      });
+      selectWorkspace(workspaceId);
+      selectSession(resumedId);
+      return true;
+    } catch (error) {
+      console.error('Failed to resume session:', error);
+      return false;
+    }
   },
 
-  initialize: async () => {
-    const { loadGlobalConfig, initialized, onEvent, addMessage } = get();
-
-    // Only initialize once
-    if (initialized) {
-      console.log('Already initialized, skipping');
-      return;
+  generatePullRequestDraft: async (workspaceId: string) => {
+    const { request, workspaces, sessions, messages } = get();
+    const workspace = workspaces[workspaceId];
+    if (!workspace) {
+      throw new Error(`Workspace ${workspaceId} not found`);
+    }
+    const fallback: PullRequestDraft = {
+      title: workspace.metadata.description || workspace.branch,
+      description: '',
+    };
+
+    // Oldest session first so the transcript reads in order
+    const workspaceSessions = (sessions[workspaceId] || [])
+      .slice()
+      .sort((a, b) => a.created - b.created);
+    const allMessages: NormalizedMessage[] = [];
+    for (const session of workspaceSessions) {
+      let sessionMessages = messages[session.sessionId];
+      if (!sessionMessages) {
+        try {
+          const response = await request('session.messages.list', {
+            cwd: workspace.worktreePath,
+            sessionId: session.sessionId,
+          });
+          sessionMessages = response.success ? response.data.messages : [];
+        } catch (error) {
+          console.error('Failed to fetch messages for PR draft:', error);
+          sessionMessages = [];
+        }
+      }
+      allMessages.push(...sessionMessages);
     }
 
-    await loadGlobalConfig();
+    const transcript = buildPullRequestTranscript(allMessages);
+    if (!transcript) {
+      return fallback;
+    }
 
-    onEvent('message', (data: any) => {
-      if (data.message && data.sessionId) {
-        addMessage(data.sessionId, data.message);
-      }
+    const response = await request('utils.quickQuery', {
+      cwd: workspace.worktreePath,
+      systemPrompt: PR_DRAFT_SYSTEM_PROMPT,
+      userPrompt: `Branch: ${workspace.branch}\n\nConversation:\n${transcript}`,
     });
+    if (!response?.success || !response.data?.text) {
+      return fallback;
+    }
+    return parsePullRequestDraft(response.data.text, fallback.title);
+  },
 
-    onEvent('chunk', (data: any) => {
-      // Increment token count for the session
-      if (data.sessionId) {
-        const { setSessionProcessing, getSessionProcessing } = get();
-        const current = getSessionProcessing(data.sessionId);
-        setSessionProcessing(data.sessionId, {
-          processingToken: current.processingToken + 1,
-        });
-      }
-    });
+  createPullRequest: async (
+    workspaceId: string,
+    params: PullRequestDraft & { baseBranch?: string },
+  ) => {
+    const { request, workspaces, updateWorkspace } = get();
+    const workspace = workspaces[workspaceId];
+    if (!workspace) {
+      throw new Error(`Workspace ${workspaceId} not found`);
+    }
 
-    onEvent('streamResult', (data: any) => {
-      console.log('streamResult', data);
-      // Update retry info if present
-      if (data.sessionId && data.retryInfo) {
-        const { setSessionProcessing } = get();
-        setSessionProcessing(data.sessionId, {
-          retryInfo: data.retryInfo,
-        });
-      }
+    const response = await request('project.workspaces.createGithubPR', {
+      cwd: workspace.repoPath,
+      name: workspace.id,
+      title: params.title,
+      description: params.description,
+      baseBranch: params.baseBranch,
     });
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to create pull request');
+    }
 
-    set({ initialized: true });
+    const { prUrl, prNumber } = response.data;
+    updateWorkspace(workspaceId, {
+      metadata: {
+        ...workspace.metadata,
+        pullRequest: { number: prNumber, url: prUrl },
+      },
+    });
+    return { prUrl, prNumber };
   },
 
-  getSessionProcessing: (sessionId: string): SessionProcessingState => {
-    const { sessionProcessing } = get();
-    return sessionProcessing[sessionId] || defaultSessionProcessingState;
+  applyRemoteSync: (sync: GitRepoSync) => {
+    set((state) => ({
+      remoteSyncByRepo: { ...state.remoteSyncByRepo, [sync.repoPath]: sync },
+    }));
+
+    // The repo's own checkout is what its persisted sync status describes
+    const { repos, updateRepo } = get();
+    const repo = repos[sync.repoPath];
+    if (!repo) return;
+
+    const syncStatus = sync.worktrees[repo.path]?.state ?? 'unknown';
+    const defaultBranch = repo.gitRemote.defaultBranch || sync.defaultBranch;
+    if (
+      syncStatus !== repo.gitRemote.syncStatus ||
+      defaultBranch !== repo.gitRemote.defaultBranch
+    ) {
+      updateRepo(repo.path, {
+        gitRemote: { ...repo.gitRemote, syncStatus, defaultBranch },
+      });
+    }
   },
 
-  setSessionProcessing: (
-    sessionId: string,
-    state: Partial<SessionProcessingState>,
+  runSyncOperation: async (
+    cwd: string,
+    operation: Exclude<GitSyncOperation, 'fetch'>,
+    onto?: string,
   ) => {
-    set((prev) => ({
-      sessionProcessing: {
-        ...prev.sessionProcessing,
-        [sessionId]: {
-          ...(prev.sessionProcessing[sessionId] ||
-            defaultSessionProcessingState),
-          ...state,
-        },
-      },
+    const api = window.electron;
+    if (!api) {
+      throw new Error('Syncing with the remote requires the desktop app');
+    }
+    const running = get().syncOperationByPath[cwd];
+    if (running) {
+      throw new Error(`A ${running} is already running in this worktree`);
+    }
+
+    set((state) => ({
+      syncOperationByPath: { ...state.syncOperationByPath, [cwd]: operation },
     }));
+    try {
+      switch (operation) {
+        case 'pull':
+          return await api.gitPull(cwd);
+        case 'push':
+          return await api.gitPush(cwd);
+        case 'rebase':
+          if (!onto) {
+            throw new Error(
+              'The repository has no default branch to rebase on',
+            );
+          }
+          return await api.gitRebase(cwd, onto);
+      }
+    } finally {
+      set((state) => {
+        const { [cwd]: _operation, ...syncOperationByPath } =
+          state.syncOperationByPath;
+        return { syncOperationByPath };
+      });
+    }
   },
 
-  getSessionInput: (sessionId: string): SessionInputState => {
-    const { inputBySession } = get();
-    return inputBySession[sessionId] || defaultSessionInputState;
-  },
+  setApprovalMode: async (sessionId: string, mode: ApprovalMode) => {
+    const { request, approvalModeBySession } = get();
+    const workspace = findSessionWorkspace(get(), sessionId);
+    if (!workspace) return;
 
-  setSessionInput: (sessionId: string, state: Partial<SessionInputState>) => {
-    set((prev) => ({
-      inputBySession: {
-        ...prev.inputBySession,
-        [sessionId]: {
-          ...(prev.inputBySession[sessionId] || defaultSessionInputState),
-          ...state,
-        },
+    const previousMode = approvalModeBySession[sessionId];
+
+    // Update optimistically so the selector responds immediately
+    set((state) => ({
+      approvalModeBySession: {
+        ...state.approvalModeBySession,
+        [sessionId]: mode,
       },
     }));
-  },
 
-  resetSessionInput: (sessionId: string) => {
-    set((prev) => ({
-      inputBySession: {
-        ...prev.inputBySession,
-        [sessionId]: {
-          ...defaultSessionInputState,
-          // but keep thinking and thinkingEnabled
-          thinking: prev.inputBySession[sessionId]?.thinking || null,
-          thinkingEnabled:
-            prev.inputBySession[sessionId]?.thinkingEnabled || false,
-          planMode: prev.inputBySession[sessionId]?.planMode || 'normal',
+    try {
+      const response = await request('session.config.setApprovalMode', {
+        cwd: workspace.worktreePath,
+        sessionId,
+        approvalMode: mode,
+      });
+      if (!response.success) {
+        throw new Error('Backend rejected approval mode change');
+      }
+    } catch (error) {
+      console.error('Failed to set approval mode:', error);
+      set((state) => ({
+        approvalModeBySession: {
+          ...state.approvalModeBySession,
+          [sessionId]: previousMode ?? 'default',
         },
-      },
-    }));
+      }));
+    }
   },
 
   addToWorkspaceHistory: (workspaceId: string, input: string) => {
+    // Move repeated entries to the end instead of storing them twice
     set((prev) => ({
       historyByWorkspace: {
         ...prev.historyByWorkspace,
-        [workspaceId]: [...(prev.historyByWorkspace[workspaceId] || []), input],
+        [workspaceId]: [
+          ...(prev.historyByWorkspace[workspaceId] || []).filter(
+            (entry) => entry !== input,
+          ),
+          input,
+        ].slice(-MAX_WORKSPACE_HISTORY),
       },
     }));
+
+    // Also record the entry in the CLI's project history, one way only
+    const { workspaces, request, state } = get();
+    const workspace = workspaces[workspaceId];
+    if (workspace && state === 'connected') {
+      request('project.addHistory', {
+        cwd: workspace.worktreePath,
+        history: input,
+      }).catch((error) => {
+        console.error('Failed to add project history:', error);
+      });
+    }
   },
 
   getWorkspaceHistory: (workspaceId: string): string[] => {
@@ -480,6 +1800,7 @@ const useStore = create<Store>()((set, get) => ({
       setSessionProcessing,
       setSessionInput,
       addMessage,
+      forkParentUuidBySession,
     } = get();
 
     let sessionId = selectedSessionId;
@@ -501,6 +1822,35 @@ const useStore = create<Store>()((set, get) => ({
     const cwd = workspace.worktreePath;
     let message = params.message;
 
+    // Prepend bash outputs the user attached as context
+    const attachedOutputs = (
+      get().bashOutputsBySession[sessionId] || []
+    ).filter((output) => output.attached && output.status !== 'running');
+    if (message && attachedOutputs.length > 0 && !isSlashCommand(message)) {
+      message = `${attachedOutputs.map(formatBashOutputContext).join('\n\n')}\n\n${message}`;
+      set((state) => ({
+        bashOutputsBySession: {
+          ...state.bashOutputsBySession,
+          [sessionId]: (state.bashOutputsBySession[sessionId] || []).map(
+            (output) =>
+              output.attached ? { ...output, attached: false } : output,
+          ),
+        },
+      }));
+    }
+
+    // A pending fork branches this send from the forked message's parent
+    const parentUuid =
+      params.parentUuid ?? forkParentUuidBySession[sessionId] ?? undefined;
+    if (forkParentUuidBySession[sessionId]) {
+      set((state) => ({
+        forkParentUuidBySession: {
+          ...state.forkParentUuidBySession,
+          [sessionId]: null,
+        },
+      }));
+    }
+
     const isBrainstormMode = params.planMode === 'brainstorm';
     if (isBrainstormMode) {
       message = `/spec:brainstorm ${message}`;
@@ -529,18 +1879,12 @@ const useStore = create<Store>()((set, get) => ({
         const isLocalJSX = type === 'local-jsx';
         const isPrompt = type === 'prompt';
         if (isPrompt) {
-          // TODO: fork parentUuid
           await request('session.addMessages', {
             cwd,
             sessionId,
             messages: [userMessage],
-            parentUuid: /** fork parentUuid */ undefined,
+            parentUuid,
           });
-          // if (forkParentUuid) {
-          //   set({
-          //     forkParentUuid: null,
-          //   });
-          // }
         } else {
           addMessage(sessionId, userMessage);
         }
@@ -634,7 +1978,7 @@ const useStore = create<Store>()((set, get) => ({
         cwd,
         planMode: planModeBoolean,
         thinking,
-        parentUuid: params.parentUuid,
+        parentUuid,
         model,
       });
 
@@ -761,6 +2105,7 @@ const useStore = create<Store>()((set, get) => ({
       return {
         repos: newRepos,
         workspaces: newWorkspaces,
+        ...removeWorkspaceTerminals(state, repo.workspaceIds),
         selectedRepoPath,
         selectedWorkspaceId,
         selectedSessionId,
@@ -845,6 +2190,7 @@ const useStore = create<Store>()((set, get) => ({
         return {
           repos: newRepos,
           workspaces: newWorkspaces,
+          ...removeWorkspaceTerminals(state, [id]),
           selectedWorkspaceId,
           selectedSessionId,
         };
@@ -865,6 +2211,7 @@ const useStore = create<Store>()((set, get) => ({
 
       return {
         workspaces: newWorkspaces,
+        ...removeWorkspaceTerminals(state, [id]),
         selectedWorkspaceId,
         selectedSessionId,
       };
@@ -1013,6 +2360,39 @@ const useStore = create<Store>()((set, get) => ({
     }));
   },
 
+  revealLocation: (location: RevealLocation) => {
+    set((state) => {
+      if (!state.repos[location.repoPath]) return state;
+      const workspace = location.workspaceId
+        ? state.workspaces[location.workspaceId]
+        : null;
+      if (location.workspaceId && !workspace) return state;
+
+      return {
+        showSettings: false,
+        selectedRepoPath: location.repoPath,
+        selectedWorkspaceId: workspace?.id ?? null,
+        selectedSessionId: workspace ? location.sessionId : null,
+        openRepoAccordions: state.openRepoAccordions.includes(location.repoPath)
+          ? state.openRepoAccordions
+          : [...state.openRepoAccordions, location.repoPath],
+        messageFocusRequest:
+          workspace && location.sessionId && location.messageUuid
+            ? {
+                sessionId: location.sessionId,
+                messageUuid: location.messageUuid,
+              }
+            : null,
+      };
+    });
+  },
+
+  clearMessageFocusRequest: () => {
+    set(() => ({
+      messageFocusRequest: null,
+    }));
+  },
+
   // Config actions
   loadGlobalConfig: async () => {
     const { globalConfig, isConfigLoading } = get();
@@ -1188,6 +2568,18 @@ const useStore = create<Store>()((set, get) => ({
       console.error('Failed to cancel session:', error);
     }
 
+    // Deny any tool approvals still waiting on the user
+    const pendingApprovals = get().toolApprovalsBySession[sessionId] || [];
+    for (const approval of pendingApprovals) {
+      approval.resolve({ approved: false });
+    }
+    set((state) => ({
+      toolApprovalsBySession: {
+        ...state.toolApprovalsBySession,
+        [sessionId]: [],
+      },
+    }));
+
     // Reset processing state
     setSessionProcessing(sessionId, {
       status: 'idle',
@@ -1221,7 +2613,247 @@ const useStore = create<Store>()((set, get) => ({
       },
     }));
   },
+
+  importTranscript: (workspaceId: string, transcript: SessionTranscript) => {
+    const sessionId = randomUUID();
+    const session: SessionData = {
+      sessionId,
+      created: transcript.session.created,
+      modified: transcript.session.modified,
+      messageCount: transcript.messages.length,
+      summary: transcript.session.summary,
+    };
+
+    set((state) => ({
+      importedSessions: {
+        ...state.importedSessions,
+        [sessionId]: {
+          workspaceId,
+          session,
+          messages: transcript.messages,
+          importedAt: Date.now(),
+        },
+      },
+      messages: {
+        ...state.messages,
+        [sessionId]: transcript.messages,
+      },
+    }));
+    get().selectSession(sessionId);
+    return sessionId;
+  },
+
+  removeImportedSession: (sessionId: string) => {
+    clearReplayTimer(sessionId);
+    set((state) => {
+      const { [sessionId]: _session, ...importedSessions } =
+        state.importedSessions;
+      const { [sessionId]: _replay, ...replayBySession } =
+        state.replayBySession;
+      const { [sessionId]: _messages, ...messages } = state.messages;
+      return {
+        importedSessions,
+        replayBySession,
+        messages,
+        selectedSessionId:
+          state.selectedSessionId === sessionId
+            ? null
+            : state.selectedSessionId,
+      };
+    });
+  },
+
+  startReplay: (sessionId: string) => {
+    const imported = get().importedSessions[sessionId];
+    if (!imported) return;
+    clearReplayTimer(sessionId);
+
+    // Finished and stopped replays start over, paused ones resume
+    const current = get().replayBySession[sessionId];
+    const index = current && current.status !== 'finished' ? current.index : 0;
+    set((state) => ({
+      replayBySession: {
+        ...state.replayBySession,
+        [sessionId]: { status: 'playing', index, speed: current?.speed ?? 1 },
+      },
+      messages: {
+        ...state.messages,
+        [sessionId]: imported.messages.slice(0, index),
+      },
+    }));
+
+    const scheduleNext = () => {
+      const replay = get().replayBySession[sessionId];
+      if (replay?.status !== 'playing') return;
+      const delay = getReplayDelay(
+        imported.messages[replay.index - 1],
+        imported.messages[replay.index],
+        replay.speed,
+      );
+      replayTimers.set(
+        sessionId,
+        setTimeout(() => {
+          replayTimers.delete(sessionId);
+          get().stepReplay(sessionId);
+          scheduleNext();
+        }, delay),
+      );
+    };
+    scheduleNext();
+  },
+
+  pauseReplay: (sessionId: string) => {
+    clearReplayTimer(sessionId);
+    set((state) => {
+      const replay = state.replayBySession[sessionId];
+      if (replay?.status !== 'playing') return state;
+      return {
+        replayBySession: {
+          ...state.replayBySession,
+          [sessionId]: { ...replay, status: 'paused' },
+        },
+      };
+    });
+  },
+
+  stepReplay: (sessionId: string) => {
+    set((state) => {
+      const imported = state.importedSessions[sessionId];
+      if (!imported) return state;
+      const replay = state.replayBySession[sessionId] ?? {
+        status: 'paused',
+        index: 0,
+        speed: 1,
+      };
+      if (replay.index >= imported.messages.length) return state;
+
+      const index = replay.index + 1;
+      return {
+        replayBySession: {
+          ...state.replayBySession,
+          [sessionId]: {
+            ...replay,
+            index,
+            status:
+              index >= imported.messages.length ? 'finished' : replay.status,
+          },
+        },
+        messages: {
+          ...state.messages,
+          [sessionId]: imported.messages.slice(0, index),
+        },
+      };
+    });
+  },
+
+  stopReplay: (sessionId: string) => {
+    clearReplayTimer(sessionId);
+    set((state) => {
+      const imported = state.importedSessions[sessionId];
+      if (!imported) return state;
+      const { [sessionId]: _replay, ...replayBySession } =
+        state.replayBySession;
+      return {
+        replayBySession,
+        messages: {
+          ...state.messages,
+          [sessionId]: imported.messages,
+        },
+      };
+    });
+  },
+
+  setReplaySpeed: (sessionId: string, speed: number) => {
+    set((state) => {
+      const replay = state.replayBySession[sessionId];
+      if (!replay) return state;
+      return {
+        replayBySession: {
+          ...state.replayBySession,
+          [sessionId]: { ...replay, speed },
+        },
+      };
+    });
+  },
+
+  createTerminal: async (workspaceId: string) => {
+    const { workspaces } = get();
+    const workspace = workspaces[workspaceId];
+    if (!workspace || !window.electron) return null;
+
+    try {
+      const { id } = await window.electron.terminalCreate({
+        cwd: workspace.worktreePath,
+      });
+      set((state) => {
+        const tabs = state.terminalsByWorkspace[workspaceId] || [];
+        return {
+          terminalsByWorkspace: {
+            ...state.terminalsByWorkspace,
+            [workspaceId]: [
+              ...tabs,
+              { id, title: `Terminal ${tabs.length + 1}`, exitCode: null },
+            ],
+          },
+          activeTerminalByWorkspace: {
+            ...state.activeTerminalByWorkspace,
+            [workspaceId]: id,
+          },
+        };
+      });
+      return id;
+    } catch (error) {
+      console.error('Failed to create terminal:', error);
+      return null;
+    }
+  },
+
+  closeTerminal: async (workspaceId: string, terminalId: string) => {
+    try {
+      await window.electron?.terminalKill(terminalId);
+    } catch (error) {
+      console.error('Failed to kill terminal:', error);
+    }
+    disposeTerminal(terminalId);
+
+    set((state) => {
+      const tabs = (state.terminalsByWorkspace[workspaceId] || []).filter(
+        (tab) => tab.id !== terminalId,
+      );
+      const activeId = state.activeTerminalByWorkspace[workspaceId];
+      return {
+        terminalsByWorkspace: {
+          ...state.terminalsByWorkspace,
+          [workspaceId]: tabs,
+        },
+        activeTerminalByWorkspace: {
+          ...state.activeTerminalByWorkspace,
+          [workspaceId]:
+            activeId === terminalId
+              ? (tabs[tabs.length - 1]?.id ?? null)
+              : activeId,
+        },
+      };
+    });
+  },
+
+  setActiveTerminal: (workspaceId: string, terminalId: string | null) => {
+    set((state) => ({
+      activeTerminalByWorkspace: {
+        ...state.activeTerminalByWorkspace,
+        [workspaceId]: terminalId,
+      },
+    }));
+  },
 }));
 
-export { useStore, defaultSessionInputState };
+export {
+  useStore,
+  defaultSessionInputState,
+  DEFAULT_AUTO_COMPACT_THRESHOLD,
+  DEFAULT_BACKEND_URL,
+  EMBEDDED_BACKEND_ENDPOINT,
+  MAX_WORKSPACE_HISTORY,
+  requestLog,
+};
 export type { Store, StoreState, StoreActions, SessionProcessingState };
@@ -0,0 +1,135 @@
+import type { StoreApi } from 'zustand';
+import type { SharedRecordPatch, SharedStoreState } from '../shared/types';
+import type { Store } from './store';
+
+// Store slices that describe app-wide entities rather than one window's UI.
+// Records are synced per key, so two windows editing different entries both
+// keep their edits. Edits to the same entry, and the value slices, are last
+// writer wins.
+const SHARED_RECORD_KEYS = [
+  'repos',
+  'workspaces',
+  'sessions',
+  'historyByWorkspace',
+] as const;
+const SHARED_VALUE_KEYS = ['backendEndpoints', 'activeEndpoint'] as const;
+
+/**
+ * Entries added, changed or removed between two versions of a record
+ */
+function diffRecord(
+  prev: Record<string, unknown>,
+  next: Record<string, unknown>,
+): SharedRecordPatch {
+  const set: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(next)) {
+    if (prev[key] !== value) set[key] = value;
+  }
+  const removed = Object.keys(prev).filter((key) => !(key in next));
+  return { set, removed };
+}
+
+function applyRecordPatch(
+  current: Record<string, unknown>,
+  patch: SharedRecordPatch,
+): Record<string, unknown> {
+  const next = { ...current, ...patch.set };
+  for (const key of patch.removed) {
+    delete next[key];
+  }
+  return next;
+}
+
+/**
+ * Id of the window this renderer runs in, 'main' outside the desktop app
+ */
+export function getWindowId(): string {
+  return window.electron?.windowId || 'main';
+}
+
+/**
+ * Workspace the window was opened for, only set for new windows
+ */
+export function getInitialWorkspaceId(): string | null {
+  return window.electron?.initialWorkspaceId || null;
+}
+
+/**
+ * Keep shared store slices in sync with the other windows
+ * Local changes are broadcast through the main process, and changes from
+ * other windows are applied without being sent back.
+ * @param store The Zustand store instance
+ */
+export function setupWindowSync(store: StoreApi<Store>): void {
+  if (!window.electron?.broadcastSharedState) return;
+
+  let applyingRemote = false;
+
+  store.subscribe((state, prev) => {
+    if (state.selectedWorkspaceId !== prev.selectedWorkspaceId) {
+      window.electron?.setWindowWorkspace(state.selectedWorkspaceId);
+    }
+
+    if (applyingRemote) return;
+    const changed: SharedStoreState = { patches: {}, values: {} };
+    let hasChanges = false;
+    for (const key of SHARED_RECORD_KEYS) {
+      if (state[key] !== prev[key]) {
+        changed.patches[key] = diffRecord(prev[key], state[key]);
+        hasChanges = true;
+      }
+    }
+    for (const key of SHARED_VALUE_KEYS) {
+      if (state[key] !== prev[key]) {
+        changed.values[key] = state[key];
+        hasChanges = true;
+      }
+    }
+    if (hasChanges) {
+      window.electron?.broadcastSharedState(changed);
+    }
+  });
+
+  window.electron.onSharedState((changed) => {
+    const previousEndpoint = store.getState().activeEndpoint;
+    applyingRemote = true;
+    try {
+      store.setState((state) => {
+        const update: Partial<Store> = {};
+        for (const key of SHARED_RECORD_KEYS) {
+          const patch = changed.patches[key];
+          if (patch) {
+            Object.assign(update, {
+              [key]: applyRecordPatch(state[key], patch),
+            });
+          }
+        }
+        // Sent by another window of this app, the shape is the store's
+        return { ...update, ...(changed.values as Partial<Store>) };
+      });
+
+      // Drop selections another window deleted
+      const { repos, workspaces, selectedRepoPath, selectedWorkspaceId } =
+        store.getState();
+      if (selectedRepoPath && !repos[selectedRepoPath]) {
+        store.setState({
+          selectedRepoPath: null,
+          selectedWorkspaceId: null,
+          selectedSessionId: null,
+        });
+      } else if (selectedWorkspaceId && !workspaces[selectedWorkspaceId]) {
+        store.setState({ selectedWorkspaceId: null, selectedSessionId: null });
+      }
+    } finally {
+      applyingRemote = false;
+    }
+
+    // Follow an endpoint switch made in another window
+    const { activeEndpoint, reconnect } = store.getState();
+    if (activeEndpoint !== previousEndpoint) {
+      reconnect();
+    }
+  });
+
+  window.electron.setWindowWorkspace(store.getState().selectedWorkspaceId);
+}
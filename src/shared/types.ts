@@ -1,5 +1,170 @@
 // Shared types between main and renderer processes
 
+// Pseudo-terminal IPC payloads
+export interface TerminalCreateOptions {
+  cwd: string;
+  cols?: number;
+  rows?: number;
+}
+
+export interface TerminalDataEvent {
+  id: string;
+  data: string;
+}
+
+export interface TerminalExitEvent {
+  id: string;
+  exitCode: number;
+}
+
+// Result of loading the persisted renderer store
+export interface StoreLoadResult {
+  state: PersistedStoreFile | null;
+  // Backup file the state was restored from when store.json was unreadable
+  recoveredFrom: string | null;
+  // store.json existed but could not be parsed
+  corrupted: boolean;
+}
+
+// Save dialog request, the content is written to the chosen path
+export interface SaveFileOptions {
+  defaultPath: string;
+  content: string;
+  filters?: { name: string; extensions: string[] }[];
+}
+
+// Embedded backend supervised by the main process
+export interface BackendConfig {
+  // Whether the app starts the backend itself
+  enabled: boolean;
+  // Shell command, {port} is replaced with the chosen port
+  command: string;
+}
+
+export interface BackendStatus {
+  enabled: boolean;
+  command: string;
+  state: 'stopped' | 'starting' | 'running' | 'stopping' | 'crashed' | 'failed';
+  port: number | null;
+  // WebSocket endpoint of the running backend
+  url: string | null;
+  pid: number | null;
+  restarts: number;
+  lastExitCode: number | null;
+  lastError: string | null;
+}
+
+export interface BackendLogLine {
+  timestamp: number;
+  stream: 'stdout' | 'stderr' | 'system';
+  text: string;
+}
+
+// Kind of change git status reports for one side of a file
+export type GitChangeKind =
+  | 'added'
+  | 'modified'
+  | 'deleted'
+  | 'renamed'
+  | 'untracked'
+  | 'conflicted';
+
+export interface GitFileChange {
+  path: string;
+  // Source path of a staged rename
+  oldPath: string | null;
+  // HEAD to index change, null when nothing is staged
+  staged: GitChangeKind | null;
+  // Index to worktree change, null when nothing is unstaged
+  unstaged: GitChangeKind | null;
+}
+
+// Matches WorkspaceData.gitState in the renderer
+export interface GitState {
+  currentCommit: string;
+  isDirty: boolean;
+  pendingChanges: string[];
+}
+
+export interface GitStateEvent {
+  cwd: string;
+  state: GitState;
+}
+
+// Matches RepoData.gitRemote.syncStatus in the renderer
+export type GitSyncState =
+  | 'synced'
+  | 'ahead'
+  | 'behind'
+  | 'diverged'
+  | 'unknown';
+
+export interface GitBranchSync {
+  // Null when HEAD is detached
+  branch: string | null;
+  // Remote branch compared against, null when the branch was never pushed
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  // Commits on the default branch that are missing, null on the default branch
+  behindDefault: number | null;
+  state: GitSyncState;
+}
+
+export interface GitRepoSync {
+  repoPath: string;
+  defaultBranch: string | null;
+  fetchedAt: number;
+  // Last fetch failure, counts then reflect the previous fetch
+  error: string | null;
+  // Keyed by worktree path, the repo's own checkout included
+  worktrees: Record<string, GitBranchSync>;
+}
+
+export type GitSyncOperation = 'fetch' | 'pull' | 'push' | 'rebase';
+
+export interface GitSyncProgressEvent {
+  cwd: string;
+  operation: GitSyncOperation;
+  message: string;
+}
+
+export interface GitSyncResult {
+  success: boolean;
+  // Files that conflicted, the pull or rebase was aborted
+  conflicts: string[];
+  message: string;
+}
+
+export interface GitFileVersions {
+  original: string;
+  modified: string;
+  // Binary files are not diffed, both sides are empty
+  binary: boolean;
+}
+
+// Entries of a record slice that one window changed
+export interface SharedRecordPatch {
+  set: Record<string, unknown>;
+  removed: string[];
+}
+
+// Store slices every window shares, broadcast between windows on change
+// Record slices travel as per-key patches, the rest replace the whole value.
+export interface SharedStoreState {
+  patches: Record<string, SharedRecordPatch>;
+  values: Record<string, unknown>;
+}
+
+// Persisted store file as the main process sees it, the renderer owns the
+// rest of its shape and migrations
+export interface PersistedStoreFile {
+  version?: number;
+  // UI state of each window, keyed by window id
+  windows?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
 export interface ElectronAPI {
   platform: string;
   versions: {
@@ -19,9 +184,67 @@ export interface ElectronAPI {
   ) => void;
   removeConfirmRequestListener: () => void;
   removeDirectoryResultListener: () => void;
-  saveStore: (state: any) => Promise<{ success: boolean }>;
-  loadStore: () => Promise<any>;
+  saveStore: (state: PersistedStoreFile) => Promise<{ success: boolean }>;
+  loadStore: () => Promise<StoreLoadResult>;
   selectDirectory: () => Promise<string | null>;
+  // Resolves with the saved path, or null when the dialog was cancelled
+  saveFile: (options: SaveFileOptions) => Promise<string | null>;
+  openExternal: (url: string) => Promise<{ success: boolean }>;
+  // Pseudo-terminals
+  terminalCreate: (
+    options: TerminalCreateOptions,
+  ) => Promise<{ id: string; pid: number }>;
+  terminalWrite: (id: string, data: string) => void;
+  terminalResize: (id: string, cols: number, rows: number) => void;
+  terminalKill: (id: string) => Promise<{ success: boolean }>;
+  onTerminalData: (callback: (event: TerminalDataEvent) => void) => () => void;
+  onTerminalExit: (callback: (event: TerminalExitEvent) => void) => () => void;
+  // Embedded backend
+  backendGetStatus: () => Promise<BackendStatus>;
+  backendGetConfig: () => Promise<BackendConfig>;
+  backendSetConfig: (config: BackendConfig) => Promise<BackendStatus>;
+  backendRestart: () => Promise<BackendStatus>;
+  backendGetLogs: () => Promise<BackendLogLine[]>;
+  onBackendStatus: (callback: (status: BackendStatus) => void) => () => void;
+  onBackendLog: (callback: (line: BackendLogLine) => void) => () => void;
+  // Git
+  gitStatus: (cwd: string) => Promise<GitFileChange[]>;
+  gitFileVersions: (
+    cwd: string,
+    change: Pick<GitFileChange, 'path' | 'oldPath'>,
+    staged: boolean,
+  ) => Promise<GitFileVersions>;
+  gitStage: (cwd: string, paths: string[]) => Promise<{ success: boolean }>;
+  gitUnstage: (cwd: string, paths: string[]) => Promise<{ success: boolean }>;
+  gitDiscard: (cwd: string, paths: string[]) => Promise<{ success: boolean }>;
+  gitApplyPatch: (
+    cwd: string,
+    patch: string,
+    options: { cached: boolean; reverse: boolean },
+  ) => Promise<{ success: boolean }>;
+  gitCommit: (
+    cwd: string,
+    message: string,
+  ) => Promise<{ success: boolean; commit: string }>;
+  gitWatch: (cwd: string) => void;
+  gitUnwatch: (cwd: string) => void;
+  onGitState: (callback: (event: GitStateEvent) => void) => () => void;
+  gitTrackRemotes: (repoPaths: string[]) => void;
+  gitFetch: (repoPath: string) => Promise<GitRepoSync>;
+  gitPull: (cwd: string) => Promise<GitSyncResult>;
+  gitPush: (cwd: string) => Promise<GitSyncResult>;
+  gitRebase: (cwd: string, onto: string) => Promise<GitSyncResult>;
+  onGitSync: (callback: (sync: GitRepoSync) => void) => () => void;
+  onGitSyncProgress: (
+    callback: (event: GitSyncProgressEvent) => void,
+  ) => () => void;
+  // Windows
+  windowId: string;
+  initialWorkspaceId: string | null;
+  openWorkspaceWindow: (workspaceId: string) => Promise<{ success: boolean }>;
+  setWindowWorkspace: (workspaceId: string | null) => void;
+  broadcastSharedState: (state: SharedStoreState) => void;
+  onSharedState: (callback: (state: SharedStoreState) => void) => () => void;
 }
 
 // Extend Window interface for type safety
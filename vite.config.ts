@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
@@ -19,4 +20,8 @@ export default defineConfig({
   server: {
     port: 5173,
   },
+  test: {
+    // Main process modules have tests too, scan from src instead of the root
+    dir: path.resolve(__dirname, 'src'),
+  },
 });